@@ -1,5 +1,419 @@
+import { expect } from "chai";
+import { Quadrant, QuadsKeepr } from "quadskeepr";
+import * as sinon from "sinon";
+
+import { ActorHittr } from "./ActorHittr";
+import { Actor, ActorHittrSettings, HitCallback } from "./types";
+
+const stubQuadrant = (): Quadrant<Actor> => ({
+    actors: { Solid: [] },
+    bottom: 100,
+    changed: false,
+    left: 0,
+    numActors: { Solid: 0 },
+    right: 100,
+    top: 0,
+});
+
+const stubActor = (quadrant: Quadrant<Actor>, left: number, overrides?: Partial<Actor>) => {
+    const actor: Actor = {
+        bottom: 10,
+        changed: false,
+        groupType: "Solid",
+        left,
+        numQuadrants: 1,
+        quadrants: [quadrant],
+        right: left + 10,
+        title: "Block",
+        top: 0,
+        ...overrides,
+    };
+
+    quadrant.actors.Solid.push(actor);
+    quadrant.numActors.Solid += 1;
+
+    return actor;
+};
+
+const createActorHittr = (settings?: Partial<ActorHittrSettings>) => {
+    const hitCallback = sinon.spy<HitCallback>(() => undefined);
+    const actorHitter = new ActorHittr({
+        globalCheckGenerator: () => () => true,
+        hitCallbackGenerators: {
+            Solid: { Solid: () => hitCallback },
+        },
+        hitCheckGenerators: {
+            Solid: {
+                Solid: () => (actor: Actor, other: Actor) =>
+                    actor.left < other.right && actor.right > other.left,
+            },
+        },
+        ...settings,
+    });
+
+    actorHitter.cacheChecksForType("Solid", "Block");
+
+    return { actorHitter, hitCallback };
+};
+
+const createContactsActorHittr = () => {
+    const onHitStart = sinon.spy<HitCallback>(() => undefined);
+    const onHitStay = sinon.spy<HitCallback>(() => undefined);
+    const onHitEnd = sinon.spy<HitCallback>(() => undefined);
+    const { actorHitter } = createActorHittr({
+        onHitEndGenerators: {
+            Solid: { Solid: () => onHitEnd },
+        },
+        onHitStartGenerators: {
+            Solid: { Solid: () => onHitStart },
+        },
+        onHitStayGenerators: {
+            Solid: { Solid: () => onHitStay },
+        },
+    });
+
+    return { actorHitter, onHitEnd, onHitStart, onHitStay };
+};
+
+const moveActor = (actor: Actor, left: number) => {
+    actor.left = left;
+    actor.right = left + 10;
+};
+
 describe("ActorHittr", () => {
-    it("_", () => {
-        /* ... */
+    describe("checkHitsForActor", () => {
+        it("calls the hit callback for overlapping Actors", () => {
+            // Arrange
+            const { actorHitter, hitCallback } = createActorHittr();
+            const quadrant = stubQuadrant();
+            const other = stubActor(quadrant, 5);
+            const actor = stubActor(quadrant, 0);
+
+            // Act
+            actorHitter.checkHitsForActor(actor);
+
+            // Assert
+            expect(hitCallback).to.have.been.calledOnceWithExactly(actor, other, undefined);
+        });
+
+        it("doesn't call the hit callback for Actors whose masks don't overlap their layers", () => {
+            // Arrange
+            const { actorHitter, hitCallback } = createActorHittr();
+            const quadrant = stubQuadrant();
+            stubActor(quadrant, 5, { collisionLayer: 0b01, collisionMask: 0b10 });
+            const actor = stubActor(quadrant, 0, { collisionLayer: 0b01, collisionMask: 0b10 });
+
+            // Act
+            actorHitter.checkHitsForActor(actor);
+
+            // Assert
+            expect(hitCallback).to.have.callCount(0);
+        });
+
+        it("doesn't call the hit callback when only one Actor's mask overlaps the other's layer", () => {
+            // Arrange
+            const { actorHitter, hitCallback } = createActorHittr();
+            const quadrant = stubQuadrant();
+            stubActor(quadrant, 5, { collisionLayer: 0b10, collisionMask: 0b10 });
+            const actor = stubActor(quadrant, 0, { collisionLayer: 0b01, collisionMask: 0b10 });
+
+            // Act
+            actorHitter.checkHitsForActor(actor);
+
+            // Assert
+            expect(hitCallback).to.have.callCount(0);
+        });
+
+        it("calls the hit callback for Actors whose masks overlap their layers", () => {
+            // Arrange
+            const { actorHitter, hitCallback } = createActorHittr();
+            const quadrant = stubQuadrant();
+            const other = stubActor(quadrant, 5, { collisionLayer: 0b10, collisionMask: 0b01 });
+            const actor = stubActor(quadrant, 0, { collisionLayer: 0b01, collisionMask: 0b10 });
+
+            // Act
+            actorHitter.checkHitsForActor(actor);
+
+            // Assert
+            expect(hitCallback).to.have.been.calledOnceWithExactly(actor, other, undefined);
+        });
+
+        it("doesn't call the hit callback for Actors that didn't touch during the frame when swept", () => {
+            // Arrange
+            const { actorHitter, hitCallback } = createActorHittr({
+                hitCheckGenerators: {
+                    Solid: { Solid: () => () => true },
+                },
+                swept: true,
+            });
+            const quadrant = stubQuadrant();
+            stubActor(quadrant, 20);
+            const actor = stubActor(quadrant, 60, { xVelocity: 10 });
+
+            // Act
+            actorHitter.checkHitsForActor(actor);
+
+            // Assert
+            expect(hitCallback).to.have.callCount(0);
+        });
+
+        it("doesn't call the hit callback for a fast Actor that passed another", () => {
+            // Arrange
+            const { actorHitter, hitCallback } = createActorHittr();
+            const quadrant = stubQuadrant();
+            stubActor(quadrant, 20, { right: 25 });
+            const actor = stubActor(quadrant, 40, { xVelocity: 50 });
+
+            // Act
+            actorHitter.checkHitsForActor(actor);
+
+            // Assert
+            expect(hitCallback).to.have.callCount(0);
+        });
+
+        it("calls the hit callback with the time of impact for a fast Actor that passed another when swept", () => {
+            // Arrange
+            const { actorHitter, hitCallback } = createActorHittr({
+                hitCheckGenerators: {
+                    Solid: { Solid: () => () => true },
+                },
+                swept: true,
+            });
+            const quadrant = stubQuadrant();
+            const other = stubActor(quadrant, 20, { right: 25 });
+            const actor = stubActor(quadrant, 40, { xVelocity: 50 });
+
+            // Act
+            actorHitter.checkHitsForActor(actor);
+
+            // Assert
+            expect(hitCallback).to.have.been.calledOnceWithExactly(actor, other, 0.4);
+        });
+
+        it("calls the hit callback for a fast Actor that passed through another in a different quadrant when swept", () => {
+            // Arrange
+            const { actorHitter, hitCallback } = createActorHittr({ swept: true });
+            const quadsKeeper = new QuadsKeepr<Actor>({
+                checkVelocity: true,
+                groupNames: ["Solid"],
+                numCols: 8,
+                numRows: 1,
+                quadrantHeight: 32,
+                quadrantWidth: 32,
+            });
+            const other = stubActor(stubQuadrant(), 40, { numQuadrants: 0, quadrants: [] });
+            const actor = stubActor(stubQuadrant(), 200, {
+                numQuadrants: 0,
+                quadrants: [],
+                xVelocity: 180,
+            });
+
+            quadsKeeper.resetQuadrants();
+            quadsKeeper.determineGroupQuadrants([other, actor]);
+
+            // Act
+            actorHitter.checkHitsForActor(actor);
+
+            // Assert
+            expect(hitCallback).to.have.been.calledOnceWith(actor, other);
+            expect(hitCallback.args[0][2]).to.be.closeTo(10 / 180, 0.001);
+            expect(actor).to.include({ left: 200, right: 210 });
+        });
+
+        it("calls the hit callback once for Actors sharing several quadrants", () => {
+            // Arrange
+            const { actorHitter, hitCallback } = createActorHittr();
+            const first = stubQuadrant();
+            const second = stubQuadrant();
+            const other = stubActor(first, 5);
+            const actor = stubActor(first, 0);
+
+            for (const shared of [other, actor]) {
+                shared.quadrants.push(second);
+                shared.numQuadrants += 1;
+                second.actors.Solid.push(shared);
+                second.numActors.Solid += 1;
+            }
+
+            // Act
+            actorHitter.checkHitsForActor(actor);
+
+            // Assert
+            expect(hitCallback).to.have.been.calledOnceWithExactly(actor, other, undefined);
+        });
+    });
+
+    describe("contacts", () => {
+        it("calls the hit start callback when Actors start hitting", () => {
+            // Arrange
+            const { actorHitter, onHitStart, onHitStay } = createContactsActorHittr();
+            const quadrant = stubQuadrant();
+            const other = stubActor(quadrant, 5);
+            const actor = stubActor(quadrant, 0);
+
+            // Act
+            actorHitter.checkHitsForActor(actor);
+
+            // Assert
+            expect(onHitStart).to.have.been.calledOnceWithExactly(actor, other, undefined);
+            expect(onHitStay).to.have.callCount(0);
+        });
+
+        it("calls the hit stay callback when Actors keep hitting after an update", () => {
+            // Arrange
+            const { actorHitter, onHitStart, onHitStay } = createContactsActorHittr();
+            const quadrant = stubQuadrant();
+            const other = stubActor(quadrant, 5);
+            const actor = stubActor(quadrant, 0);
+
+            actorHitter.checkHitsForActor(actor);
+            actorHitter.updateContacts();
+
+            // Act
+            actorHitter.checkHitsForActor(actor);
+
+            // Assert
+            expect(onHitStart).to.have.callCount(1);
+            expect(onHitStay).to.have.been.calledOnceWithExactly(actor, other, undefined);
+        });
+
+        it("calls the hit end callback when Actors stop hitting", () => {
+            // Arrange
+            const { actorHitter, onHitEnd } = createContactsActorHittr();
+            const quadrant = stubQuadrant();
+            const other = stubActor(quadrant, 5);
+            const actor = stubActor(quadrant, 0);
+
+            actorHitter.checkHitsForActor(actor);
+            actorHitter.updateContacts();
+            moveActor(actor, 50);
+            actorHitter.checkHitsForActor(actor);
+
+            // Act
+            actorHitter.updateContacts();
+
+            // Assert
+            expect(onHitEnd).to.have.been.calledOnceWithExactly(actor, other, undefined);
+        });
+
+        it("keeps contacts between Actors in the same group that check each other in a new order", () => {
+            // Arrange
+            const { actorHitter, onHitEnd, onHitStart, onHitStay } = createContactsActorHittr();
+            const quadrant = stubQuadrant();
+            const other = stubActor(quadrant, 5);
+            const actor = stubActor(quadrant, 0);
+
+            actorHitter.checkHitsForActor(actor);
+            actorHitter.updateContacts();
+            quadrant.actors.Solid.reverse();
+
+            // Act
+            actorHitter.checkHitsForActor(other);
+            actorHitter.updateContacts();
+
+            // Assert
+            expect(onHitStart).to.have.callCount(1);
+            expect(onHitStay).to.have.been.calledOnceWithExactly(actor, other, undefined);
+            expect(onHitEnd).to.have.callCount(0);
+        });
+
+        it("doesn't call the hit end callback for removed Actors", () => {
+            // Arrange
+            const { actorHitter, onHitEnd } = createContactsActorHittr();
+            const quadrant = stubQuadrant();
+            const other = stubActor(quadrant, 5);
+            const actor = stubActor(quadrant, 0);
+
+            actorHitter.checkHitsForActor(actor);
+            actorHitter.updateContacts();
+
+            // Act
+            actorHitter.removeActor(other);
+            actorHitter.updateContacts();
+
+            // Assert
+            expect(onHitEnd).to.have.callCount(0);
+        });
+
+        it("restores contacts from a snapshot", () => {
+            // Arrange
+            const { actorHitter, onHitStart, onHitStay } = createContactsActorHittr();
+            const quadrant = stubQuadrant();
+            const other = stubActor(quadrant, 5);
+            const actor = stubActor(quadrant, 0);
+
+            actorHitter.checkHitsForActor(actor);
+            actorHitter.updateContacts();
+
+            const snapshot = actorHitter.createSnapshot();
+
+            actorHitter.clearContacts();
+
+            // Act
+            actorHitter.restoreSnapshot(snapshot);
+            actorHitter.checkHitsForActor(actor);
+
+            // Assert
+            expect(onHitStart).to.have.callCount(1);
+            expect(onHitStay).to.have.been.calledOnceWithExactly(actor, other, undefined);
+        });
+    });
+
+    describe("getStats", () => {
+        it("returns undefined when statistics aren't recorded", () => {
+            // Arrange
+            const { actorHitter } = createActorHittr();
+            const quadrant = stubQuadrant();
+            stubActor(quadrant, 5);
+            const actor = stubActor(quadrant, 0);
+
+            // Act
+            actorHitter.checkHitsForActor(actor);
+
+            // Assert
+            expect(actorHitter.getStats()).to.be.equal(undefined);
+        });
+
+        it("returns statistics for each group pair when recorded", () => {
+            // Arrange
+            let now = 0;
+            const { actorHitter } = createActorHittr({
+                getTimestamp: () => (now += 1),
+                recordStats: true,
+            });
+            const quadrant = stubQuadrant();
+            stubActor(quadrant, 50);
+            stubActor(quadrant, 5, { collisionLayer: 0b10, collisionMask: 0b10 });
+            stubActor(quadrant, 5);
+            const actor = stubActor(quadrant, 0, { collisionLayer: 0b01, collisionMask: 0b01 });
+
+            // Act
+            actorHitter.checkHitsForActor(actor);
+
+            // Assert
+            expect(actorHitter.getStats()).to.be.deep.equal({
+                Solid: {
+                    Solid: { candidates: 3, checks: 2, hits: 1, time: 3 },
+                },
+            });
+        });
+    });
+
+    describe("resetStats", () => {
+        it("clears recorded statistics", () => {
+            // Arrange
+            const { actorHitter } = createActorHittr({ recordStats: true });
+            const quadrant = stubQuadrant();
+            stubActor(quadrant, 5);
+            const actor = stubActor(quadrant, 0);
+
+            actorHitter.checkHitsForActor(actor);
+
+            // Act
+            actorHitter.resetStats();
+
+            // Assert
+            expect(actorHitter.getStats()).to.be.deep.equal({});
+        });
     });
 });
@@ -1,4 +1,5 @@
 /* eslint-disable @typescript-eslint/no-unnecessary-condition */
+import { findOverlapTimes, OverlapTimes, runAtTimeOfFrame } from "./sweep";
 import {
     Actor,
     ActorFunction,
@@ -7,13 +8,61 @@ import {
     ActorFunctionGenerator,
     ActorFunctionGeneratorContainerGroup,
     ActorHittrSettings,
+    ActorHittrSnapshot,
     GlobalCheck,
     GroupHitList,
+    GroupPairStats,
     HitCallback,
     HitCheck,
     HitsCheck,
+    HitStats,
 } from "./types";
 
+/**
+ * Bitmask of all collision layers, for Actors that don't specify theirs.
+ */
+const allLayers = ~0;
+
+/**
+ * Checks whether two Actors' collision layers allow them to hit each other.
+ *
+ * @param actor   An Actor that may be hitting other.
+ * @param other   An Actor that may be being hit by actor.
+ * @returns Whether each Actor's mask overlaps the other's layer.
+ */
+const checkLayersForActors = (actor: Actor, other: Actor): boolean =>
+    ((actor.collisionMask ?? allLayers) & (other.collisionLayer ?? allLayers)) !== 0 &&
+    ((other.collisionMask ?? allLayers) & (actor.collisionLayer ?? allLayers)) !== 0;
+
+/**
+ * Other Actors each Actor is hitting.
+ */
+type Contacts = Map<Actor, Set<Actor>>;
+
+/**
+ * @param contacts   Other Actors each Actor is hitting.
+ * @param actor   The primary Actor that may be hitting other.
+ * @param other   The secondary Actor that may be being hit by actor.
+ * @returns Whether the contacts include actor hitting other.
+ */
+const hasContact = (contacts: Contacts, actor: Actor, other: Actor): boolean =>
+    !!contacts.get(actor)?.has(other);
+
+/**
+ * @param contacts   Other Actors each Actor is hitting.
+ * @param actor   The primary Actor that is hitting other.
+ * @param other   The secondary Actor that is being hit by actor.
+ */
+const addContact = (contacts: Contacts, actor: Actor, other: Actor): void => {
+    let others = contacts.get(actor);
+    if (others === undefined) {
+        others = new Set();
+        contacts.set(actor, others);
+    }
+
+    others.add(other);
+};
+
 /**
  * Automation for physics collisions and reactions.
  */
@@ -38,6 +87,21 @@ export class ActorHittr {
      */
     private readonly hitCallbackGenerators: ActorFunctionGeneratorContainerGroup<HitCallback>;
 
+    /**
+     * Function generators for when two Actors start hitting.
+     */
+    private readonly onHitStartGenerators: ActorFunctionGeneratorContainerGroup<HitCallback>;
+
+    /**
+     * Function generators for when two Actors keep hitting.
+     */
+    private readonly onHitStayGenerators: ActorFunctionGeneratorContainerGroup<HitCallback>;
+
+    /**
+     * Function generators for when two Actors stop hitting.
+     */
+    private readonly onHitEndGenerators: ActorFunctionGeneratorContainerGroup<HitCallback>;
+
     /**
      * Check Functions for Actors within groups to see if they're able to
      * collide in the first place.
@@ -54,11 +118,61 @@ export class ActorHittr {
      */
     private readonly generatedHitCallbacks: ActorFunctionContainerGroup<HitCallback>;
 
+    /**
+     * Hit Function callbacks for when two Actors start hitting.
+     */
+    private readonly generatedOnHitStarts: ActorFunctionContainerGroup<HitCallback> = {};
+
+    /**
+     * Hit Function callbacks for when two Actors keep hitting.
+     */
+    private readonly generatedOnHitStays: ActorFunctionContainerGroup<HitCallback> = {};
+
+    /**
+     * Hit Function callbacks for when two Actors stop hitting.
+     */
+    private readonly generatedOnHitEnds: ActorFunctionContainerGroup<HitCallback> = {};
+
     /**
      * Hits checkers for when an Actor should have its hits detected.
      */
     private readonly generatedHitsChecks: ActorFunctionContainer<HitsCheck>;
 
+    /**
+     * Whether to detect hits along Actors' velocities within each frame.
+     */
+    private readonly swept: boolean;
+
+    /**
+     * Gets a current timestamp for statistics.
+     */
+    private readonly getTimestamp: () => number;
+
+    /**
+     * Broad-phase statistics since they were last reset, if they're being recorded.
+     */
+    private stats?: HitStats;
+
+    /**
+     * Other Actors already checked against the Actor having its hits checked.
+     */
+    private readonly checkedActors = new Set<Actor>();
+
+    /**
+     * Whether any contact callbacks exist, so contacts need to be kept.
+     */
+    private readonly keepsContacts: boolean;
+
+    /**
+     * Actors hitting other Actors as of the last contacts update.
+     */
+    private contacts: Contacts = new Map();
+
+    /**
+     * Actors hitting other Actors since the last contacts update.
+     */
+    private currentContacts: Contacts = new Map();
+
     /**
      * Initializes a new instance of the ActorHittr class.
      *
@@ -68,6 +182,17 @@ export class ActorHittr {
         this.globalCheckGenerator = settings.globalCheckGenerator;
         this.hitCheckGenerators = settings.hitCheckGenerators ?? {};
         this.hitCallbackGenerators = settings.hitCallbackGenerators ?? {};
+        this.onHitStartGenerators = settings.onHitStartGenerators ?? {};
+        this.onHitStayGenerators = settings.onHitStayGenerators ?? {};
+        this.onHitEndGenerators = settings.onHitEndGenerators ?? {};
+        this.keepsContacts = [
+            settings.onHitStartGenerators,
+            settings.onHitStayGenerators,
+            settings.onHitEndGenerators,
+        ].some((generators) => generators !== undefined);
+        this.swept = settings.swept ?? false;
+        this.getTimestamp = settings.getTimestamp ?? (() => performance.now());
+        this.stats = settings.recordStats ? {} : undefined;
 
         this.generatedHitChecks = {};
         this.generatedHitCallbacks = {};
@@ -109,19 +234,113 @@ export class ActorHittr {
         this.generatedHitsChecks[actor.title](actor);
     }
 
+    /**
+     * @returns Broad-phase statistics since they were last reset, if they're being recorded.
+     */
+    public getStats(): HitStats | undefined {
+        return this.stats;
+    }
+
+    /**
+     * Clears recorded broad-phase statistics, such as at the start of each frame.
+     */
+    public resetStats(): void {
+        if (this.stats) {
+            this.stats = {};
+        }
+    }
+
+    /**
+     * Ends contacts between Actors that didn't hit since the last update,
+     * calling their hit end callbacks.
+     *
+     * @remarks This should be called once after each frame's hits are checked.
+     */
+    public updateContacts(): void {
+        for (const [actor, others] of this.contacts) {
+            for (const other of others) {
+                if (!hasContact(this.currentContacts, actor, other)) {
+                    this.runContactCallback(
+                        this.generatedOnHitEnds,
+                        this.onHitEndGenerators,
+                        actor,
+                        other
+                    );
+                }
+            }
+        }
+
+        this.contacts = this.currentContacts;
+        this.currentContacts = new Map();
+    }
+
+    /**
+     * Forgets an Actor's contacts without calling hit end callbacks, such as when it's removed.
+     *
+     * @param actor   An Actor no longer in the game.
+     */
+    public removeActor(actor: Actor): void {
+        for (const contacts of [this.contacts, this.currentContacts]) {
+            contacts.delete(actor);
+
+            for (const others of contacts.values()) {
+                others.delete(actor);
+            }
+        }
+    }
+
+    /**
+     * Forgets all contacts without calling hit end callbacks, such as when a new location is set.
+     */
+    public clearContacts(): void {
+        this.contacts.clear();
+        this.currentContacts.clear();
+    }
+
+    /**
+     * @returns Saved state to later pass to restoreSnapshot.
+     * @remarks Actors are saved by reference, so snapshots can't be serialized.
+     */
+    public createSnapshot(): ActorHittrSnapshot {
+        const snapshot: ActorHittrSnapshot = { contacts: [] };
+
+        for (const [actor, others] of this.contacts) {
+            for (const other of others) {
+                snapshot.contacts.push([actor, other]);
+            }
+        }
+
+        return snapshot;
+    }
+
+    /**
+     * Restores contacts from a snapshot.
+     *
+     * @param snapshot   Saved state from createSnapshot.
+     */
+    public restoreSnapshot(snapshot: ActorHittrSnapshot): void {
+        this.clearContacts();
+
+        for (const [actor, other] of snapshot.contacts) {
+            addContact(this.contacts, actor, other);
+        }
+    }
+
     /**
      * Checks whether two Actors are hitting.
      *
      * @param actor   The primary Actor that may be hitting other.
      * @param other   The secondary Actor that may be being hit by actor.
+     * @param timeOfImpact   For swept hits, the fraction of the frame when the Actors first touched.
      * @returns Whether the two Actors are hitting.
      */
-    public checkHitForActors(actor: Actor, other: Actor): boolean {
+    public checkHitForActors(actor: Actor, other: Actor, timeOfImpact?: number): boolean {
         return !!this.runActorsFunctionSafely(
             this.generatedHitChecks,
             actor,
             other,
-            this.hitCheckGenerators
+            this.hitCheckGenerators,
+            timeOfImpact
         );
     }
 
@@ -130,13 +349,15 @@ export class ActorHittr {
      *
      * @param actor   The primary Actor that is hitting other.
      * @param other   The secondary Actor that is being hit by actor.
+     * @param timeOfImpact   For swept hits, the fraction of the frame when the Actors first touched.
      */
-    public runHitCallbackForActors(actor: Actor, other: Actor): void {
+    public runHitCallbackForActors(actor: Actor, other: Actor, timeOfImpact?: number): void {
         this.runActorsFunctionSafely(
             this.generatedHitCallbacks,
             actor,
             other,
-            this.hitCallbackGenerators
+            this.hitCallbackGenerators,
+            timeOfImpact
         );
     }
 
@@ -152,7 +373,8 @@ export class ActorHittr {
          * is in, for all groups within that Function that the Actor's group is
          * allowed to collide with, it is checked for collision with the Actors
          * in that group. For each Actor it does collide with, the appropriate
-         * hit Function is called.
+         * hit Function is called. Actors sharing several quadrants are only
+         * checked once.
          *
          * @param actor   An Actor to check collision detection for.
          */
@@ -165,10 +387,16 @@ export class ActorHittr {
                 return;
             }
 
+            this.checkedActors.clear();
+
             // For each quadrant the Actor is in...
             for (let i = 0; i < actor.numQuadrants; i += 1) {
                 // For each group within that quadrant the Actor may collide with...
                 for (const groupName of this.groupHitLists[actor.groupType]) {
+                    const stats =
+                        this.stats &&
+                        this.getGroupPairStats(this.stats, actor.groupType, groupName);
+
                     // For each other Actor in the group that should be checked...
                     for (let j = 0; j < actor.quadrants[i].numActors[groupName]; j += 1) {
                         const other = actor.quadrants[i].actors[groupName][j];
@@ -177,14 +405,20 @@ export class ActorHittr {
                             break;
                         }
 
-                        // Do nothing if other can't collide in the first place
-                        if (!this.generatedGlobalChecks[other.title](other)) {
+                        // Do nothing if they were already checked in another quadrant
+                        if (this.checkedActors.has(other)) {
                             continue;
                         }
 
-                        // If they do hit, call the corresponding hitCallback
-                        if (this.checkHitForActors(actor, other)) {
-                            this.runHitCallbackForActors(actor, other);
+                        this.checkedActors.add(other);
+
+                        if (stats) {
+                            const start = this.getTimestamp();
+                            stats.candidates += 1;
+                            this.checkActorPair(actor, other, stats);
+                            stats.time += this.getTimestamp() - start;
+                        } else {
+                            this.checkActorPair(actor, other);
                         }
                     }
                 }
@@ -192,6 +426,163 @@ export class ActorHittr {
         };
     }
 
+    /**
+     * Checks whether two Actors sharing a quadrant are hitting, and reacts if they are.
+     *
+     * @param actor   The primary Actor that may be hitting other.
+     * @param other   The secondary Actor that may be being hit by actor.
+     * @param stats   Statistics for the Actors' groups, if they're being recorded.
+     */
+    private checkActorPair(actor: Actor, other: Actor, stats?: GroupPairStats): void {
+        // Do nothing if their collision layers don't allow them to hit
+        if (!checkLayersForActors(actor, other)) {
+            return;
+        }
+
+        // Do nothing if other can't collide in the first place
+        if (!this.generatedGlobalChecks[other.title](other)) {
+            return;
+        }
+
+        // Swept hits only count if the Actors touched during the frame
+        let overlapTimes: OverlapTimes | undefined;
+        if (this.swept) {
+            overlapTimes = findOverlapTimes(actor, other);
+            if (!overlapTimes) {
+                return;
+            }
+        }
+
+        if (stats) {
+            stats.checks += 1;
+        }
+
+        const timeOfImpact = overlapTimes?.entry;
+
+        // If they do hit, call the corresponding hitCallback
+        if (
+            overlapTimes
+                ? this.checkSweptHitForActors(actor, other, overlapTimes)
+                : this.checkHitForActors(actor, other)
+        ) {
+            if (stats) {
+                stats.hits += 1;
+            }
+
+            // Contacts are recorded first, so removing Actors in callbacks also forgets them
+            if (this.keepsContacts) {
+                this.recordContact(actor, other, timeOfImpact);
+            }
+
+            this.runHitCallbackForActors(actor, other, timeOfImpact);
+        }
+    }
+
+    /**
+     * Checks whether two Actors that touched during the frame are hitting. Actors
+     * that passed through each other are checked where they overlapped mid-frame,
+     * so hit checks comparing bounding boxes still see them overlap.
+     *
+     * @param actor   The primary Actor that may be hitting other.
+     * @param other   The secondary Actor that may be being hit by actor.
+     * @param overlapTimes   When during the frame the Actors overlapped.
+     * @returns Whether the two Actors are hitting.
+     */
+    private checkSweptHitForActors(
+        actor: Actor,
+        other: Actor,
+        overlapTimes: OverlapTimes
+    ): boolean {
+        if (overlapTimes.exit > 1) {
+            return this.checkHitForActors(actor, other, overlapTimes.entry);
+        }
+
+        return runAtTimeOfFrame(actor, other, (overlapTimes.entry + overlapTimes.exit) / 2, () =>
+            this.checkHitForActors(actor, other, overlapTimes.entry)
+        );
+    }
+
+    /**
+     * Records that two Actors are hitting, calling their hit start or hit stay callback.
+     *
+     * @param actor   The primary Actor that is hitting other.
+     * @param other   The secondary Actor that is being hit by actor.
+     * @param timeOfImpact   For swept hits, the fraction of the frame when the Actors first touched.
+     */
+    private recordContact(actor: Actor, other: Actor, timeOfImpact?: number): void {
+        // Actors in the same group may check each other in either order, so keep the earlier order
+        if (
+            actor.groupType === other.groupType &&
+            !hasContact(this.contacts, actor, other) &&
+            hasContact(this.contacts, other, actor)
+        ) {
+            [actor, other] = [other, actor];
+        }
+
+        if (hasContact(this.currentContacts, actor, other)) {
+            return;
+        }
+
+        addContact(this.currentContacts, actor, other);
+
+        if (hasContact(this.contacts, actor, other)) {
+            this.runContactCallback(
+                this.generatedOnHitStays,
+                this.onHitStayGenerators,
+                actor,
+                other,
+                timeOfImpact
+            );
+        } else {
+            this.runContactCallback(
+                this.generatedOnHitStarts,
+                this.onHitStartGenerators,
+                actor,
+                other,
+                timeOfImpact
+            );
+        }
+    }
+
+    /**
+     * Runs a contact callback for two Actors, if their groups have one.
+     *
+     * @param group   The group of generated callbacks to use.
+     * @param generators   Generators for callbacks missing from the group.
+     * @param actor   The primary Actor reacting to other.
+     * @param other   The secondary Actor that actor is reacting to.
+     * @param timeOfImpact   For swept hits, the fraction of the frame when the Actors first touched.
+     */
+    private runContactCallback(
+        group: ActorFunctionContainerGroup<HitCallback>,
+        generators: ActorFunctionGeneratorContainerGroup<HitCallback>,
+        actor: Actor,
+        other: Actor,
+        timeOfImpact?: number
+    ): void {
+        if (generators[actor.groupType]?.[other.groupType] === undefined) {
+            return;
+        }
+
+        this.runActorsFunctionSafely(group, actor, other, generators, timeOfImpact);
+    }
+
+    /**
+     * @param stats   Recorded broad-phase statistics.
+     * @param groupName   Group of the Actor having its hits checked.
+     * @param otherGroupName   Group of the Actors it's checked against.
+     * @returns Statistics for the group pair, created if they didn't exist.
+     */
+    private getGroupPairStats(
+        stats: HitStats,
+        groupName: string,
+        otherGroupName: string
+    ): GroupPairStats {
+        const groupStats = (stats[groupName] ??= {});
+
+        return (groupStats[otherGroupName] ??= { candidates: 0, checks: 0, hits: 0, time: 0 });
+    }
+
     /**
      * Runs the Function in the group that maps to the two Actors' types. If it doesn't
      * yet exist, it is created.
@@ -199,13 +590,16 @@ export class ActorHittr {
      * @param group   The group of Functions to use.
      * @param actor   The primary Actor reacting to other.
      * @param other   The secondary Actor that actor is reacting to.
+     * @param generators   Generators for Functions missing from the group.
+     * @param timeOfImpact   For swept hits, the fraction of the frame when the Actors first touched.
      * @returns The result of the ActorFunction from the group.
      */
     private runActorsFunctionSafely(
         group: ActorFunctionContainerGroup<ActorFunction>,
         actor: Actor,
         other: Actor,
-        generators: ActorFunctionGeneratorContainerGroup<ActorFunction>
+        generators: ActorFunctionGeneratorContainerGroup<ActorFunction>,
+        timeOfImpact?: number
     ): boolean | undefined {
         const typeActor = actor.title;
         const typeOther = other.title;
@@ -219,7 +613,7 @@ export class ActorHittr {
             check = container[typeOther] = generators[actor.groupType][other.groupType]();
         }
 
-        return (check as HitCheck)(actor, other);
+        return (check as HitCheck)(actor, other, timeOfImpact);
     }
 
     /**
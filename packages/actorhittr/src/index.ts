@@ -1,2 +1,3 @@
 export * from "./ActorHittr";
+export * from "./sweep";
 export * from "./types";
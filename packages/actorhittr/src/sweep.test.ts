@@ -0,0 +1,148 @@
+import { expect } from "chai";
+
+import { findOverlapTimes, findTimeOfImpact, runAtTimeOfFrame } from "./sweep";
+import { Actor } from "./types";
+
+const stubActor = (
+    left: number,
+    top: number,
+    size: number,
+    overrides?: Partial<Actor>
+): Actor => ({
+    bottom: top + size,
+    changed: false,
+    groupType: "Stub",
+    left,
+    numQuadrants: 0,
+    quadrants: [],
+    right: left + size,
+    title: "Stub",
+    top,
+    ...overrides,
+});
+
+describe("findTimeOfImpact", () => {
+    it("returns undefined when stationary Actors don't touch", () => {
+        // Arrange
+        const actor = stubActor(0, 0, 10);
+        const other = stubActor(20, 0, 10);
+
+        // Act
+        const timeOfImpact = findTimeOfImpact(actor, other);
+
+        // Assert
+        expect(timeOfImpact).to.be.equal(undefined);
+    });
+
+    it("returns 0 when stationary Actors overlap", () => {
+        // Arrange
+        const actor = stubActor(0, 0, 10);
+        const other = stubActor(5, 0, 10);
+
+        // Act
+        const timeOfImpact = findTimeOfImpact(actor, other);
+
+        // Assert
+        expect(timeOfImpact).to.be.equal(0);
+    });
+
+    it("returns the time of impact when a fast Actor passes through another", () => {
+        // Arrange
+        const actor = stubActor(40, 0, 10, { xVelocity: 50 });
+        const other = stubActor(20, 0, 5);
+
+        // Act
+        const timeOfImpact = findTimeOfImpact(actor, other);
+
+        // Assert
+        expect(timeOfImpact).to.be.equal(0.4);
+    });
+
+    it("returns undefined when a fast Actor passes beside another", () => {
+        // Arrange
+        const actor = stubActor(40, 20, 10, { xVelocity: 50 });
+        const other = stubActor(20, 0, 5);
+
+        // Act
+        const timeOfImpact = findTimeOfImpact(actor, other);
+
+        // Assert
+        expect(timeOfImpact).to.be.equal(undefined);
+    });
+
+    it("returns undefined when a moving Actor stops before reaching another", () => {
+        // Arrange
+        const actor = stubActor(5, 0, 10, { xVelocity: 5 });
+        const other = stubActor(20, 0, 5);
+
+        // Act
+        const timeOfImpact = findTimeOfImpact(actor, other);
+
+        // Assert
+        expect(timeOfImpact).to.be.equal(undefined);
+    });
+
+    it("accounts for both Actors moving", () => {
+        // Arrange
+        const actor = stubActor(10, 0, 10, { xVelocity: 10 });
+        const other = stubActor(10, 0, 10, { xVelocity: -10 });
+
+        // Act
+        const timeOfImpact = findTimeOfImpact(actor, other);
+
+        // Assert
+        expect(timeOfImpact).to.be.equal(0.5);
+    });
+});
+
+describe("findOverlapTimes", () => {
+    it("returns when a fast Actor entered and exited another", () => {
+        // Arrange
+        const actor = stubActor(40, 0, 10, { xVelocity: 50 });
+        const other = stubActor(20, 0, 5);
+
+        // Act
+        const overlapTimes = findOverlapTimes(actor, other);
+
+        // Assert
+        expect(overlapTimes).to.be.deep.equal({ entry: 0.4, exit: 0.7 });
+    });
+
+    it("returns an exit time after the frame for Actors still overlapping", () => {
+        // Arrange
+        const actor = stubActor(0, 0, 10, { xVelocity: 5 });
+        const other = stubActor(5, 0, 10);
+
+        // Act
+        const overlapTimes = findOverlapTimes(actor, other);
+
+        // Assert
+        expect(overlapTimes?.exit).to.be.greaterThan(1);
+    });
+});
+
+describe("runAtTimeOfFrame", () => {
+    it("runs the action with Actors where they were at the time", () => {
+        // Arrange
+        const actor = stubActor(40, 0, 10, { xVelocity: 50 });
+        const other = stubActor(20, 0, 5);
+
+        // Act
+        const left = runAtTimeOfFrame(actor, other, 0.5, () => actor.left);
+
+        // Assert
+        expect(left).to.be.equal(15);
+    });
+
+    it("moves Actors back to their end-of-frame positions", () => {
+        // Arrange
+        const actor = stubActor(40, 0, 10, { xVelocity: 50 });
+        const other = stubActor(20, 0, 5);
+
+        // Act
+        runAtTimeOfFrame(actor, other, 0.5, () => undefined);
+
+        // Assert
+        expect(actor).to.include({ left: 40, right: 50 });
+    });
+});
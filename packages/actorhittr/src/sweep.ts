@@ -0,0 +1,159 @@
+import { Actor } from "./types";
+
+/**
+ * Entry and exit times of moving spans or bounding boxes.
+ */
+export interface OverlapTimes {
+    /**
+     * When they start overlapping.
+     */
+    entry: number;
+
+    /**
+     * When they stop overlapping.
+     */
+    exit: number;
+}
+
+/**
+ * Finds when two spans overlap along one axis, as one moves relative to the other.
+ *
+ * @param start   Starting low edge of the moving span.
+ * @param end   Starting high edge of the moving span.
+ * @param otherStart   Low edge of the stationary span.
+ * @param otherEnd   High edge of the stationary span.
+ * @param velocity   How far the moving span moves during the frame.
+ * @returns When the spans overlap, or undefined if they never do.
+ */
+const findAxisTimes = (
+    start: number,
+    end: number,
+    otherStart: number,
+    otherEnd: number,
+    velocity: number
+): OverlapTimes | undefined => {
+    if (velocity === 0) {
+        return start < otherEnd && end > otherStart
+            ? { entry: -Infinity, exit: Infinity }
+            : undefined;
+    }
+
+    const first = (otherStart - end) / velocity;
+    const second = (otherEnd - start) / velocity;
+
+    return {
+        entry: Math.min(first, second),
+        exit: Math.max(first, second),
+    };
+};
+
+/**
+ * Finds when within a frame two moving Actors' bounding boxes overlap.
+ *
+ * @param actor   An Actor at its end-of-frame position.
+ * @param other   Another Actor at its end-of-frame position.
+ * @returns Fractions of the frame when the Actors overlap, or undefined if they don't.
+ * @remarks An exit time after 1 means the Actors still overlap at the end of the frame.
+ *          Actors are assumed to have moved in a straight line by their velocities during the frame.
+ */
+export const findOverlapTimes = (actor: Actor, other: Actor): OverlapTimes | undefined => {
+    const xVelocity = actor.xVelocity ?? 0;
+    const yVelocity = actor.yVelocity ?? 0;
+    const otherXVelocity = other.xVelocity ?? 0;
+    const otherYVelocity = other.yVelocity ?? 0;
+
+    const x = findAxisTimes(
+        actor.left - xVelocity,
+        actor.right - xVelocity,
+        other.left - otherXVelocity,
+        other.right - otherXVelocity,
+        xVelocity - otherXVelocity
+    );
+    if (!x) {
+        return undefined;
+    }
+
+    const y = findAxisTimes(
+        actor.top - yVelocity,
+        actor.bottom - yVelocity,
+        other.top - otherYVelocity,
+        other.bottom - otherYVelocity,
+        yVelocity - otherYVelocity
+    );
+    if (!y) {
+        return undefined;
+    }
+
+    const entry = Math.max(x.entry, y.entry);
+    const exit = Math.min(x.exit, y.exit);
+
+    if (entry >= exit || entry > 1 || exit <= 0) {
+        return undefined;
+    }
+
+    return {
+        entry: Math.max(entry, 0),
+        exit,
+    };
+};
+
+/**
+ * Finds the earliest time within a frame that two moving Actors' bounding boxes touch.
+ *
+ * @param actor   An Actor at its end-of-frame position.
+ * @param other   Another Actor at its end-of-frame position.
+ * @returns Fraction of the frame, from 0 to 1, when the Actors first touch, or undefined if they don't.
+ * @remarks Actors are assumed to have moved in a straight line by their velocities during the frame.
+ */
+export const findTimeOfImpact = (actor: Actor, other: Actor): number | undefined =>
+    findOverlapTimes(actor, other)?.entry;
+
+/**
+ * Moves an Actor by a fraction of its velocity.
+ *
+ * @param actor   An Actor to move.
+ * @param fraction   How much of the Actor's velocity to move it by.
+ */
+const moveActorByVelocity = (actor: Actor, fraction: number): void => {
+    const dx = (actor.xVelocity ?? 0) * fraction;
+    const dy = (actor.yVelocity ?? 0) * fraction;
+
+    actor.left += dx;
+    actor.right += dx;
+    actor.top += dy;
+    actor.bottom += dy;
+};
+
+/**
+ * Runs an action while two Actors are back where they were at a time within the frame.
+ *
+ * @template T   Type of the action's result.
+ * @param actor   An Actor at its end-of-frame position.
+ * @param other   Another Actor at its end-of-frame position.
+ * @param time   Fraction of the frame, from 0 to 1, to move the Actors back to.
+ * @param action   Action to run with the Actors moved.
+ * @returns Result of the action.
+ */
+export const runAtTimeOfFrame = <T>(
+    actor: Actor,
+    other: Actor,
+    time: number,
+    action: () => T
+): T => {
+    const positions = [actor, other].map(({ bottom, left, right, top }) => ({
+        bottom,
+        left,
+        right,
+        top,
+    }));
+
+    moveActorByVelocity(actor, time - 1);
+    moveActorByVelocity(other, time - 1);
+
+    try {
+        return action();
+    } finally {
+        Object.assign(actor, positions[0]);
+        Object.assign(other, positions[1]);
+    }
+};
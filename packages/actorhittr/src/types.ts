@@ -4,6 +4,16 @@ import { Actor as IQuadsKeeprActor, Quadrant } from "quadskeepr";
  * Any bounding box that can be within quadrant(s).
  */
 export interface Actor extends IQuadsKeeprActor {
+    /**
+     * Bitmask of collision layers this is in (by default, all of them).
+     */
+    collisionLayer?: number;
+
+    /**
+     * Bitmask of collision layers this may hit (by default, all of them).
+     */
+    collisionMask?: number;
+
     /**
      * Which group of Actors this belongs to.
      */
@@ -18,6 +28,16 @@ export interface Actor extends IQuadsKeeprActor {
      * What type this is within its group.
      */
     title: string;
+
+    /**
+     * How far this moved horizontally during the frame, for swept hits.
+     */
+    xVelocity?: number;
+
+    /**
+     * How far this moved vertically during the frame, for swept hits.
+     */
+    yVelocity?: number;
 }
 
 /**
@@ -45,17 +65,19 @@ export type HitsCheck = (actor: Actor) => void;
  *
  * @param actor   An Actor to check collision with.
  * @param other   An Actor to check collision with.
+ * @param timeOfImpact   For swept hits, the fraction of the frame when the Actors first touched.
  * @returns Whether the two Actors have collided.
  */
-export type HitCheck = (actor: Actor, other: Actor) => boolean;
+export type HitCheck = (actor: Actor, other: Actor, timeOfImpact?: number) => boolean;
 
 /**
  * Callback for when an Actor collides with another Actor.
  *
  * @param actor   An Actor that has collided with another Actor.
  * @param other   An Actor that has collided with another Actor.
+ * @param timeOfImpact   For swept hits, the fraction of the frame when the Actors first touched.
  */
-export type HitCallback = (actor: Actor, other: Actor) => void;
+export type HitCallback = (actor: Actor, other: Actor, timeOfImpact?: number) => void;
 
 /**
  * A generic Actor Function.
@@ -96,6 +118,46 @@ export type ActorFunctionContainerGroup<T extends ActorFunction> = Record<
     ActorFunctionContainer<T>
 >;
 
+/**
+ * Broad-phase statistics for Actors in one group checking Actors in another.
+ */
+export interface GroupPairStats {
+    /**
+     * How many pairs of Actors shared quadrants.
+     */
+    candidates: number;
+
+    /**
+     * How many hit checks were run on pairs of Actors.
+     */
+    checks: number;
+
+    /**
+     * How many hit checks found hits.
+     */
+    hits: number;
+
+    /**
+     * How many milliseconds were spent checking and reacting to pairs of Actors.
+     */
+    time: number;
+}
+
+/**
+ * Broad-phase statistics, keyed by checking group name and then checked group name.
+ */
+export type HitStats = Record<string, Record<string, GroupPairStats>>;
+
+/**
+ * Saved state of an ActorHittr's contacts, to be restored later.
+ */
+export interface ActorHittrSnapshot {
+    /**
+     * Pairs of Actors that were hitting, as [actor, other].
+     */
+    contacts: [Actor, Actor][];
+}
+
 /**
  * Settings to initialize a new ActorHittr.
  */
@@ -114,4 +176,39 @@ export interface ActorHittrSettings {
      * Function generators for hitCallbacks.
      */
     hitCallbackGenerators?: ActorFunctionGeneratorContainerGroup<HitCallback>;
+
+    /**
+     * Function generators for when two Actors start hitting.
+     */
+    onHitStartGenerators?: ActorFunctionGeneratorContainerGroup<HitCallback>;
+
+    /**
+     * Function generators for when two Actors hit again after having hit before the last contacts update.
+     */
+    onHitStayGenerators?: ActorFunctionGeneratorContainerGroup<HitCallback>;
+
+    /**
+     * Function generators for when two Actors stop hitting, called on contacts updates.
+     */
+    onHitEndGenerators?: ActorFunctionGeneratorContainerGroup<HitCallback>;
+
+    /**
+     * Gets a current timestamp for statistics (by default, `performance.now`).
+     */
+    getTimestamp?: () => number;
+
+    /**
+     * Whether to record broad-phase statistics for each group pair (by default, false).
+     */
+    recordStats?: boolean;
+
+    /**
+     * Whether to detect hits along Actors' velocities within each frame, so fast
+     * Actors can't pass through others (by default, false).
+     *
+     * @remarks Actors are only checked against others sharing their quadrants, so
+     *          quadrants should contain Actors along where they moved, such as with
+     *          QuadsKeepr's checkVelocity.
+     */
+    swept?: boolean;
 }
@@ -11,7 +11,7 @@ import {
 } from "mapscreatr";
 import { MapScreenr } from "mapscreenr";
 
-import { AreaSpawnrSettings, CommandAdder } from "./types";
+import { AreaSpawnrSettings, AreaSpawnrSnapshot, CommandAdder } from "./types";
 
 /**
  * Directional equivalents for converting from directions to keys.
@@ -389,6 +389,66 @@ export class AreaSpawnr {
         }
     }
 
+    /**
+     * Saves the current map, location, area boundaries, and which PreActors have spawned.
+     *
+     * @returns Saved state to later pass to restoreSnapshot.
+     */
+    public createSnapshot(): AreaSpawnrSnapshot {
+        // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+        if (!this.areaCurrent) {
+            throw new Error("Cannot create a snapshot before a location is set.");
+        }
+
+        const spawned: Record<string, number[]> = {};
+
+        for (const groupName in this.preActors) {
+            if ({}.hasOwnProperty.call(this.preActors, groupName)) {
+                spawned[groupName] = [];
+
+                this.preActors[groupName].xInc.forEach((preActor, index) => {
+                    if (preActor.spawned) {
+                        spawned[groupName].push(index);
+                    }
+                });
+            }
+        }
+
+        return {
+            boundaries: { ...this.areaCurrent.boundaries },
+            locationName: this.locationEntered.name,
+            mapName: this.mapName,
+            spawned,
+        };
+    }
+
+    /**
+     * Restores the map, location, area boundaries, and spawned PreActors from a snapshot.
+     *
+     * @param snapshot   Saved state from createSnapshot.
+     * @remarks PreActors are only recreated, as by setLocation, if the snapshot's location isn't current.
+     */
+    public restoreSnapshot(snapshot: AreaSpawnrSnapshot): void {
+        // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+        const current = this.mapCurrent && this.mapName === snapshot.mapName;
+
+        if (!current || this.locationEntered.name !== snapshot.locationName) {
+            this.setMap(snapshot.mapName, snapshot.locationName);
+        }
+
+        this.areaCurrent.boundaries = { ...snapshot.boundaries };
+
+        for (const groupName in this.preActors) {
+            if ({}.hasOwnProperty.call(this.preActors, groupName)) {
+                const spawned = new Set(snapshot.spawned[groupName]);
+
+                this.preActors[groupName].xInc.forEach((preActor, index) => {
+                    preActor.spawned = spawned.has(index);
+                });
+            }
+        }
+    }
+
     /**
      * Calls onSpawn on every PreActor touched by the given bounding box,
      * determined in order of the given direction. This is a simple wrapper
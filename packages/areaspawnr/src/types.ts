@@ -1,4 +1,4 @@
-import { MapsCreatr, PreActorLike, PreActorSettings } from "mapscreatr";
+import { Boundaries, MapsCreatr, PreActorLike, PreActorSettings } from "mapscreatr";
 import { MapScreenr } from "mapscreenr";
 
 /**
@@ -15,6 +15,33 @@ export type CommandAdder = (
     commands: any[]
 ) => void;
 
+/**
+ * Saved state of an AreaSpawnr, to be restored later.
+ *
+ * @remarks Snapshots are plain data, so they may be serialized.
+ */
+export interface AreaSpawnrSnapshot {
+    /**
+     * The current Area's boundaries.
+     */
+    boundaries: Boundaries;
+
+    /**
+     * The key of the most recently entered Location.
+     */
+    locationName: string;
+
+    /**
+     * The key by which the current Map is indexed.
+     */
+    mapName: string;
+
+    /**
+     * Indices of PreActors that had spawned, within each group's xInc ordering.
+     */
+    spawned: Record<string, number[]>;
+}
+
 /**
  * Settings to initialize a new AreaSpawnr.
  */
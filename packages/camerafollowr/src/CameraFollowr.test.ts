@@ -0,0 +1,163 @@
+import { expect } from "chai";
+
+import { stubActor, stubCameraFollowr } from "./fakes.test";
+
+describe("CameraFollowr", () => {
+    describe("update", () => {
+        it("doesn't scroll without targets", () => {
+            // Arrange
+            const { cameraFollower, scroll } = stubCameraFollowr();
+
+            // Act
+            cameraFollower.update();
+
+            // Assert
+            expect(scroll).to.have.callCount(0);
+        });
+
+        it("scrolls to center the screen on a target", () => {
+            // Arrange
+            const { cameraFollower, scroll } = stubCameraFollowr();
+
+            cameraFollower.follow(stubActor(100, 70));
+
+            // Act
+            cameraFollower.update();
+
+            // Assert
+            expect(scroll).to.have.been.calledWithExactly(25, 15);
+        });
+
+        it("scrolls to center the screen between multiple targets", () => {
+            // Arrange
+            const { cameraFollower, scroll } = stubCameraFollowr();
+
+            cameraFollower.follow(stubActor(100, 70), stubActor(140, 90));
+
+            // Act
+            cameraFollower.update();
+
+            // Assert
+            expect(scroll).to.have.been.calledWithExactly(45, 25);
+        });
+
+        it("doesn't scroll while a target is within the dead zone", () => {
+            // Arrange
+            const { cameraFollower, scroll } = stubCameraFollowr({
+                deadZone: { height: 40, width: 60 },
+            });
+
+            cameraFollower.follow(stubActor(100, 70));
+
+            // Act
+            cameraFollower.update();
+
+            // Assert
+            expect(scroll).to.have.been.calledWithExactly(0, 0);
+        });
+
+        it("scrolls a target to the edge of the dead zone", () => {
+            // Arrange
+            const { cameraFollower, scroll } = stubCameraFollowr({
+                deadZone: { height: 20, width: 40 },
+            });
+
+            cameraFollower.follow(stubActor(100, 70));
+
+            // Act
+            cameraFollower.update();
+
+            // Assert
+            expect(scroll).to.have.been.calledWithExactly(5, 5);
+        });
+
+        it("leads a moving target by its velocity", () => {
+            // Arrange
+            const { cameraFollower, scroll } = stubCameraFollowr({ lookAhead: 10 });
+
+            cameraFollower.follow({ ...stubActor(75, 55), xVelocity: 2, yVelocity: -1 });
+
+            // Act
+            cameraFollower.update();
+
+            // Assert
+            expect(scroll).to.have.been.calledWithExactly(20, -10);
+        });
+
+        it("scrolls part of the way to a target with smoothing", () => {
+            // Arrange
+            const { cameraFollower, scroll } = stubCameraFollowr({ smoothing: 0.75 });
+
+            cameraFollower.follow(stubActor(115, 95));
+
+            // Act
+            cameraFollower.update();
+
+            // Assert
+            expect(scroll).to.have.been.calledWithExactly(10, 10);
+        });
+
+        it("doesn't scroll past the boundaries", () => {
+            // Arrange
+            const { cameraFollower, scroll } = stubCameraFollowr({
+                getBoundaries: () => ({ bottom: 130, left: 0, right: 200, top: 0 }),
+            });
+
+            cameraFollower.follow(stubActor(195, 115));
+
+            // Act
+            cameraFollower.update();
+
+            // Assert
+            expect(scroll).to.have.been.calledWithExactly(40, 10);
+        });
+
+        it("aligns to the low edge of boundaries smaller than the screen", () => {
+            // Arrange
+            const { cameraFollower, scroll } = stubCameraFollowr({
+                getBoundaries: () => ({ bottom: 60, left: 0, right: 80, top: 0 }),
+            });
+
+            cameraFollower.follow(stubActor(195, 115));
+
+            // Act
+            cameraFollower.update();
+
+            // Assert
+            expect(scroll).to.have.been.calledWithExactly(0, 0);
+        });
+    });
+
+    describe("snap", () => {
+        it("scrolls all the way to a target despite smoothing", () => {
+            // Arrange
+            const { cameraFollower, scroll } = stubCameraFollowr({ smoothing: 0.75 });
+
+            cameraFollower.follow(stubActor(115, 95));
+
+            // Act
+            cameraFollower.snap();
+
+            // Assert
+            expect(scroll).to.have.been.calledWithExactly(40, 40);
+        });
+    });
+
+    describe("removeTarget", () => {
+        it("stops following a removed target", () => {
+            // Arrange
+            const { cameraFollower, scroll } = stubCameraFollowr();
+            const target = stubActor(100, 70);
+
+            cameraFollower.follow(target);
+            cameraFollower.addTarget(stubActor(75, 55));
+
+            // Act
+            cameraFollower.removeTarget(target);
+            cameraFollower.update();
+
+            // Assert
+            expect(scroll).to.have.been.calledWithExactly(0, 0);
+        });
+    });
+});
@@ -0,0 +1,203 @@
+import { MapScreenr } from "mapscreenr";
+
+import { Actor, Boundaries, CameraFollowrSettings, DeadZone, Scroll } from "./types";
+
+/**
+ * Finds how far a position is outside of a span.
+ *
+ * @param position   Position to check.
+ * @param start   Low edge of the span.
+ * @param end   High edge of the span.
+ * @returns How far below or above the span the position is, or 0 if it's within.
+ */
+const findDistanceOutside = (position: number, start: number, end: number): number => {
+    if (position < start) {
+        return position - start;
+    }
+
+    if (position > end) {
+        return position - end;
+    }
+
+    return 0;
+};
+
+/**
+ * Limits a scroll distance so a span stays within bounds.
+ *
+ * @param start   Current low edge of the span.
+ * @param size   Size of the span.
+ * @param distance   How far the span is trying to scroll.
+ * @param boundStart   Lowest the span's low edge may go.
+ * @param boundEnd   Highest the span's high edge may go.
+ * @returns How far the span may scroll.
+ * @remarks Spans larger than their bounds are aligned to the low edge.
+ */
+const clampScroll = (
+    start: number,
+    size: number,
+    distance: number,
+    boundStart: number,
+    boundEnd: number
+): number => {
+    const destination = Math.max(
+        boundStart,
+        Math.min(start + distance, Math.max(boundStart, boundEnd - size))
+    );
+
+    return destination - start;
+};
+
+/**
+ * Moves the screen to follow target Actors with dead zones, look-ahead, and smoothing.
+ */
+export class CameraFollowr {
+    /**
+     * Area around the screen's middle that targets may move in without scrolling.
+     */
+    private readonly deadZone: DeadZone;
+
+    /**
+     * Retrieves the map area the screen may not scroll past, if any.
+     */
+    private readonly getBoundaries: () => Boundaries | undefined;
+
+    /**
+     * How many ticks of target velocity to lead the screen by.
+     */
+    private readonly lookAhead: number;
+
+    /**
+     * MapScreenr whose position is moved.
+     */
+    private readonly mapScreenr: MapScreenr;
+
+    /**
+     * Scrolls the screen and anything on it by a distance.
+     */
+    private readonly scroll: Scroll;
+
+    /**
+     * Fraction of the remaining distance to leave unscrolled each update.
+     */
+    private readonly smoothing: number;
+
+    /**
+     * Actors the screen is following.
+     */
+    private targets: Actor[] = [];
+
+    /**
+     * Initializes a new instance of the CameraFollowr class.
+     *
+     * @param settings   Settings to be used for initialization.
+     */
+    public constructor(settings: CameraFollowrSettings) {
+        this.deadZone = settings.deadZone ?? { height: 0, width: 0 };
+        this.getBoundaries = settings.getBoundaries ?? (() => undefined);
+        this.lookAhead = settings.lookAhead ?? 0;
+        this.mapScreenr = settings.mapScreenr;
+        this.scroll = settings.scroll;
+        this.smoothing = settings.smoothing ?? 0;
+    }
+
+    /**
+     * @returns Actors the screen is following.
+     */
+    public getTargets(): readonly Actor[] {
+        return this.targets;
+    }
+
+    /**
+     * Replaces the Actors the screen is following.
+     *
+     * @param targets   Actors for the screen to follow.
+     */
+    public follow(...targets: Actor[]): void {
+        this.targets = targets;
+    }
+
+    /**
+     * Adds an Actor for the screen to follow.
+     *
+     * @param target   Actor for the screen to follow.
+     */
+    public addTarget(target: Actor): void {
+        if (!this.targets.includes(target)) {
+            this.targets.push(target);
+        }
+    }
+
+    /**
+     * Stops following an Actor.
+     *
+     * @param target   Actor for the screen to stop following.
+     */
+    public removeTarget(target: Actor): void {
+        const index = this.targets.indexOf(target);
+
+        if (index !== -1) {
+            this.targets.splice(index, 1);
+        }
+    }
+
+    /**
+     * Scrolls the screen part of the way toward its targets, as per smoothing.
+     */
+    public update(): void {
+        this.scrollTowardTargets(this.smoothing);
+    }
+
+    /**
+     * Scrolls the screen all the way to its targets, ignoring smoothing.
+     */
+    public snap(): void {
+        this.scrollTowardTargets(0);
+    }
+
+    /**
+     * Scrolls the screen toward its targets, then within any boundaries.
+     *
+     * @param smoothing   Fraction of the remaining distance to leave unscrolled.
+     */
+    private scrollTowardTargets(smoothing: number): void {
+        if (!this.targets.length) {
+            return;
+        }
+
+        let focusX = 0;
+        let focusY = 0;
+
+        for (const target of this.targets) {
+            focusX += (target.left + target.right) / 2 + (target.xVelocity ?? 0) * this.lookAhead;
+            focusY += (target.top + target.bottom) / 2 + (target.yVelocity ?? 0) * this.lookAhead;
+        }
+
+        focusX /= this.targets.length;
+        focusY /= this.targets.length;
+
+        const { height, width } = this.mapScreenr;
+        let dx =
+            findDistanceOutside(
+                focusX,
+                (width - this.deadZone.width) / 2,
+                (width + this.deadZone.width) / 2
+            ) *
+            (1 - smoothing);
+        let dy =
+            findDistanceOutside(
+                focusY,
+                (height - this.deadZone.height) / 2,
+                (height + this.deadZone.height) / 2
+            ) *
+            (1 - smoothing);
+
+        const boundaries = this.getBoundaries();
+        if (boundaries) {
+            dx = clampScroll(this.mapScreenr.left, width, dx, boundaries.left, boundaries.right);
+            dy = clampScroll(this.mapScreenr.top, height, dy, boundaries.top, boundaries.bottom);
+        }
+
+        this.scroll(dx, dy);
+    }
+}
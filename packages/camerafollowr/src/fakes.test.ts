@@ -0,0 +1,26 @@
+import { MapScreenr } from "mapscreenr";
+import * as sinon from "sinon";
+
+import { CameraFollowr } from "./CameraFollowr";
+import { Actor, CameraFollowrSettings } from "./types";
+
+export const stubHeight = 120;
+export const stubWidth = 160;
+
+export const stubActor = (left: number, top: number, size = 10): Actor => ({
+    bottom: top + size,
+    left,
+    right: left + size,
+    top,
+});
+
+export const stubCameraFollowr = (settings: Partial<CameraFollowrSettings> = {}) => {
+    const mapScreenr = new MapScreenr({ height: stubHeight, width: stubWidth });
+    const scroll = sinon.spy((dx: number, dy: number) => mapScreenr.shift(dx, dy));
+
+    mapScreenr.clearScreen();
+
+    const cameraFollower = new CameraFollowr({ mapScreenr, scroll, ...settings });
+
+    return { cameraFollower, mapScreenr, scroll };
+};
@@ -0,0 +1,2 @@
+export * from "./CameraFollowr";
+export * from "./types";
@@ -0,0 +1,121 @@
+import { MapScreenr } from "mapscreenr";
+
+/**
+ * Bounding box the camera may follow, in screen coordinates.
+ */
+export interface Actor {
+    /**
+     * Bottom boundary of the Actor.
+     */
+    bottom: number;
+
+    /**
+     * Left boundary of the Actor.
+     */
+    left: number;
+
+    /**
+     * Right boundary of the Actor.
+     */
+    right: number;
+
+    /**
+     * Top boundary of the Actor.
+     */
+    top: number;
+
+    /**
+     * How rapidly the Actor is moving horizontally, for look-ahead.
+     */
+    xVelocity?: number;
+
+    /**
+     * How rapidly the Actor is moving vertically, for look-ahead.
+     */
+    yVelocity?: number;
+}
+
+/**
+ * Bounding box, in map coordinates.
+ */
+export interface Boundaries {
+    /**
+     * Bottom boundary of the box.
+     */
+    bottom: number;
+
+    /**
+     * Left boundary of the box.
+     */
+    left: number;
+
+    /**
+     * Right boundary of the box.
+     */
+    right: number;
+
+    /**
+     * Top boundary of the box.
+     */
+    top: number;
+}
+
+/**
+ * Size of the area around the screen's middle that targets may move in without scrolling.
+ */
+export interface DeadZone {
+    /**
+     * How tall the dead zone is.
+     */
+    height: number;
+
+    /**
+     * How wide the dead zone is.
+     */
+    width: number;
+}
+
+/**
+ * Scrolls the screen by a distance.
+ *
+ * @param dx   How far to scroll horizontally.
+ * @param dy   How far to scroll vertically.
+ */
+export type Scroll = (dx: number, dy: number) => void;
+
+/**
+ * Settings to initialize a new CameraFollowr.
+ */
+export interface CameraFollowrSettings {
+    /**
+     * Area around the screen's middle that targets may move in without scrolling
+     * (by default, none).
+     */
+    deadZone?: DeadZone;
+
+    /**
+     * Retrieves the map area the screen may not scroll past, if any.
+     */
+    getBoundaries?: () => Boundaries | undefined;
+
+    /**
+     * How many ticks of target velocity to lead the screen by (by default, 0).
+     */
+    lookAhead?: number;
+
+    /**
+     * MapScreenr whose position is moved.
+     */
+    mapScreenr: MapScreenr;
+
+    /**
+     * Scrolls the screen and anything on it by a distance.
+     */
+    scroll: Scroll;
+
+    /**
+     * Fraction of the remaining distance to leave unscrolled each update, from 0 for
+     * none to just under 1 (by default, 0).
+     */
+    smoothing?: number;
+}
@@ -4,8 +4,10 @@
 import { ActorHittr } from "actorhittr";
 import { AreaSpawnr } from "areaspawnr";
 import { factory, member } from "autofieldr";
+import { CameraFollowr } from "camerafollowr";
+import { EventPublishr } from "eventpublishr";
 import { FpsAnalyzr } from "fpsanalyzr";
-import { FrameTickr } from "frametickr";
+import { FrameTickr, ManualFrameTiming } from "frametickr";
 import { GroupHoldr } from "groupholdr";
 import { InputWritr } from "inputwritr";
 import { ItemsHoldr } from "itemsholdr";
@@ -15,27 +17,33 @@ import { ObjectMakr } from "objectmakr";
 import { PixelDrawr } from "pixeldrawr";
 import { PixelRendr } from "pixelrendr";
 import { QuadsKeepr } from "quadskeepr";
+import { SceneStackr } from "scenestackr";
 import { TimeHandlr } from "timehandlr";
 
 import { createActorHitter } from "./creators/createActorHitter";
 import { createAreaSpawner } from "./creators/createAreaSpawner";
+import { createCameraFollower } from "./creators/createCameraFollower";
 import { createCanvas } from "./creators/createCanvas";
 import { createContainer } from "./creators/createContainer";
+import { createEventPublisher } from "./creators/createEventPublisher";
 import { createFpsAnalyzer } from "./creators/createFpsAnalyzer";
 import { createFrameTicker } from "./creators/createFrameTicker";
 import { createGroupHolder } from "./creators/createGroupHolder";
 import { createInputWriter } from "./creators/createInputWriter";
 import { createItemsHolder } from "./creators/createItemsHolder";
+import { createManualTiming } from "./creators/createManualTiming";
 import { createMapsCreator } from "./creators/createMapsCreator";
 import { createMapScreener } from "./creators/createMapScreener";
 import { createObjectMaker } from "./creators/createObjectMaker";
 import { createPixelDrawer } from "./creators/createPixelDrawer";
 import { createPixelRender } from "./creators/createPixelRender";
 import { createQuadsKeeper } from "./creators/createQuadsKeeper";
+import { createSceneStacker } from "./creators/createSceneStacker";
 import { createTimeHandler } from "./creators/createTimeHandler";
 import { Actors } from "./sections/Actors";
 import { Collisions } from "./sections/Collisions";
 import { Death } from "./sections/Death";
+import { Debugging } from "./sections/Debugging";
 import { Frames } from "./sections/Frames";
 import { Graphics } from "./sections/Graphics";
 import { Groups } from "./sections/Groups";
@@ -46,10 +54,17 @@ import { Maps } from "./sections/Maps";
 import { Objects } from "./sections/Objects";
 import { Physics } from "./sections/Physics";
 import { Quadrants } from "./sections/Quadrants";
+import { Regions } from "./sections/Regions";
+import { Reloading } from "./sections/Reloading";
+import { GameScene, Scenes } from "./sections/Scenes";
+import { Scripts } from "./sections/Scripts";
 import { Scrolling } from "./sections/Scrolling";
+import { GameSnapshot, Snapshots } from "./sections/Snapshots";
 import { Timing } from "./sections/Timing";
+import { Tweens } from "./sections/Tweens";
 import { Utilities } from "./sections/Utilities";
-import { Actor, EightBittrConstructorSettings, EightBittrSettings } from "./types";
+import { Actor, EightBittrConstructorSettings, EightBittrSettings, GameEvents } from "./types";
+import { validateSettings } from "./validateSettings";
 
 /**
  * Bare-bones, highly modular game engine for 2D 8-bit games.
@@ -66,6 +81,18 @@ export class EightBittr {
     @factory(createAreaSpawner)
     public readonly areaSpawner: AreaSpawnr;
 
+    /**
+     * Moves the screen to follow target Actors with dead zones, look-ahead, and smoothing.
+     */
+    @factory(createCameraFollower)
+    public readonly cameraFollower: CameraFollowr;
+
+    /**
+     * Publishes Actor lifecycle, quadrant, and area events to subscribers.
+     */
+    @factory(createEventPublisher)
+    public readonly eventPublisher: EventPublishr<GameEvents>;
+
     /**
      * Storage and analysis for framerate measurements.
      */
@@ -96,6 +123,12 @@ export class EightBittr {
     @factory(createItemsHolder)
     public readonly itemsHolder: ItemsHoldr;
 
+    /**
+     * Manual clock that drives frames when headless, unless a frameTicker timing was given.
+     */
+    @factory(createManualTiming)
+    public readonly manualTiming: ManualFrameTiming | undefined;
+
     /**
      * Storage container and lazy loader for EightBittr maps.
      */
@@ -132,6 +165,12 @@ export class EightBittr {
     @factory(createQuadsKeeper)
     public readonly quadsKeeper: QuadsKeepr<Actor>;
 
+    /**
+     * Stack of scenes with their own maintainers, input triggers, and drawing groups.
+     */
+    @factory(createSceneStacker)
+    public readonly sceneStacker: SceneStackr<GameScene>;
+
     /**
      * Actor collision detection automator that unifies GroupHoldr and QuadsKeepr.
      */
@@ -156,6 +195,12 @@ export class EightBittr {
     @member(Death)
     public readonly death: Death<this>;
 
+    /**
+     * Toggleable overlay of Actor, quadrant, and timing information for developers.
+     */
+    @member(Debugging)
+    public readonly debugging: Debugging<this>;
+
     /**
      * Logic to advance each frame of the game.
      */
@@ -216,12 +261,42 @@ export class EightBittr {
     @member(Quadrants)
     public readonly quadrants: Quadrants<this>;
 
+    /**
+     * Tracks Actors entering, staying in, and leaving the current Area's regions.
+     */
+    @member(Regions)
+    public readonly regions: Regions<this>;
+
+    /**
+     * Hot reloads maps, sprites, and Actor classes while editing content.
+     */
+    @member(Reloading)
+    public readonly reloading: Reloading<this>;
+
+    /**
+     * Switches game behavior between scenes in the scene stack.
+     */
+    @member(Scenes)
+    public readonly scenes: Scenes<this>;
+
+    /**
+     * Waits on the game's own clock and events, for async and generator game scripts.
+     */
+    @member(Scripts)
+    public readonly scripts: Scripts<this>;
+
     /**
      * Moves the screen and Actors in it.
      */
     @member(Scrolling)
     public readonly scrolling: Scrolling<this>;
 
+    /**
+     * Saves and restores snapshots of full game state.
+     */
+    @member(Snapshots)
+    public readonly snapshots: Snapshots<this>;
+
     /**
      * Adds and processes new Actors into the game.
      */
@@ -234,6 +309,12 @@ export class EightBittr {
     @member(Timing)
     public readonly timing: Timing<this>;
 
+    /**
+     * Animates numeric Actor properties over time.
+     */
+    @member(Tweens)
+    public readonly tweens: Tweens<this>;
+
     /**
      * Miscellaneous utility functions.
      */
@@ -266,7 +347,28 @@ export class EightBittr {
     public constructor(settings: EightBittrConstructorSettings) {
         this.settings = {
             components: {},
+            headless: false,
             ...settings,
         };
+
+        validateSettings(this);
+    }
+
+    /**
+     * Saves the full state of the game.
+     *
+     * @returns Saved state to later pass to restore, which may be serialized.
+     */
+    public snapshot(): GameSnapshot {
+        return this.snapshots.create();
+    }
+
+    /**
+     * Restores the full state of the game from a snapshot.
+     *
+     * @param snapshot   Saved state from snapshot.
+     */
+    public restore(snapshot: GameSnapshot): void {
+        this.snapshots.restore(snapshot);
     }
 }
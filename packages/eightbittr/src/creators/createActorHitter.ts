@@ -7,5 +7,8 @@ export const createActorHitter = (game: EightBittr) =>
         globalCheckGenerator: () => game.collisions.generateCanActorCollide(),
         hitCallbackGenerators: game.collisions.hitCallbackGenerators,
         hitCheckGenerators: game.collisions.hitCheckGenerators,
+        onHitEndGenerators: game.collisions.onHitEndGenerators,
+        onHitStartGenerators: game.collisions.onHitStartGenerators,
+        onHitStayGenerators: game.collisions.onHitStayGenerators,
         ...game.settings.components.actorHitter,
     });
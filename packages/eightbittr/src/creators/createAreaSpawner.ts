@@ -1,13 +1,27 @@
 import { AreaSpawnr } from "areaspawnr";
 
 import { EightBittr } from "../EightBittr";
+import { Actor } from "../types";
 
 export const createAreaSpawner = (game: EightBittr): AreaSpawnr =>
     new AreaSpawnr({
         afterAdd: game.maps.addAfter,
         mapScreenr: game.mapScreener,
         mapsCreatr: game.mapsCreator,
-        onSpawn: game.maps.addPreActor,
+        onSpawn: (preActor) => {
+            const actor = preActor.actor as Actor;
+
+            // Unspawned PreActors keep their Actors in the game unless the game removes them
+            if (!actor.placed || actor.removed) {
+                game.maps.addPreActor?.(preActor);
+            }
+
+            game.eventPublisher.publish("areaSpawn", { preActor });
+        },
+        onUnspawn: (preActor) => {
+            game.eventPublisher.publish("areaUnspawn", { preActor });
+            game.maps.removePreActor?.(preActor);
+        },
         screenAttributes: game.maps.screenAttributes,
         ...game.settings.components.areaSpawner,
     });
@@ -0,0 +1,12 @@
+import { CameraFollowr } from "camerafollowr";
+
+import { EightBittr } from "../EightBittr";
+
+export const createCameraFollower = (game: EightBittr) =>
+    new CameraFollowr({
+        // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+        getBoundaries: () => game.areaSpawner.getArea()?.boundaries,
+        mapScreenr: game.mapScreener,
+        scroll: (dx: number, dy: number) => game.scrolling.scrollWindow(dx, dy),
+        ...game.settings.components.cameraFollower,
+    });
@@ -1,4 +1,7 @@
 import { EightBittr } from "../EightBittr";
+import { createHeadlessCanvas } from "../headless";
 
 export const createCanvas = (game: EightBittr) =>
-    game.utilities.createCanvas(game.settings.width, game.settings.height);
+    game.settings.headless
+        ? createHeadlessCanvas(game.settings.width, game.settings.height)
+        : game.utilities.createCanvas(game.settings.width, game.settings.height);
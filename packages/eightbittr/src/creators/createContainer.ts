@@ -1,7 +1,8 @@
 import { EightBittr } from "../EightBittr";
+import { createHeadlessElement } from "../headless";
 
-export const createContainer = (game: EightBittr) =>
-    game.utilities.createElement<HTMLDivElement>("div", {
+export const createContainer = (game: EightBittr) => {
+    const settings = {
         children: [game.background, game.foreground],
         className: "EightBitter",
         style: {
@@ -9,4 +10,9 @@ export const createContainer = (game: EightBittr) =>
             position: "relative",
             width: `${game.settings.width}px`,
         },
-    });
+    };
+
+    return game.settings.headless
+        ? createHeadlessElement<HTMLDivElement>(settings)
+        : game.utilities.createElement<HTMLDivElement>("div", settings);
+};
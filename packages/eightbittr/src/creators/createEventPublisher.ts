@@ -0,0 +1,5 @@
+import { EventPublishr } from "eventpublishr";
+
+import { GameEvents } from "../types";
+
+export const createEventPublisher = () => new EventPublishr<GameEvents>();
@@ -7,12 +7,28 @@ export const createFrameTicker = (game: EightBittr) =>
         events: game.frames.events,
         frame: (adjustedTimestamp) => {
             game.fpsAnalyzer.tick(adjustedTimestamp);
+
+            if (game.frames.fixedTimestep) {
+                game.frames.savePositions();
+            }
+
             game.frames.advance();
             game.frames.maintain();
+            game.frames.followCamera();
             game.frames.setQuadrants();
+            game.frames.updateRegions();
             game.frames.runCollisions();
-            game.frames.updateCanvas();
+
+            if (!game.frames.fixedTimestep) {
+                game.frames.updateCanvas();
+            }
+
+            game.frames.releaseRemoved();
         },
         interval: game.frames.interval,
+        render: game.frames.fixedTimestep
+            ? (interpolation) => game.frames.updateCanvas(interpolation)
+            : undefined,
+        timing: game.manualTiming,
         ...game.settings.components.frameTicker,
     });
@@ -6,6 +6,7 @@ export const createInputWriter = (game: EightBittr) =>
     new InputWritr({
         aliases: game.inputs.aliases,
         canTrigger: game.inputs.canInputsTrigger,
+        getTimestamp: () => game.timeHandler.getTime(),
         triggers: game.inputs.triggers,
         ...game.settings.components.inputWriter,
     });
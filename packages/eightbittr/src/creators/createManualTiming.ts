@@ -0,0 +1,8 @@
+import { createManualFrameTiming } from "frametickr";
+
+import { EightBittr } from "../EightBittr";
+
+export const createManualTiming = (game: EightBittr) =>
+    game.settings.headless && !game.settings.components.frameTicker?.timing
+        ? createManualFrameTiming()
+        : undefined;
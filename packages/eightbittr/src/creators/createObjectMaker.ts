@@ -7,6 +7,7 @@ export const createObjectMaker = (game: EightBittr) =>
         indexMap: game.objects.indexMap,
         inheritance: game.objects.inheritance,
         onMake: game.objects.onMake,
+        pools: game.objects.pools,
         properties: game.objects.properties,
         ...game.settings.components.objectMaker,
     });
@@ -11,9 +11,11 @@ export const createPixelDrawer = (game: EightBittr) =>
             background: game.utilities.getContext(game.background, false),
             foreground: game.utilities.getContext(game.foreground, true),
         },
+        framerateSkip: game.settings.headless ? Infinity : undefined,
         generateObjectKey: (actor: Actor) => game.graphics.generateActorKey(actor),
         pixelRender: game.pixelRender,
         spriteCacheCutoff: game.graphics.spriteCacheCutoff,
+        viewports: game.graphics.viewports,
         actorArrays: game.groups.groupNames.map((groupName) =>
             game.groupHolder.getGroup(groupName)
         ),
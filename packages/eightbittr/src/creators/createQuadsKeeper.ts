@@ -1,4 +1,4 @@
-import { QuadsKeepr } from "quadskeepr";
+import { QuadsKeepr, SpatialHash } from "quadskeepr";
 
 import { EightBittr } from "../EightBittr";
 import { Actor } from "../types";
@@ -8,15 +8,31 @@ export const createQuadsKeeper = (game: EightBittr) => {
     const numRows = game.quadrants.numCols ?? 2;
     const quadrantHeight = game.quadrants.quadrantHeight ?? game.settings.height / numCols;
     const quadrantWidth = game.quadrants.quadrantWidth ?? game.settings.width / numRows;
+    const checkVelocity = game.settings.components.actorHitter?.swept;
 
     return new QuadsKeepr<Actor>({
+        checkVelocity,
         groupNames: game.quadrants.activeGroupNames,
         numCols,
         numRows,
-        onAdd: game.maps.onAreaSpawn.bind(game.maps),
-        onRemove: game.maps.onAreaUnspawn.bind(game.maps),
+        onAdd: (direction, top, right, bottom, left) => {
+            game.maps.onAreaSpawn(direction, top, right, bottom, left);
+            game.eventPublisher.publish("quadrantEnter", { bottom, direction, left, right, top });
+        },
+        onRemove: (direction, top, right, bottom, left) => {
+            game.maps.onAreaUnspawn(direction, top, right, bottom, left);
+            game.eventPublisher.publish("quadrantLeave", { bottom, direction, left, right, top });
+        },
         quadrantHeight,
         quadrantWidth,
+        spatialIndex: game.quadrants.spatialHash
+            ? new SpatialHash<Actor>({
+                  cellHeight: quadrantHeight,
+                  cellWidth: quadrantWidth,
+                  checkVelocity,
+                  groupNames: game.quadrants.activeGroupNames,
+              })
+            : undefined,
         startLeft: -quadrantWidth,
         startTop: -quadrantHeight,
         ...game.settings.components.quadsKeeper,
@@ -0,0 +1,13 @@
+import { SceneStackr } from "scenestackr";
+
+import { EightBittr } from "../EightBittr";
+import { GameScene } from "../sections/Scenes";
+
+export const createSceneStacker = (game: EightBittr) =>
+    new SceneStackr<GameScene>({
+        events: {
+            onEnter: (scene) => game.scenes.enter(scene),
+            onExit: (scene) => game.scenes.exit(scene),
+        },
+        ...game.settings.components.sceneStacker,
+    });
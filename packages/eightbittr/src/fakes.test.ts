@@ -1,4 +1,15 @@
+import { member } from "autofieldr";
+import { createManualFrameTiming } from "frametickr";
+import { Location, PreActorLike } from "mapscreatr";
+
 import { EightBittr } from "./EightBittr";
+import { Frames } from "./sections/Frames";
+import { Groups } from "./sections/Groups";
+import { Inputs } from "./sections/Inputs";
+import { ActorMaintainer, Maintenance } from "./sections/Maintenance";
+import { Maps } from "./sections/Maps";
+import { Objects } from "./sections/Objects";
+import { Quadrants } from "./sections/Quadrants";
 import { Actor } from "./types";
 
 export const stubHeight = 480;
@@ -33,3 +44,225 @@ export const stubActor = (): Actor => ({
     xVelocity: 0,
     yVelocity: 0,
 });
+
+export const stubMaps = {
+    Stub: {
+        areas: {
+            Main: {
+                creation: [
+                    { actor: "Block", x: 0, y: 0 },
+                    { actor: "Block", x: 32, y: 0 },
+                ],
+            },
+        },
+        locationDefault: "Start",
+        locations: {
+            Start: { area: "Main" },
+        },
+        name: "Stub",
+    },
+    Regions: {
+        areas: {
+            Main: {
+                creation: [],
+                regions: [{ height: 32, left: 64, name: "Zone", top: 0, width: 32 }],
+            },
+        },
+        locationDefault: "Start",
+        locations: {
+            Start: { area: "Main" },
+        },
+        name: "Regions",
+    },
+    Wide: {
+        areas: {
+            Main: {
+                creation: [
+                    { actor: "Block", x: 0, y: 0 },
+                    { actor: "Block", x: 1024, y: 0 },
+                ],
+            },
+        },
+        locationDefault: "Start",
+        locations: {
+            Start: { area: "Main" },
+        },
+        name: "Wide",
+    },
+    Tiles: {
+        areas: {
+            Main: {
+                creation: [],
+                tiles: {
+                    rows: ["....#", "....#", "#####"],
+                    solid: "#",
+                    tileHeight: 16,
+                    tileWidth: 16,
+                },
+            },
+        },
+        locationDefault: "Start",
+        locations: {
+            Start: { area: "Main" },
+        },
+        name: "Tiles",
+    },
+};
+
+class StubGroups<Game extends EightBittr> extends Groups<Game> {
+    public readonly groupNames = ["Solid"];
+}
+
+class StubInputs<Game extends EightBittr> extends Inputs<Game> {
+    public readonly triggers = {
+        onkeydown: {
+            mark: () => {
+                this.game.itemsHolder.setItem("marked", this.game.timeHandler.getTime());
+            },
+        },
+    };
+}
+
+class StubMaintenance<Game extends EightBittr> extends Maintenance<Game> {
+    public readonly maintainers: [string, ActorMaintainer][] = [
+        [
+            "Solid",
+            (actor: Actor) => {
+                this.game.physics.updatePosition(actor);
+                return false;
+            },
+        ],
+    ];
+}
+
+class StubMaps<Game extends EightBittr> extends Maps<Game> {
+    public readonly addPreActor = (preActor: PreActorLike) => {
+        this.game.actors.add(
+            preActor.actor as Actor,
+            preActor.left - this.game.mapScreener.left,
+            preActor.top - this.game.mapScreener.top
+        );
+    };
+
+    public readonly maps = stubMaps;
+
+    public setLocation(name: string): Location {
+        const location = super.setLocation(name);
+
+        this.onAreaSpawn("xInc", 0, this.game.mapScreener.width, this.game.mapScreener.height, 0);
+
+        return location;
+    }
+}
+
+class StubObjects<Game extends EightBittr> extends Objects<Game> {
+    public readonly inheritance = {
+        Actor: {
+            Block: {},
+        },
+        Area: {},
+        Location: {},
+        Map: {},
+    };
+
+    public readonly onMake = "onMake";
+
+    public readonly properties = {
+        Actor: {
+            onMake: this.game.actors.process.bind(this.game.actors),
+        },
+        Block: {
+            groupType: "Solid",
+            height: 16,
+            width: 16,
+            xVelocity: 1,
+            yVelocity: 0,
+        },
+    };
+}
+
+class StubQuadrants<Game extends EightBittr> extends Quadrants<Game> {
+    public readonly activeGroupNames = ["Solid"];
+}
+
+export class StubHeadlessGame extends EightBittr {
+    @member(StubInputs)
+    public readonly inputs: StubInputs<this>;
+
+    @member(StubGroups)
+    public readonly groups: StubGroups<this>;
+
+    @member(StubMaintenance)
+    public readonly maintenance: StubMaintenance<this>;
+
+    @member(StubMaps)
+    public readonly maps: StubMaps<this>;
+
+    @member(StubObjects)
+    public readonly objects: StubObjects<this>;
+
+    @member(StubQuadrants)
+    public readonly quadrants: StubQuadrants<this>;
+}
+
+export const stubInterval = 10;
+
+export const stubHeadlessGame = () => {
+    const timing = createManualFrameTiming();
+    const game = new StubHeadlessGame({
+        components: {
+            frameTicker: { interval: stubInterval, timing },
+        },
+        headless: true,
+        height: stubHeight,
+        width: stubWidth,
+    });
+
+    return { game, timing };
+};
+
+class StubSpatialHashQuadrants<Game extends EightBittr> extends StubQuadrants<Game> {
+    public readonly spatialHash = true;
+}
+
+export class StubSpatialHashGame extends StubHeadlessGame {
+    @member(StubSpatialHashQuadrants)
+    public readonly quadrants: StubSpatialHashQuadrants<this>;
+}
+
+export const stubSpatialHashGame = () => {
+    const timing = createManualFrameTiming();
+    const game = new StubSpatialHashGame({
+        components: {
+            frameTicker: { interval: stubInterval, timing },
+        },
+        headless: true,
+        height: stubHeight,
+        width: stubWidth,
+    });
+
+    return { game, timing };
+};
+
+class StubFixedTimestepFrames<Game extends EightBittr> extends Frames<Game> {
+    public readonly fixedTimestep = true;
+}
+
+export class StubFixedTimestepGame extends StubHeadlessGame {
+    @member(StubFixedTimestepFrames)
+    public readonly frames: StubFixedTimestepFrames<this>;
+}
+
+export const stubFixedTimestepGame = () => {
+    const timing = createManualFrameTiming();
+    const game = new StubFixedTimestepGame({
+        components: {
+            frameTicker: { interval: stubInterval, timing },
+        },
+        headless: true,
+        height: stubHeight,
+        width: stubWidth,
+    });
+
+    return { game, timing };
+};
@@ -0,0 +1,129 @@
+import { expect } from "chai";
+
+import {
+    StubHeadlessGame,
+    stubHeadlessGame,
+    stubHeight,
+    stubInterval,
+    stubWidth,
+} from "./fakes.test";
+import { createHeadlessCanvas, createHeadlessElement } from "./headless";
+import { Actor } from "./types";
+
+describe("headless", () => {
+    describe("createHeadlessCanvas", () => {
+        it("keeps the given size", () => {
+            // Act
+            const canvas = createHeadlessCanvas(7, 14);
+
+            // Assert
+            expect(canvas).to.include({ height: 14, width: 7 });
+        });
+
+        it("provides a context that ignores drawing calls", () => {
+            // Arrange
+            // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+            const context = createHeadlessCanvas(7, 14).getContext("2d")!;
+
+            // Act
+            const action = () => context.fillRect(0, 0, 7, 14);
+
+            // Assert
+            expect(action).to.not.throw();
+        });
+    });
+
+    describe("createHeadlessElement", () => {
+        it("includes the given members", () => {
+            // Arrange
+            const children: HTMLElement[] = [];
+
+            // Act
+            const element = createHeadlessElement({ children });
+
+            // Assert
+            expect(element.children).to.be.equal(children);
+        });
+    });
+
+    describe("EightBittr", () => {
+        it("creates canvases without a DOM", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            // Act
+            const { foreground } = game;
+
+            // Assert
+            expect(foreground).to.include({
+                height: game.settings.height,
+                width: game.settings.width,
+            });
+        });
+
+        it("sets a map without a DOM", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            // Act
+            game.maps.setMap("Stub");
+
+            // Assert
+            expect(game.groupHolder.getGroup("Solid")).to.have.length(2);
+        });
+
+        it("advances frames on a manual clock", () => {
+            // Arrange
+            const { game, timing } = stubHeadlessGame();
+
+            game.maps.setMap("Stub");
+            game.frameTicker.play();
+
+            const [actor]: Actor[] = game.groupHolder.getGroup("Solid");
+
+            // Act
+            for (let i = 0; i < 3; i += 1) {
+                timing.tick(stubInterval);
+            }
+
+            // Assert
+            expect(actor.left).to.be.equal(4);
+        });
+
+        it("advances frames on its own manual clock when not given timing", () => {
+            // Arrange
+            const game = new StubHeadlessGame({
+                components: {
+                    frameTicker: { interval: stubInterval },
+                },
+                headless: true,
+                height: stubHeight,
+                width: stubWidth,
+            });
+
+            game.maps.setMap("Stub");
+            game.frameTicker.play();
+
+            const [actor]: Actor[] = game.groupHolder.getGroup("Solid");
+
+            // Act
+            for (let i = 0; i < 3; i += 1) {
+                game.manualTiming?.tick(stubInterval);
+            }
+
+            // Assert
+            expect(actor.left).to.be.equal(4);
+        });
+
+        it("doesn't create a manual clock when given timing", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            // Act
+            const { manualTiming } = game;
+
+            // Assert
+            expect(manualTiming).to.be.equal(undefined);
+        });
+    });
+});
@@ -0,0 +1,51 @@
+/**
+ * Does nothing, for stand-in members that would otherwise touch the DOM.
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-function
+const noop = () => {};
+
+/**
+ * Creates a no-op stand-in for a DOM object.
+ *
+ * @template T   Type of the DOM object being stood in for.
+ * @param members   Initial members of the stand-in.
+ * @returns An object that stores any members set on it and treats all others as no-op methods.
+ */
+const createStandIn = <T>(members: Record<string | symbol, unknown>): T =>
+    new Proxy(members, {
+        get: (target, key) => (key in target ? target[key] : noop),
+    }) as unknown as T;
+
+/**
+ * Creates a no-op stand-in for a <canvas> element, for running without a DOM.
+ *
+ * @param width   How wide the canvas should be.
+ * @param height   How tall the canvas should be.
+ * @returns A canvas stand-in of the given width and height.
+ */
+export const createHeadlessCanvas = (width: number, height: number): HTMLCanvasElement => {
+    const context = createStandIn<CanvasRenderingContext2D>({});
+
+    return createStandIn<HTMLCanvasElement>({
+        getContext: () => context,
+        height,
+        style: {},
+        toDataURL: () => "",
+        width,
+    });
+};
+
+/**
+ * Creates a no-op stand-in for an HTML element, for running without a DOM.
+ *
+ * @template TElement   Type of the element being stood in for.
+ * @param members   Initial members of the element, such as children and style.
+ * @returns An element stand-in with the given members.
+ */
+export const createHeadlessElement = <TElement extends HTMLElement = HTMLElement>(
+    members: Record<string, unknown> = {}
+): TElement =>
+    createStandIn<TElement>({
+        style: {},
+        ...members,
+    });
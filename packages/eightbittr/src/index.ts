@@ -1,6 +1,8 @@
 export * from "./EightBittr";
+export * from "./headless";
 export * from "./sections/Collisions";
 export * from "./sections/Death";
+export * from "./sections/Debugging";
 export * from "./sections/Frames";
 export * from "./sections/Graphics";
 export * from "./sections/Groups";
@@ -11,9 +13,15 @@ export * from "./sections/Maps";
 export * from "./sections/Objects";
 export * from "./sections/Physics";
 export * from "./sections/Quadrants";
+export * from "./sections/Regions";
+export * from "./sections/Reloading";
+export * from "./sections/Scenes";
+export * from "./sections/Scripts";
 export * from "./sections/Scrolling";
 export * from "./sections/Section";
+export * from "./sections/Snapshots";
 export * from "./sections/Actors";
 export * from "./sections/Timing";
+export * from "./sections/Tweens";
 export * from "./sections/Utilities";
 export * from "./types";
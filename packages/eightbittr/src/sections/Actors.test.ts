@@ -0,0 +1,150 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+
+import { stubHeadlessGame } from "../fakes.test";
+
+describe("Actors", () => {
+    describe("add", () => {
+        it("publishes an actorMade event for a newly made Actor", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const listener = sinon.spy();
+
+            game.eventPublisher.subscribe("actorMade", listener);
+
+            // Act
+            const actor = game.actors.add("Block");
+
+            // Assert
+            expect(listener).to.have.been.calledOnceWithExactly({ actor });
+        });
+
+        it("publishes an actorAdded event", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const listener = sinon.spy();
+
+            game.eventPublisher.subscribe("actorAdded", listener);
+
+            // Act
+            const actor = game.actors.add("Block");
+
+            // Assert
+            expect(listener).to.have.been.calledOnceWithExactly({ actor });
+        });
+
+        it("reuses a killed Actor of a pooled class", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.objectMaker.setPoolSize("Block", 1);
+
+            const killed = game.actors.add("Block");
+
+            game.death.kill(killed);
+            game.death.releaseRemoved();
+
+            // Act
+            const actor = game.actors.add("Block");
+
+            // Assert
+            expect(actor).to.be.equal(killed);
+            expect(actor.removed).to.be.equal(undefined);
+            expect(game.groupHolder.getGroup("Solid")).to.include(actor);
+        });
+
+        it("publishes an actorMade event for a reused Actor", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const listener = sinon.spy();
+
+            game.objectMaker.setPoolSize("Block", 1);
+            game.death.kill(game.actors.add("Block"));
+            game.death.releaseRemoved();
+            game.eventPublisher.subscribe("actorMade", listener);
+
+            // Act
+            const actor = game.actors.add("Block");
+
+            // Assert
+            expect(listener).to.have.been.calledOnceWithExactly({ actor });
+        });
+    });
+
+    describe("attach", () => {
+        it("sets the child's parent", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const parent = game.actors.add("Block");
+            const child = game.actors.add("Block");
+
+            // Act
+            game.actors.attach(parent, child);
+
+            // Assert
+            expect(child.parent).to.be.equal(parent);
+        });
+
+        it("adds the child to the parent's children", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const parent = game.actors.add("Block");
+            const child = game.actors.add("Block");
+
+            // Act
+            game.actors.attach(parent, child);
+
+            // Assert
+            expect(parent.children).to.be.deep.equal([child]);
+        });
+
+        it("detaches the child from a previous parent", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const previous = game.actors.add("Block");
+            const parent = game.actors.add("Block");
+            const child = game.actors.add("Block");
+
+            game.actors.attach(previous, child);
+
+            // Act
+            game.actors.attach(parent, child);
+
+            // Assert
+            expect(previous.children).to.be.deep.equal([]);
+        });
+
+        it("throws when attaching an Actor to its descendant", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const parent = game.actors.add("Block");
+            const child = game.actors.add("Block");
+
+            game.actors.attach(parent, child);
+
+            // Act
+            const action = () => game.actors.attach(child, parent);
+
+            // Assert
+            expect(action).to.throw("Cannot attach 'Block' to itself or its descendants.");
+        });
+    });
+
+    describe("detach", () => {
+        it("removes the child from its parent", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const parent = game.actors.add("Block");
+            const child = game.actors.add("Block");
+
+            game.actors.attach(parent, child);
+
+            // Act
+            game.actors.detach(child);
+
+            // Assert
+            expect(child.parent).to.be.equal(undefined);
+            expect(parent.children).to.be.deep.equal([]);
+        });
+    });
+});
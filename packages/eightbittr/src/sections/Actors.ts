@@ -37,10 +37,50 @@ export class Actors<Game extends EightBittr> extends Section<Game> {
 
         actor.placed = true;
         actor.onActorAdded?.call(this, actor);
+        this.game.eventPublisher.publish("actorAdded", { actor });
 
         return actor;
     }
 
+    /**
+     * Attaches a child Actor to a parent, so the child moves, dies, and is drawn with it.
+     *
+     * @param parent   The Actor to attach to.
+     * @param child   The Actor being attached, which is detached from any previous parent.
+     * @remarks The child keeps its current offset from the parent.
+     */
+    public attach(parent: Actor, child: Actor): void {
+        for (let ancestor: Actor | undefined = parent; ancestor; ancestor = ancestor.parent) {
+            if (ancestor === child) {
+                throw new Error(`Cannot attach '${child.title}' to itself or its descendants.`);
+            }
+        }
+
+        this.detach(child);
+
+        child.parent = parent;
+        (parent.children ??= []).push(child);
+    }
+
+    /**
+     * Detaches a child Actor from its parent, if it has one.
+     *
+     * @param child   The Actor being detached.
+     */
+    public detach(child: Actor): void {
+        const siblings = child.parent?.children;
+
+        if (siblings) {
+            const index = siblings.indexOf(child);
+
+            if (index !== -1) {
+                siblings.splice(index, 1);
+            }
+        }
+
+        child.parent = undefined;
+    }
+
     /**
      * Processes an Actor so that it is ready to be placed in gameplay.
      *
@@ -76,6 +116,8 @@ export class Actors<Game extends EightBittr> extends Section<Game> {
         // Initial class / sprite setting
         this.game.physics.setSize(actor, actor.width, actor.height);
         this.game.graphics.classes.setClassInitial(actor, actor.name ?? actor.title);
+
+        this.game.eventPublisher.publish("actorMade", { actor });
     }
 
     /**
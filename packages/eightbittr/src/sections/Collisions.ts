@@ -27,4 +27,19 @@ export class Collisions<Game extends EightBittr> extends Section<Game> {
      * Function generators for reacting to two Actors colliding.
      */
     public readonly hitCallbackGenerators?: ActorFunctionGeneratorContainerGroup<HitCallback>;
+
+    /**
+     * Function generators for reacting to two Actors starting to collide.
+     */
+    public readonly onHitStartGenerators?: ActorFunctionGeneratorContainerGroup<HitCallback>;
+
+    /**
+     * Function generators for reacting to two Actors still colliding since the last tick.
+     */
+    public readonly onHitStayGenerators?: ActorFunctionGeneratorContainerGroup<HitCallback>;
+
+    /**
+     * Function generators for reacting to two Actors no longer colliding.
+     */
+    public readonly onHitEndGenerators?: ActorFunctionGeneratorContainerGroup<HitCallback>;
 }
@@ -0,0 +1,183 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+
+import { stubHeadlessGame, stubInterval, stubSpatialHashGame } from "../fakes.test";
+import { Actor } from "../types";
+
+describe("Death", () => {
+    describe("kill", () => {
+        it("removes the Actor from its quadrants", (): void => {
+            // Arrange
+            const { game } = stubSpatialHashGame();
+            const actor = game.actors.add("Block", 0, 0);
+
+            game.frames.setQuadrants();
+
+            const [quadrant] = actor.quadrants;
+
+            // Act
+            game.death.kill(actor);
+
+            // Assert
+            expect(quadrant.actors.Solid.slice(0, quadrant.numActors.Solid)).to.not.include(
+                actor
+            );
+        });
+
+        it("forgets the Actor's collision contacts", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const actor = game.actors.add("Block", 0, 0);
+            const removeActor = sinon.spy(game.actorHitter, "removeActor");
+
+            // Act
+            game.death.kill(actor);
+
+            // Assert
+            expect(removeActor).to.have.been.calledOnceWithExactly(actor);
+        });
+
+        it("publishes an actorKilled event", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const actor = game.actors.add("Block");
+            const listener = sinon.spy();
+
+            game.eventPublisher.subscribe("actorKilled", listener);
+
+            // Act
+            game.death.kill(actor);
+
+            // Assert
+            expect(listener).to.have.been.calledOnceWithExactly({ actor });
+        });
+
+        it("publishes an actorRemoved event", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const actor = game.actors.add("Block");
+            const listener = sinon.spy();
+
+            game.eventPublisher.subscribe("actorRemoved", listener);
+
+            // Act
+            game.death.kill(actor);
+
+            // Assert
+            expect(listener).to.have.been.calledOnceWithExactly({ actor });
+        });
+
+        it("calls the Actor's onDelete", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const actor = game.actors.add("Block");
+            const onDelete = sinon.spy();
+
+            actor.onDelete = onDelete;
+
+            // Act
+            game.death.kill(actor);
+
+            // Assert
+            expect(onDelete).to.have.been.calledOnceWithExactly(actor);
+        });
+
+        it("doesn't release an Actor of a pooled class before the end of the frame", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.objectMaker.setPoolSize("Block", 1);
+
+            const actor = game.actors.add("Block");
+
+            // Act
+            game.death.kill(actor);
+
+            // Assert
+            expect(game.objectMaker.getPoolStats("Block")).to.include({ available: 0 });
+        });
+
+        it("kills the Actor's children", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const parent = game.actors.add("Block");
+            const child = game.actors.add("Block");
+            const grandChild = game.actors.add("Block");
+
+            game.actors.attach(parent, child);
+            game.actors.attach(child, grandChild);
+
+            // Act
+            game.death.kill(parent);
+
+            // Assert
+            expect(game.groupHolder.getGroup("Solid")).to.be.deep.equal([]);
+            expect(grandChild.removed).to.be.equal(true);
+        });
+
+        it("detaches the Actor from its parent", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const parent = game.actors.add("Block");
+            const child = game.actors.add("Block");
+
+            game.actors.attach(parent, child);
+
+            // Act
+            game.death.kill(child);
+
+            // Assert
+            expect(parent.children).to.be.deep.equal([]);
+            expect(parent.removed).to.not.be.equal(true);
+        });
+    });
+
+    describe("releaseRemoved", () => {
+        it("releases a killed Actor of a pooled class for reuse", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.objectMaker.setPoolSize("Block", 1);
+            game.death.kill(game.actors.add("Block"));
+
+            // Act
+            game.death.releaseRemoved();
+
+            // Assert
+            expect(game.objectMaker.getPoolStats("Block")).to.include({ available: 1 });
+        });
+
+        it("releases an Actor deleted from its group for reuse", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.objectMaker.setPoolSize("Block", 1);
+
+            const actor = game.actors.add("Block");
+            const solids: Actor[] = game.groupHolder.getGroup("Solid");
+
+            game.utilities.arrayDeleteActor(actor, solids);
+
+            // Act
+            game.death.releaseRemoved();
+
+            // Assert
+            expect(game.objectMaker.getPoolStats("Block")).to.include({ available: 1 });
+        });
+
+        it("releases killed Actors at the end of a frame", (): void => {
+            // Arrange
+            const { game, timing } = stubHeadlessGame();
+
+            game.objectMaker.setPoolSize("Block", 1);
+            game.death.kill(game.actors.add("Block"));
+            game.frameTicker.play();
+
+            // Act
+            timing.tick(stubInterval);
+
+            // Assert
+            expect(game.objectMaker.getPoolStats("Block")).to.include({ available: 1 });
+        });
+    });
+});
@@ -6,11 +6,89 @@ import { Section } from "./Section";
  * Removes Actors from the game.
  */
 export class Death<Game extends EightBittr> extends Section<Game> {
+    /**
+     * Actors removed during the frame, to be released to their pools at its end.
+     */
+    private readonly removedActors: Actor[] = [];
+
     /**
      * Generically kills an Actor by removing it from the game.
+     *
+     * @remarks The Actor is detached from any parent and its children are killed after it.
      */
     public kill(actor: Actor): void {
-        actor.hidden = actor.removed = true;
         this.game.groupHolder.removeFromGroup(actor, actor.groupType);
+        this.removeActor(actor, true);
+
+        if (actor.children) {
+            for (const child of [...actor.children]) {
+                this.kill(child);
+            }
+        }
+    }
+
+    /**
+     * Removes an Actor already taken out of its group from the rest of the game.
+     * Both killed Actors and Actors deleted from their groups are removed this way.
+     *
+     * @param actor   An Actor taken out of its group.
+     * @param killed   Whether the Actor was killed, to publish an actorKilled event.
+     * @remarks Actors of pooled classes are released at the end of the frame, so
+     *          anything still acting on them during the frame doesn't see them reused.
+     */
+    public removeActor(actor: Actor, killed?: boolean): void {
+        this.clearActor(actor);
+
+        if (typeof actor.onDelete === "function") {
+            actor.onDelete(actor);
+        }
+
+        if (killed) {
+            this.game.eventPublisher.publish("actorKilled", { actor });
+        }
+
+        this.game.eventPublisher.publish("actorRemoved", { actor });
+
+        this.removedActors.push(actor);
+    }
+
+    /**
+     * Releases Actors removed during the frame to be reused by later adds, if they're pooled.
+     *
+     * @remarks Actors added back since being removed, such as by restoring a snapshot, aren't released.
+     */
+    public releaseRemoved(): void {
+        for (const actor of this.removedActors) {
+            if (actor.removed) {
+                this.game.objectMaker.release(actor);
+            }
+        }
+
+        this.removedActors.length = 0;
+    }
+
+    /**
+     * Removes an Actor from the game outside of gameplay, such as when reloading content.
+     *
+     * @param actor   An Actor to remove.
+     * @remarks Only actorRemoved is published, and the Actor isn't pooled for reuse.
+     *          Its children are left in the game, so any to be removed should be discarded too.
+     */
+    public discard(actor: Actor): void {
+        this.game.groupHolder.removeFromGroup(actor, actor.groupType);
+        this.clearActor(actor);
+        this.game.eventPublisher.publish("actorRemoved", { actor });
+    }
+
+    /**
+     * Marks an Actor as removed and takes it out of quadrants, collisions, and its parent.
+     *
+     * @param actor   An Actor being removed.
+     */
+    private clearActor(actor: Actor): void {
+        actor.hidden = actor.removed = true;
+        this.game.quadsKeeper.removeActor(actor);
+        this.game.actorHitter.removeActor(actor);
+        this.game.actors.detach(actor);
     }
 }
@@ -0,0 +1,235 @@
+import { member } from "autofieldr";
+import { expect } from "chai";
+import * as sinon from "sinon";
+
+import { StubHeadlessGame, stubHeadlessGame, stubHeight, stubWidth } from "../fakes.test";
+import { Debugging } from "./Debugging";
+
+const stubContext = () =>
+    ({
+        beginPath: sinon.spy(),
+        fillText: sinon.spy(),
+        lineTo: sinon.spy(),
+        moveTo: sinon.spy(),
+        restore: sinon.spy(),
+        save: sinon.spy(),
+        stroke: sinon.spy(),
+        strokeRect: sinon.spy(),
+    } as unknown as CanvasRenderingContext2D);
+
+class LoggedDebugging<Game extends StubHeadlessGame> extends Debugging<Game> {
+    public readonly logger = sinon.spy();
+}
+
+class LoggedGame extends StubHeadlessGame {
+    @member(LoggedDebugging)
+    public readonly debugging: LoggedDebugging<this>;
+}
+
+const stubLoggedGame = () =>
+    new LoggedGame({
+        headless: true,
+        height: stubHeight,
+        width: stubWidth,
+    });
+
+describe("Debugging", () => {
+    describe("toggle", () => {
+        it("enables the overlay when it was disabled", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            // Act
+            game.debugging.toggle();
+
+            // Assert
+            expect(game.debugging.getEnabled()).to.be.equal(true);
+        });
+
+        it("disables the overlay when it was enabled", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.debugging.setEnabled(true);
+
+            // Act
+            game.debugging.toggle();
+
+            // Assert
+            expect(game.debugging.getEnabled()).to.be.equal(false);
+        });
+    });
+
+    describe("drawOverlay", () => {
+        it("doesn't draw when disabled", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const getContext = sinon.spy(game.utilities, "getContext");
+
+            game.maps.setMap("Stub");
+
+            // Act
+            game.debugging.drawOverlay();
+
+            // Assert
+            expect(getContext).to.have.callCount(0);
+        });
+
+        it("draws bounding boxes and titles for drawn Actors when enabled", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const context = stubContext();
+
+            sinon.stub(game.utilities, "getContext").returns(context);
+            game.maps.setMap("Stub");
+            game.debugging.setEnabled(true);
+
+            // Act
+            game.debugging.drawOverlay();
+
+            // Assert
+            expect(context.strokeRect).to.have.callCount(2);
+            expect(context.fillText).to.have.been.calledWith("Block");
+        });
+
+        it("draws the count of pending events when enabled", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const context = stubContext();
+
+            sinon.stub(game.utilities, "getContext").returns(context);
+            game.maps.setMap("Stub");
+            game.debugging.setEnabled(true);
+            game.timeHandler.addEvent(() => true, 7);
+
+            // Act
+            game.debugging.drawOverlay();
+
+            // Assert
+            expect(context.fillText).to.have.been.calledWith("Events: 1");
+        });
+
+        it("draws collision statistics for each group pair when recorded", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const context = stubContext();
+
+            sinon.stub(game.utilities, "getContext").returns(context);
+            sinon.stub(game.actorHitter, "getStats").returns({
+                Solid: {
+                    Solid: { candidates: 4, checks: 3, hits: 1, time: 0.5 },
+                },
+            });
+            game.maps.setMap("Stub");
+            game.debugging.setEnabled(true);
+
+            // Act
+            game.debugging.drawOverlay();
+
+            // Assert
+            expect(context.fillText).to.have.been.calledWith(
+                "Solid/Solid: 3/4 checked, 1 hit, 0.50ms"
+            );
+        });
+    });
+
+    describe("findActorAt", () => {
+        it("returns the Actor at a position", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const actor = game.actors.add("Block", 100, 100);
+
+            // Act
+            const found = game.debugging.findActorAt(108, 108);
+
+            // Assert
+            expect(found).to.be.equal(actor);
+        });
+
+        it("returns undefined when no Actor is at a position", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.actors.add("Block", 100, 100);
+
+            // Act
+            const found = game.debugging.findActorAt(50, 50);
+
+            // Assert
+            expect(found).to.be.equal(undefined);
+        });
+
+        it("skips hidden Actors", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const actor = game.actors.add("Block", 100, 100);
+
+            actor.hidden = true;
+
+            // Act
+            const found = game.debugging.findActorAt(108, 108);
+
+            // Assert
+            expect(found).to.be.equal(undefined);
+        });
+    });
+
+    describe("getActorProperties", () => {
+        it("includes inherited properties", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const actor = game.actors.add("Block");
+
+            // Act
+            const properties = game.debugging.getActorProperties(actor);
+
+            // Assert
+            expect(properties).to.include({ height: 16, title: "Block", width: 16 });
+        });
+
+        it("skips methods", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const actor = game.actors.add("Block");
+
+            // Act
+            const properties = game.debugging.getActorProperties(actor);
+
+            // Assert
+            expect(properties).to.not.have.property("onMake");
+        });
+    });
+
+    describe("logActorAt", () => {
+        it("logs the title and properties of the Actor at a position", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const actor = game.actors.add("Block", 100, 100);
+            const log = sinon.stub(console, "log");
+
+            // Act
+            try {
+                game.debugging.logActorAt(108, 108);
+            } finally {
+                log.restore();
+            }
+
+            // Assert
+            expect(log).to.have.been.calledOnceWith("Block");
+            expect(log.firstCall.args[1]).to.include({ left: actor.left, top: actor.top });
+        });
+
+        it("logs with the section's logger when it's overridden", () => {
+            // Arrange
+            const game = stubLoggedGame();
+
+            game.actors.add("Block", 100, 100);
+
+            // Act
+            game.debugging.logActorAt(108, 108);
+
+            // Assert
+            expect(game.debugging.logger).to.have.been.calledOnceWith("Block");
+        });
+    });
+});
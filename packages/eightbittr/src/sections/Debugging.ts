@@ -0,0 +1,272 @@
+import { EightBittr } from "../EightBittr";
+import { Actor } from "../types";
+import { Section } from "./Section";
+
+/**
+ * Toggleable overlay of Actor, quadrant, and timing information for developers.
+ */
+export class Debugging<Game extends EightBittr> extends Section<Game> {
+    /**
+     * Color for Actors whose group isn't in groupColors.
+     */
+    public readonly defaultColor: string = "#ff00ff";
+
+    /**
+     * Font for Actor labels and statistics.
+     */
+    public readonly font: string = "10px monospace";
+
+    /**
+     * Colors for Actor bounding boxes and labels, keyed by group name.
+     */
+    public readonly groupColors: Record<string, string | undefined> = {};
+
+    /**
+     * Logs Actors clicked on while the overlay is on, to the console by default.
+     */
+    public readonly logger: (...data: unknown[]) => void = (...data) => {
+        console.log(...data);
+    };
+
+    /**
+     * Color for quadrant grid lines.
+     */
+    public readonly quadrantColor: string = "rgba(255, 255, 255, 0.35)";
+
+    /**
+     * Color for the statistics panel text.
+     */
+    public readonly statsColor: string = "#ffffff";
+
+    /**
+     * Whether the overlay is drawn and clicks log Actors.
+     */
+    private enabled = false;
+
+    /**
+     * @returns Whether the overlay is drawn and clicks log Actors.
+     */
+    public getEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /**
+     * Turns the overlay and logging Actors on click on or off.
+     *
+     * @param enabled   Whether the overlay should be drawn and clicks should log Actors.
+     */
+    public setEnabled(enabled: boolean) {
+        if (this.enabled === enabled) {
+            return;
+        }
+
+        this.enabled = enabled;
+
+        if (enabled) {
+            this.game.foreground.addEventListener("click", this.onClick);
+        } else {
+            this.game.foreground.removeEventListener("click", this.onClick);
+        }
+    }
+
+    /**
+     * Turns the overlay and logging Actors on click on if off, or off if on.
+     */
+    public toggle() {
+        this.setEnabled(!this.enabled);
+    }
+
+    /**
+     * Draws the overlay on top of the foreground canvas, if enabled.
+     */
+    public drawOverlay() {
+        if (!this.enabled) {
+            return;
+        }
+
+        const context = this.game.utilities.getContext(this.game.foreground, true);
+
+        context.save();
+        context.font = this.font;
+        context.lineWidth = 1;
+        context.textBaseline = "top";
+
+        this.drawQuadrants(context);
+        this.drawActors(context);
+        this.drawStats(context);
+
+        context.restore();
+    }
+
+    /**
+     * Finds the topmost drawn Actor at a position on the screen.
+     *
+     * @param x   Horizontal position, relative to the screen's left.
+     * @param y   Vertical position, relative to the screen's top.
+     * @returns The topmost Actor at the position, if any.
+     */
+    public findActorAt(x: number, y: number): Actor | undefined {
+        const { groupNames } = this.game.groups;
+
+        for (let i = groupNames.length - 1; i >= 0; i -= 1) {
+            const actors: Actor[] = this.game.groupHolder.getGroup(groupNames[i]);
+
+            for (let j = actors.length - 1; j >= 0; j -= 1) {
+                const actor = actors[j];
+
+                if (
+                    !actor.hidden &&
+                    x >= actor.left &&
+                    x <= actor.right &&
+                    y >= actor.top &&
+                    y <= actor.bottom
+                ) {
+                    return actor;
+                }
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Collects an Actor's own and inherited properties, skipping methods.
+     *
+     * @param actor   Any Actor.
+     * @returns The Actor's properties, keyed by name.
+     */
+    public getActorProperties(actor: Actor): Record<string, unknown> {
+        const properties: Record<string, unknown> = {};
+
+        for (const key in actor) {
+            const value: unknown = actor[key as keyof Actor];
+
+            if (typeof value !== "function") {
+                properties[key] = value;
+            }
+        }
+
+        return properties;
+    }
+
+    /**
+     * Logs the properties of the topmost Actor at a position on the screen, if any, with logger.
+     *
+     * @param x   Horizontal position, relative to the screen's left.
+     * @param y   Vertical position, relative to the screen's top.
+     */
+    public logActorAt(x: number, y: number) {
+        const actor = this.findActorAt(x, y);
+
+        if (actor) {
+            this.logger(actor.title, this.getActorProperties(actor));
+        }
+    }
+
+    /**
+     * Logs the Actor under a click on the foreground canvas.
+     *
+     * @param event   Click event on the foreground canvas.
+     */
+    private readonly onClick = (event: MouseEvent) => {
+        const { clientHeight, clientWidth, height, width } = this.game.foreground;
+
+        this.logActorAt(
+            (event.offsetX * width) / (clientWidth || width),
+            (event.offsetY * height) / (clientHeight || height)
+        );
+    };
+
+    /**
+     * Draws grid lines along each quadrant's edges.
+     *
+     * @param context   Foreground canvas context to draw on.
+     */
+    private drawQuadrants(context: CanvasRenderingContext2D) {
+        const { height, width } = this.game.foreground;
+
+        context.strokeStyle = this.quadrantColor;
+        context.beginPath();
+
+        for (const row of this.game.quadsKeeper.getQuadrantRows()) {
+            context.moveTo(0, row.top);
+            context.lineTo(width, row.top);
+        }
+
+        for (const col of this.game.quadsKeeper.getQuadrantCols()) {
+            context.moveTo(col.left, 0);
+            context.lineTo(col.left, height);
+        }
+
+        context.stroke();
+    }
+
+    /**
+     * Draws bounding boxes, titles, and velocities for each drawn Actor.
+     *
+     * @param context   Foreground canvas context to draw on.
+     */
+    private drawActors(context: CanvasRenderingContext2D) {
+        for (const groupName of this.game.groups.groupNames) {
+            const actors: Actor[] = this.game.groupHolder.getGroup(groupName);
+
+            context.fillStyle = context.strokeStyle =
+                this.groupColors[groupName] ?? this.defaultColor;
+
+            for (const actor of actors) {
+                if (actor.hidden) {
+                    continue;
+                }
+
+                context.strokeRect(actor.left, actor.top, actor.width, actor.height);
+                context.fillText(actor.title, actor.left, actor.bottom + 1);
+                context.fillText(
+                    `${actor.xVelocity.toFixed(1)}, ${actor.yVelocity.toFixed(1)}`,
+                    actor.left,
+                    actor.bottom + 11
+                );
+            }
+        }
+    }
+
+    /**
+     * Draws FPS, pending event, and any collision statistics in the top left corner.
+     *
+     * @param context   Foreground canvas context to draw on.
+     */
+    private drawStats(context: CanvasRenderingContext2D) {
+        const { highest, lowest } = this.game.fpsAnalyzer.getExtremes();
+        const lines = [
+            `FPS: ${this.game.fpsAnalyzer.getAverage().toFixed(1)}`,
+            `FPS range: ${lowest.toFixed(1)} - ${highest.toFixed(1)}`,
+            `Events: ${this.game.timeHandler.countEvents()}`,
+            ...this.getHitStatsLines(),
+        ];
+
+        context.fillStyle = this.statsColor;
+
+        for (let i = 0; i < lines.length; i += 1) {
+            context.fillText(lines[i], 2, 2 + i * 12);
+        }
+    }
+
+    /**
+     * @returns Lines of the last frame's collision statistics for each group pair, if recorded.
+     */
+    private getHitStatsLines(): string[] {
+        const lines: string[] = [];
+        const stats = this.game.actorHitter.getStats() ?? {};
+
+        for (const [groupName, groupStats] of Object.entries(stats)) {
+            for (const [otherGroupName, pairStats] of Object.entries(groupStats)) {
+                lines.push(
+                    `${groupName}/${otherGroupName}: ${pairStats.checks}/${
+                        pairStats.candidates
+                    } checked, ${pairStats.hits} hit, ${pairStats.time.toFixed(2)}ms`
+                );
+            }
+        }
+
+        return lines;
+    }
+}
@@ -0,0 +1,253 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+
+import {
+    stubFixedTimestepGame,
+    stubHeadlessGame,
+    stubHeight,
+    stubInterval,
+    stubSpatialHashGame,
+    stubWidth,
+} from "../fakes.test";
+
+describe("Frames", () => {
+    describe("advance", () => {
+        it("replays recorded inputs at the frames they were recorded in", (): void => {
+            // Arrange
+            const { game, timing } = stubHeadlessGame();
+
+            game.maps.setMap("Stub");
+            game.frameTicker.play();
+
+            const snapshot = game.snapshot();
+
+            game.inputWriter.startRecording();
+            timing.tick(stubInterval);
+            game.inputWriter.callEvent("onkeydown", "mark");
+            timing.tick(stubInterval);
+
+            const marked = game.itemsHolder.getItem("marked");
+            const records = game.inputWriter.stopRecording();
+
+            game.restore(snapshot);
+            game.inputWriter.startReplay(records);
+
+            // Act
+            timing.tick(stubInterval);
+            timing.tick(stubInterval);
+
+            // Assert
+            expect(game.itemsHolder.getItem("marked")).to.be.equal(marked);
+        });
+
+        it("integrates physics after firing scheduled events", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const event = sinon.spy();
+            const integrateGroups = sinon.spy(game.physics, "integrateGroups");
+
+            game.timeHandler.addEvent(event, 1);
+
+            // Act
+            game.frames.advance();
+
+            // Assert
+            expect(integrateGroups).to.have.been.calledOnce.and.calledAfter(event);
+        });
+    });
+
+    describe("followCamera", () => {
+        it("scrolls to follow camera targets", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.maps.setMap("Stub");
+            game.areaSpawner.getArea().boundaries.right = 1000;
+
+            const actor = game.actors.add("Block", 200, 0);
+
+            game.cameraFollower.follow(actor);
+
+            // Act
+            game.frames.followCamera();
+
+            // Assert
+            expect(game.mapScreener.left).to.be.equal(208 - game.mapScreener.width / 2);
+        });
+
+        it("doesn't scroll past the area's boundaries", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.maps.setMap("Stub");
+
+            const actor = game.actors.add("Block", 200, 0);
+
+            game.cameraFollower.follow(actor);
+
+            // Act
+            game.frames.followCamera();
+
+            // Assert
+            expect(game.mapScreener).to.include({ left: 0, top: 0 });
+        });
+    });
+
+    describe("setQuadrants", () => {
+        it("removes Actors from quadrants once they're removed from their group", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.maps.setMap("Stub");
+
+            const actor = game.actors.add("Block", 0, 0);
+
+            game.frames.setQuadrants();
+            game.groupHolder.removeFromGroup(actor, "Solid");
+
+            // Act
+            game.frames.setQuadrants();
+
+            // Assert
+            expect(game.quadsKeeper.queryPoint(actor.left + 1, actor.top + 1)).to.not.include(
+                actor
+            );
+        });
+
+        it("removes Actors from a spatial hash once they're removed from their group", (): void => {
+            // Arrange
+            const { game } = stubSpatialHashGame();
+            const actor = game.actors.add("Block", stubWidth * 4, stubHeight * 4);
+
+            game.frames.setQuadrants();
+            game.groupHolder.removeFromGroup(actor, "Solid");
+
+            // Act
+            game.frames.setQuadrants();
+
+            // Assert
+            expect(game.quadsKeeper.queryPoint(actor.left + 1, actor.top + 1)).to.not.include(
+                actor
+            );
+        });
+
+        it("places Actors outside the screen into quadrants with a spatial hash", (): void => {
+            // Arrange
+            const { game } = stubSpatialHashGame();
+            const actor = game.actors.add("Block", stubWidth * 4, stubHeight * 4);
+
+            // Act
+            game.frames.setQuadrants();
+
+            // Assert
+            expect(actor.numQuadrants).to.be.greaterThan(0);
+        });
+
+        it("shares quadrants between touching Actors outside the screen with a spatial hash", (): void => {
+            // Arrange
+            const { game } = stubSpatialHashGame();
+            const left = game.actors.add("Block", -stubWidth * 4, 0);
+            const right = game.actors.add("Block", -stubWidth * 4 + 16, 0);
+
+            // Act
+            game.frames.setQuadrants();
+
+            // Assert
+            expect(left.quadrants.slice(0, left.numQuadrants)).to.include.members(
+                right.quadrants.slice(0, right.numQuadrants)
+            );
+        });
+    });
+
+    describe("runCollisions", () => {
+        it("resets collision statistics before checking for collisions", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const resetStats = sinon.spy(game.actorHitter, "resetStats");
+
+            // Act
+            game.frames.runCollisions();
+
+            // Assert
+            expect(resetStats).to.have.callCount(1);
+        });
+
+        it("updates collision contacts after checking for collisions", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const updateContacts = sinon.spy(game.actorHitter, "updateContacts");
+
+            // Act
+            game.frames.runCollisions();
+
+            // Assert
+            expect(updateContacts).to.have.callCount(1);
+        });
+    });
+
+    describe("savePositions", () => {
+        it("stores Actor positions as their previous positions", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.maps.setMap("Stub");
+
+            const actor = game.actors.add("Block", 48, 16);
+
+            // Act
+            game.frames.savePositions();
+
+            // Assert
+            expect(actor).to.include({ previousLeft: 48, previousTop: 16 });
+        });
+    });
+
+    describe("fixedTimestep", () => {
+        it("runs a tick for each interval that has passed", (): void => {
+            // Arrange
+            const { game, timing } = stubFixedTimestepGame();
+            const advance = sinon.spy(game.frames, "advance");
+
+            game.maps.setMap("Stub");
+            game.frameTicker.play();
+
+            // Act
+            timing.tick(stubInterval * 2.5);
+
+            // Assert
+            expect(advance).to.have.callCount(3);
+        });
+
+        it("updates the canvas once per display frame with interpolation", (): void => {
+            // Arrange
+            const { game, timing } = stubFixedTimestepGame();
+            const updateCanvas = sinon.spy(game.frames, "updateCanvas");
+
+            game.maps.setMap("Stub");
+            game.frameTicker.play();
+
+            // Act
+            timing.tick(stubInterval * 2.5);
+
+            // Assert
+            expect(updateCanvas.args).to.be.deep.equal([[0], [0.5]]);
+        });
+
+        it("stores previous positions before moving Actors", (): void => {
+            // Arrange
+            const { game, timing } = stubFixedTimestepGame();
+
+            game.maps.setMap("Stub");
+
+            const actor = game.actors.add("Block", 48, 16);
+
+            game.frameTicker.play();
+
+            // Act
+            timing.tick(stubInterval);
+
+            // Assert
+            expect(actor.previousLeft).to.be.equal(actor.left - actor.xVelocity);
+        });
+    });
+});
@@ -5,6 +5,7 @@
 import { FrameEvents } from "frametickr";
 
 import { EightBittr } from "../EightBittr";
+import { Actor } from "../types";
 import { Section } from "./Section";
 
 /**
@@ -16,19 +17,27 @@ export class Frames<Game extends EightBittr> extends Section<Game> {
      */
     public readonly events?: FrameEvents;
 
+    /**
+     * Whether to run ticks at a fixed rate and draw once per display frame, with
+     * Actors drawn between their previous and current positions.
+     */
+    public readonly fixedTimestep: boolean = false;
+
     /**
      * How many milliseconds should be between each game tick.
      */
     public readonly interval = 1000 / 60;
 
-    // 1. Any scheduled TimeHandlr events are fired
+    // 1. Any replayed inputs and scheduled TimeHandlr events are fired, then physics is integrated
     public advance() {
+        this.game.inputWriter.replayUntil(this.game.timeHandler.getTime());
         this.game.timeHandler.advance();
+        this.game.physics.integrateGroups();
     }
 
     // 2. Groups are updated for velocities and pruned.
     public maintain() {
-        for (const [groupName, maintainer] of this.game.maintenance.maintainers) {
+        for (const [groupName, maintainer] of this.game.scenes.getMaintainers()) {
             this.game.maintenance.maintainGroup(
                 this.game.groupHolder.getGroup(groupName),
                 maintainer
@@ -36,27 +45,61 @@ export class Frames<Game extends EightBittr> extends Section<Game> {
         }
     }
 
-    // 3. Actors in each Quadrant are recalculated for their new positions
+    // 3. The screen is scrolled to follow any camera targets, and viewports' cameras are spawned around
+    public followCamera() {
+        this.game.cameraFollower.update();
+        this.game.maps.spawnViewports();
+    }
+
+    // 4. Changed Actors in each Quadrant are recalculated for their new positions
     public setQuadrants() {
-        this.game.quadsKeeper.clearAllQuadrants();
         for (const groupName of this.game.quadrants.activeGroupNames) {
             this.game.quadsKeeper.determineGroupQuadrants(
-                this.game.groupHolder.getGroup(groupName)
+                this.game.groupHolder.getGroup(groupName),
+                groupName
             );
         }
     }
 
-    // 4. Collision detection is run with the fresh Quadrant data
+    // 5. Actors entering, staying in, or leaving regions are published
+    public updateRegions() {
+        this.game.regions.update();
+    }
+
+    // 6. Collision detection is run with the fresh Quadrant data
     public runCollisions() {
+        this.game.actorHitter.resetStats();
         for (const groupName of this.game.collisions.collidingGroupNames) {
             for (const actor of this.game.groupHolder.getGroup(groupName)) {
                 this.game.actorHitter.checkHitsForActor(actor);
             }
         }
+
+        this.game.actorHitter.updateContacts();
     }
 
-    // 5. Updated visuals are drawn to the canvas
-    public updateCanvas() {
-        this.game.pixelDrawer.refillGlobalCanvas();
+    // 7. Updated visuals are drawn to the canvas
+    public updateCanvas(interpolation?: number) {
+        this.game.pixelDrawer.refillGlobalCanvas(interpolation);
+        this.game.debugging.drawOverlay();
+    }
+
+    // 8. Actors removed during the frame are released to their pools
+    public releaseRemoved() {
+        this.game.death.releaseRemoved();
+    }
+
+    /**
+     * Stores Actor positions before a tick, to draw them between ticks with fixed timesteps.
+     */
+    public savePositions() {
+        for (const groupName of this.game.groups.groupNames) {
+            const actors: Actor[] = this.game.groupHolder.getGroup(groupName);
+
+            for (const actor of actors) {
+                actor.previousLeft = actor.left;
+                actor.previousTop = actor.top;
+            }
+        }
     }
 }
@@ -1,4 +1,5 @@
 import { member } from "autofieldr";
+import { Viewport } from "pixeldrawr";
 import { FilterContainer, Palette } from "pixelrendr";
 
 import { EightBittr } from "../EightBittr";
@@ -51,6 +52,11 @@ export class Graphics<Game extends EightBittr> extends Section<Game> {
      */
     public readonly spriteCacheCutoff?: number;
 
+    /**
+     * Regions of the screen or their own cameras to draw onto regions of the canvas, such as for split screens.
+     */
+    public readonly viewports?: Viewport[];
+
     /**
      * Adds and removes visual classes for Actors.
      */
@@ -0,0 +1,69 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+
+import { stubHeadlessGame } from "../fakes.test";
+
+describe("Maps", () => {
+    describe("onAreaSpawn", () => {
+        it("publishes an areaSpawn event for each spawned PreActor", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const listener = sinon.spy();
+
+            game.eventPublisher.subscribe("areaSpawn", listener);
+
+            // Act
+            game.maps.setMap("Stub");
+
+            // Assert
+            expect(listener).to.have.callCount(2);
+        });
+    });
+
+    describe("onAreaUnspawn", () => {
+        it("publishes an areaUnspawn event for each unspawned PreActor", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const listener = sinon.spy();
+
+            game.maps.setMap("Stub");
+            game.eventPublisher.subscribe("areaUnspawn", listener);
+
+            // Act
+            game.maps.onAreaUnspawn(
+                "xInc",
+                0,
+                game.mapScreener.width,
+                game.mapScreener.height,
+                0
+            );
+
+            // Assert
+            expect(listener).to.have.callCount(2);
+        });
+    });
+
+    describe("spawnViewports", () => {
+        it("spawns PreActors within a viewport's camera away from the screen", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.maps.setMap("Wide");
+            game.pixelDrawer.addViewport({
+                camera: { left: 960, top: 0 },
+                canvasLeft: 0,
+                canvasTop: 0,
+                height: 120,
+                left: 0,
+                top: 0,
+                width: 160,
+            });
+
+            // Act
+            game.maps.spawnViewports();
+
+            // Assert
+            expect(game.groupHolder.getGroup("Solid")).to.have.length(2);
+        });
+    });
+});
@@ -19,6 +19,11 @@ export class Maps<Game extends EightBittr> extends Section<Game> {
      */
     public readonly addPreActor?: (preActor: PreActorLike) => void;
 
+    /**
+     * Function for when a PreActor's Actor should be unspawned, if they ever should be.
+     */
+    public readonly removePreActor?: (preActor: PreActorLike) => void;
+
     /**
      * Entrance Functions that may be used as the openings for Locations.
      */
@@ -71,8 +76,13 @@ export class Maps<Game extends EightBittr> extends Section<Game> {
      *
      * @param name   Name of the new location.
      * @returns The newly set location.
+     * @remarks Unfinished script waits are cancelled, and Actors in regions and
+     *          collision contacts are forgotten first.
      */
     public setLocation(name: string): Location {
+        this.game.scripts.cancelAll();
+        this.game.regions.reset();
+        this.game.actorHitter.clearContacts();
         this.game.mapScreener.clearScreen();
         this.game.quadsKeeper.resetQuadrants();
 
@@ -105,6 +115,26 @@ export class Maps<Game extends EightBittr> extends Section<Game> {
         );
     }
 
+    /**
+     * Spawns all Actors within each viewport's camera, so Actors exist around
+     * views away from the main screen.
+     *
+     * @remarks This is generally called each frame after cameras move.
+     */
+    public spawnViewports(): void {
+        for (const { camera, height, left, top, width } of this.game.pixelDrawer.getViewports()) {
+            if (camera) {
+                this.game.areaSpawner.spawnArea(
+                    "xInc",
+                    camera.top + top,
+                    camera.left + left + width,
+                    camera.top + top + height,
+                    camera.left + left
+                );
+            }
+        }
+    }
+
     /**
      * "Unspawns" all Actors within a given area that should be gone by marking
      * their PreActors as not in game.
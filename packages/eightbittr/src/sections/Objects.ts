@@ -22,6 +22,11 @@ export class Objects<Game extends EightBittr> extends Section<Game> {
      */
     public readonly onMake?: string;
 
+    /**
+     * Most killed Actors to keep for reuse, keyed by class name.
+     */
+    public readonly pools?: Record<string, number>;
+
     /**
      * Properties for each class.
      */
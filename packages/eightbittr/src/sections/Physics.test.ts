@@ -1,6 +1,15 @@
 import { expect } from "chai";
 
-import { stubActor, stubEightBittr } from "../fakes.test";
+import { stubActor, stubEightBittr, stubHeadlessGame } from "../fakes.test";
+import { integrateVelocities } from "./Physics";
+
+const stubTilesGame = () => {
+    const { game } = stubHeadlessGame();
+
+    game.maps.setMap("Tiles");
+
+    return game;
+};
 
 describe("Physics", () => {
     describe("setBottom", () => {
@@ -59,6 +68,21 @@ describe("Physics", () => {
             // Assert
             expect(actor.right).to.be.equal(newRight);
         });
+
+        it("keeps children at their offsets", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const parent = game.actors.add("Block", 0, 0);
+            const child = game.actors.add("Block", 20, 4);
+
+            game.actors.attach(parent, child);
+
+            // Act
+            game.physics.setLeft(parent, 10);
+
+            // Assert
+            expect(child).to.include({ left: 30, right: 46, top: 4 });
+        });
     });
 
     describe("setMid", () => {
@@ -385,6 +409,21 @@ describe("Physics", () => {
             // Assert
             expect(actor.bottom).to.be.equal(newBottom);
         });
+
+        it("keeps children at their offsets", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const parent = game.actors.add("Block", 0, 0);
+            const child = game.actors.add("Block", 20, 4);
+
+            game.actors.attach(parent, child);
+
+            // Act
+            game.physics.setTop(parent, 10);
+
+            // Assert
+            expect(child).to.include({ bottom: 30, left: 20, top: 14 });
+        });
     });
 
     describe("shiftHorizontal", () => {
@@ -418,6 +457,21 @@ describe("Physics", () => {
             expect(actor.top).to.be.equal(top);
             expect(actor.bottom).to.be.equal(bottom);
         });
+
+        it("shifts children", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const parent = game.actors.add("Block", 0, 0);
+            const child = game.actors.add("Block", 20, 4);
+
+            game.actors.attach(parent, child);
+
+            // Act
+            game.physics.shiftHorizontal(parent, 7);
+
+            // Assert
+            expect(child).to.include({ left: 27, right: 43 });
+        });
     });
 
     describe("shiftVertical", () => {
@@ -451,6 +505,52 @@ describe("Physics", () => {
             expect(actor.left).to.be.equal(left);
             expect(actor.right).to.be.equal(right);
         });
+
+        it("shifts children", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const parent = game.actors.add("Block", 0, 0);
+            const child = game.actors.add("Block", 20, 4);
+
+            game.actors.attach(parent, child);
+
+            // Act
+            game.physics.shiftVertical(parent, 7);
+
+            // Assert
+            expect(child).to.include({ bottom: 27, top: 11 });
+        });
+    });
+
+    describe("shiftAll", () => {
+        it("shifts children once, with their parents", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const parent = game.actors.add("Block", 0, 0);
+            const child = game.actors.add("Block", 20, 4);
+
+            game.actors.attach(parent, child);
+
+            // Act
+            game.physics.shiftAll(7, 0);
+
+            // Assert
+            expect(child).to.include({ left: 27, right: 43 });
+        });
+
+        it("doesn't mark Actors as changed", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const actor = game.actors.add("Block", 0, 0);
+
+            actor.changed = false;
+
+            // Act
+            game.physics.shiftAll(7, 0);
+
+            // Assert
+            expect(actor.changed).to.be.equal(false);
+        });
     });
 
     describe("slideToX", () => {
@@ -907,4 +1007,187 @@ describe("Physics", () => {
             expect(actor.bottom).to.be.equal(newBottom);
         });
     });
+
+    describe("checkTileHit", () => {
+        it("returns false for an Actor resting on solid tiles", (): void => {
+            // Arrange
+            const game = stubTilesGame();
+            const actor = game.actors.add("Block", 0, 16);
+
+            // Act
+            const hit = game.physics.checkTileHit(actor);
+
+            // Assert
+            expect(hit).to.be.equal(false);
+        });
+
+        it("returns true for an Actor overlapping solid tiles", (): void => {
+            // Arrange
+            const game = stubTilesGame();
+            const actor = game.actors.add("Block", 0, 20);
+
+            // Act
+            const hit = game.physics.checkTileHit(actor);
+
+            // Assert
+            expect(hit).to.be.equal(true);
+        });
+
+        it("accounts for the screen's position in the map", (): void => {
+            // Arrange
+            const game = stubTilesGame();
+            const actor = game.actors.add("Block", 0, 4);
+
+            game.mapScreener.top = 16;
+
+            // Act
+            const hit = game.physics.checkTileHit(actor);
+
+            // Assert
+            expect(hit).to.be.equal(true);
+        });
+    });
+
+    describe("updatePositionWithTiles", () => {
+        it("moves an Actor by its velocities when no solid tiles are in the way", (): void => {
+            // Arrange
+            const game = stubTilesGame();
+            const actor = game.actors.add("Block", 0, 0);
+
+            actor.xVelocity = 3;
+            actor.yVelocity = 2;
+
+            // Act
+            game.physics.updatePositionWithTiles(actor);
+
+            // Assert
+            expect(actor).to.include({ left: 3, top: 2, xVelocity: 3, yVelocity: 2 });
+        });
+
+        it("stops an Actor against a solid wall", (): void => {
+            // Arrange
+            const game = stubTilesGame();
+            const actor = game.actors.add("Block", 0, 0);
+
+            actor.xVelocity = 100;
+
+            // Act
+            game.physics.updatePositionWithTiles(actor);
+
+            // Assert
+            expect(actor).to.include({ right: 64, xVelocity: 0 });
+        });
+
+        it("stops an Actor on a solid floor", (): void => {
+            // Arrange
+            const game = stubTilesGame();
+            const actor = game.actors.add("Block", 0, 0);
+
+            actor.xVelocity = 0;
+            actor.yVelocity = 100;
+
+            // Act
+            game.physics.updatePositionWithTiles(actor);
+
+            // Assert
+            expect(actor).to.include({ bottom: 32, yVelocity: 0 });
+        });
+    });
+
+    describe("applyImpulse", () => {
+        it("changes velocities by the impulse for an Actor without a mass", (): void => {
+            // Arrange
+            const { physics } = stubEightBittr();
+            const actor = stubActor();
+
+            // Act
+            physics.applyImpulse(actor, 3, -2);
+
+            // Assert
+            expect(actor).to.include({ xVelocity: 3, yVelocity: -2 });
+        });
+
+        it("scales the impulse down by an Actor's mass", (): void => {
+            // Arrange
+            const { physics } = stubEightBittr();
+            const actor = { ...stubActor(), mass: 2 };
+
+            // Act
+            physics.applyImpulse(actor, 3, -2);
+
+            // Assert
+            expect(actor).to.include({ xVelocity: 1.5, yVelocity: -1 });
+        });
+    });
+
+    describe("integrate", () => {
+        it("shifts an Actor by its accelerated velocities", (): void => {
+            // Arrange
+            const { physics } = stubEightBittr();
+            const actor = { ...stubActor(), xAcceleration: 2, yAcceleration: 1 };
+
+            // Act
+            physics.integrate(actor);
+
+            // Assert
+            expect(actor).to.include({ left: 37, top: 15, xVelocity: 2, yVelocity: 1 });
+        });
+    });
+
+    describe("integrateVelocities", () => {
+        it("accelerates an Actor by gravity", (): void => {
+            // Arrange
+            const actor = stubActor();
+
+            // Act
+            integrateVelocities(actor, 0.5, 1);
+
+            // Assert
+            expect(actor.yVelocity).to.be.equal(0.5);
+        });
+
+        it("scales gravity by an Actor's gravityScale", (): void => {
+            // Arrange
+            const actor = { ...stubActor(), gravityScale: 2 };
+
+            // Act
+            integrateVelocities(actor, 0.5, 1);
+
+            // Assert
+            expect(actor.yVelocity).to.be.equal(1);
+        });
+
+        it("scales accelerations by the timestep", (): void => {
+            // Arrange
+            const actor = { ...stubActor(), xAcceleration: 2 };
+
+            // Act
+            integrateVelocities(actor, 0, 0.5);
+
+            // Assert
+            expect(actor.xVelocity).to.be.equal(1);
+        });
+
+        it("slows an Actor by its drag", (): void => {
+            // Arrange
+            const actor = { ...stubActor(), drag: 0.25, xVelocity: 4 };
+
+            // Act
+            integrateVelocities(actor, 0, 1);
+
+            // Assert
+            expect(actor.xVelocity).to.be.equal(3);
+        });
+
+        it("limits an Actor to its maxSpeed", (): void => {
+            // Arrange
+            const actor = { ...stubActor(), maxSpeed: 5, xVelocity: 6, yVelocity: 8 };
+
+            // Act
+            integrateVelocities(actor, 0, 1);
+
+            // Assert
+            expect(actor).to.include({ xVelocity: 3, yVelocity: 4 });
+        });
+    });
 });
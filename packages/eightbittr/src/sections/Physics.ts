@@ -1,11 +1,75 @@
+import { Boundaries, TileGrid } from "mapscreatr";
+
 import { EightBittr } from "../EightBittr";
 import { Actor } from "../types";
 import { Section } from "./Section";
 
+/**
+ * Updates an Actor's velocities for one integration step.
+ *
+ * @param actor   The Actor to integrate.
+ * @param gravity   Downward acceleration for Actors with a gravityScale of 1.
+ * @param timestep   How many game ticks the step covers.
+ */
+export type PhysicsIntegrator = (actor: Actor, gravity: number, timestep: number) => void;
+
+/**
+ * Integrates an Actor's velocities with semi-implicit Euler integration.
+ *
+ * @param actor   The Actor to integrate.
+ * @param gravity   Downward acceleration for Actors with a gravityScale of 1.
+ * @param timestep   How many game ticks the step covers.
+ */
+export const integrateVelocities: PhysicsIntegrator = (
+    actor: Actor,
+    gravity: number,
+    timestep: number
+): void => {
+    actor.xVelocity += (actor.xAcceleration ?? 0) * timestep;
+    actor.yVelocity +=
+        ((actor.yAcceleration ?? 0) + gravity * (actor.gravityScale ?? 1)) * timestep;
+
+    if (actor.drag) {
+        const remaining = Math.max(0, 1 - actor.drag * timestep);
+
+        actor.xVelocity *= remaining;
+        actor.yVelocity *= remaining;
+    }
+
+    if (actor.maxSpeed !== undefined) {
+        const speed = Math.hypot(actor.xVelocity, actor.yVelocity);
+
+        if (speed > actor.maxSpeed) {
+            actor.xVelocity *= actor.maxSpeed / speed;
+            actor.yVelocity *= actor.maxSpeed / speed;
+        }
+    }
+};
+
 /**
  * Physics functions to move Actors around.
  */
 export class Physics<Game extends EightBittr> extends Section<Game> {
+    /**
+     * Downward acceleration applied to integrated Actors each tick.
+     */
+    public readonly gravity: number = 0;
+
+    /**
+     * Names of groups whose Actors are integrated each tick.
+     */
+    public readonly integratedGroupNames: string[] = [];
+
+    /**
+     * Updates velocities of integrated Actors for each integration step.
+     */
+    public readonly integrator: PhysicsIntegrator = integrateVelocities;
+
+    /**
+     * How many game ticks each integration step covers.
+     */
+    public readonly timestep: number = 1;
+
     /**
      * @returns The horizontal midpoint of the Actor.
      */
@@ -62,10 +126,13 @@ export class Physics<Game extends EightBittr> extends Section<Game> {
      * @param bottom   A new bottom border for the Actor.
      */
     public setBottom(actor: Actor, bottom: number): void {
+        const dy = bottom - actor.bottom;
+
         actor.bottom = bottom;
         actor.top = actor.bottom - actor.height;
 
         this.markChanged(actor);
+        this.shiftChildren(actor, 0, dy);
     }
 
     /**
@@ -94,10 +161,13 @@ export class Physics<Game extends EightBittr> extends Section<Game> {
      * @param left   A new left border for the Actor.
      */
     public setLeft(actor: Actor, left: number): void {
+        const dx = left - actor.left;
+
         actor.left = left;
         actor.right = actor.left + actor.width;
 
         this.markChanged(actor);
+        this.shiftChildren(actor, dx, 0);
     }
 
     /**
@@ -172,10 +242,13 @@ export class Physics<Game extends EightBittr> extends Section<Game> {
      * @param right   A new right border for the Actor.
      */
     public setRight(actor: Actor, right: number): void {
+        const dx = right - actor.right;
+
         actor.right = right;
         actor.left = actor.right - actor.width;
 
         this.markChanged(actor);
+        this.shiftChildren(actor, dx, 0);
     }
 
     /**
@@ -184,10 +257,13 @@ export class Physics<Game extends EightBittr> extends Section<Game> {
      * @param top   A new top border for the Actor.
      */
     public setTop(actor: Actor, top: number): void {
+        const dy = top - actor.top;
+
         actor.top = top;
         actor.bottom = actor.top + actor.height;
 
         this.markChanged(actor);
+        this.shiftChildren(actor, 0, dy);
     }
 
     /**
@@ -236,6 +312,7 @@ export class Physics<Game extends EightBittr> extends Section<Game> {
         actor.right += dx;
 
         this.markChanged(actor);
+        this.shiftChildren(actor, dx, 0);
     }
 
     /**
@@ -260,17 +337,38 @@ export class Physics<Game extends EightBittr> extends Section<Game> {
         actor.bottom += dy;
 
         this.markChanged(actor);
+        this.shiftChildren(actor, 0, dy);
     }
 
     /**
-     * Calls shiftBoth on all groups of Actors.
+     * Calls shiftBoth on an Actor's children, so they keep their offsets from it.
+     *
+     * @param actor   The Actor whose children to shift.
+     * @param dx   How far to shift the children horizontally.
+     * @param dy   How far to shift the children vertically.
+     */
+    public shiftChildren(actor: Actor, dx: number, dy: number): void {
+        if (actor.children) {
+            for (const child of actor.children) {
+                this.shiftBoth(child, dx, dy);
+            }
+        }
+    }
+
+    /**
+     * Shifts all groups of Actors, such as when the screen scrolls.
      *
      * @param dx   How far to shift the Actors horizontally.
      * @param dy   How far to shift the Actors vertically.
+     * @remarks Actors aren't marked as changed, as quadrants are shifted along with them.
+     *          Children are shifted once, as members of their own groups.
      */
     public shiftAll(dx: number, dy: number): void {
         this.game.groupHolder.callOnAll((actor: Actor): void => {
-            this.shiftBoth(actor, dx, dy);
+            actor.left += dx;
+            actor.right += dx;
+            actor.top += dy;
+            actor.bottom += dy;
         });
     }
 
@@ -298,6 +396,82 @@ export class Physics<Game extends EightBittr> extends Section<Game> {
         this.shiftVertical(actor, actor.yVelocity);
     }
 
+    /**
+     * Changes An Actor's velocities by an instantaneous push, scaled down by its mass.
+     *
+     * @param actor
+     * @param dx   Horizontal impulse to apply.
+     * @param dy   Vertical impulse to apply.
+     */
+    public applyImpulse(actor: Actor, dx: number, dy: number): void {
+        const mass = actor.mass ?? 1;
+
+        actor.xVelocity += dx / mass;
+        actor.yVelocity += dy / mass;
+    }
+
+    /**
+     * Runs one integration step on An Actor, updating its velocities with the
+     * integrator and then shifting it by them.
+     *
+     * @param actor
+     */
+    public integrate(actor: Actor): void {
+        this.integrator(actor, this.gravity, this.timestep);
+        this.shiftBoth(actor, actor.xVelocity * this.timestep, actor.yVelocity * this.timestep);
+    }
+
+    /**
+     * Runs one integration step on each Actor in the integrated groups.
+     */
+    public integrateGroups(): void {
+        for (const groupName of this.integratedGroupNames) {
+            const actors: Actor[] = this.game.groupHolder.getGroup(groupName);
+
+            for (const actor of actors) {
+                this.integrate(actor);
+            }
+        }
+    }
+
+    /**
+     * Checks whether An Actor overlaps any solid tiles in the current Area's tile grid.
+     *
+     * @param actor
+     * @returns Whether the Actor overlaps any solid tiles.
+     */
+    public checkTileHit(actor: Actor): boolean {
+        const tileGrid = this.getTileGrid();
+
+        return !!tileGrid?.checkBox(this.getMapBoundaries(actor));
+    }
+
+    /**
+     * Shifts An Actor by its velocities, stopping it against solid tiles in the current
+     * Area's tile grid. Velocity along a blocked axis is set to 0.
+     *
+     * @param actor
+     */
+    public updatePositionWithTiles(actor: Actor): void {
+        const tileGrid = this.getTileGrid();
+        if (!tileGrid) {
+            this.updatePosition(actor);
+            return;
+        }
+
+        const dx = tileGrid.clampHorizontal(this.getMapBoundaries(actor), actor.xVelocity);
+        this.shiftHorizontal(actor, dx);
+        if (dx !== actor.xVelocity) {
+            actor.xVelocity = 0;
+        }
+
+        const dy = tileGrid.clampVertical(this.getMapBoundaries(actor), actor.yVelocity);
+        this.shiftVertical(actor, dy);
+        if (dy !== actor.yVelocity) {
+            actor.yVelocity = 0;
+        }
+    }
+
     /**
      * Reduces An Actor's width by pushing back its right and decreasing its
      * width. It is marked as changed in appearance.
@@ -439,4 +613,27 @@ export class Physics<Game extends EightBittr> extends Section<Game> {
 
         this.markChanged(actor);
     }
+
+    /**
+     * @returns The current Area's tile grid, if it has one.
+     */
+    private getTileGrid(): TileGrid | undefined {
+        // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+        return this.game.areaSpawner.getArea()?.tileGrid;
+    }
+
+    /**
+     * @param actor
+     * @returns The Actor's bounding box in map coordinates, rather than screen coordinates.
+     */
+    private getMapBoundaries(actor: Actor): Boundaries {
+        const { left, top } = this.game.mapScreener;
+
+        return {
+            bottom: actor.bottom + top,
+            left: actor.left + left,
+            right: actor.right + left,
+            top: actor.top + top,
+        };
+    }
 }
@@ -29,4 +29,10 @@ export class Quadrants<Game extends EightBittr> extends Section<Game> {
      * How wide each quadrant is.
      */
     public readonly quadrantWidth?: number;
+
+    /**
+     * Whether to keep Actors in a world-space spatial hash covering the whole area,
+     * instead of only the screen's grid of quadrants.
+     */
+    public readonly spatialHash?: boolean;
 }
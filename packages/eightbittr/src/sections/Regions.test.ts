@@ -0,0 +1,219 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+
+import { stubHeadlessGame, stubInterval } from "../fakes.test";
+
+const stubRegionsGame = () => {
+    const { game, timing } = stubHeadlessGame();
+
+    game.maps.setMap("Regions");
+
+    const region = game.regions.getRegion("Zone");
+    if (!region) {
+        throw new Error("Stub map should have a 'Zone' region.");
+    }
+
+    return { game, region, timing };
+};
+
+const update = (game: ReturnType<typeof stubHeadlessGame>["game"]) => {
+    game.frames.setQuadrants();
+    game.regions.update();
+};
+
+describe("Regions", () => {
+    describe("getRegion", () => {
+        it("returns a region from the current Area by name", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.maps.setMap("Regions");
+
+            // Act
+            const region = game.regions.getRegion("Zone");
+
+            // Assert
+            expect(region).to.include({ bottom: 32, left: 64, right: 96, top: 0 });
+        });
+
+        it("returns undefined when the current Area has no region of the name", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.maps.setMap("Stub");
+
+            // Act
+            const region = game.regions.getRegion("Zone");
+
+            // Assert
+            expect(region).to.be.equal(undefined);
+        });
+    });
+
+    describe("update", () => {
+        it("publishes regionEnter when an Actor enters a region", () => {
+            // Arrange
+            const { game, region } = stubRegionsGame();
+            const onEnter = sinon.spy();
+            const actor = game.actors.add("Block", 72, 8);
+
+            game.eventPublisher.subscribe("regionEnter", onEnter);
+
+            // Act
+            update(game);
+
+            // Assert
+            expect(onEnter).to.have.been.calledOnceWith({ actor, region });
+        });
+
+        it("publishes regionStay when an Actor stays in a region", () => {
+            // Arrange
+            const { game, region } = stubRegionsGame();
+            const onEnter = sinon.spy();
+            const onStay = sinon.spy();
+            const actor = game.actors.add("Block", 72, 8);
+
+            update(game);
+            game.eventPublisher.subscribe("regionEnter", onEnter);
+            game.eventPublisher.subscribe("regionStay", onStay);
+
+            // Act
+            update(game);
+
+            // Assert
+            expect(onEnter).to.have.callCount(0);
+            expect(onStay).to.have.been.calledOnceWith({ actor, region });
+        });
+
+        it("publishes regionLeave when an Actor leaves a region", () => {
+            // Arrange
+            const { game, region } = stubRegionsGame();
+            const onLeave = sinon.spy();
+            const actor = game.actors.add("Block", 72, 8);
+
+            update(game);
+            game.eventPublisher.subscribe("regionLeave", onLeave);
+            game.physics.setLeft(actor, 128);
+
+            // Act
+            update(game);
+
+            // Assert
+            expect(onLeave).to.have.been.calledOnceWith({ actor, region });
+        });
+
+        it("publishes regionLeave when an Actor in a region is killed", () => {
+            // Arrange
+            const { game, region } = stubRegionsGame();
+            const onLeave = sinon.spy();
+            const actor = game.actors.add("Block", 72, 8);
+
+            update(game);
+            game.eventPublisher.subscribe("regionLeave", onLeave);
+            game.death.kill(actor);
+
+            // Act
+            update(game);
+
+            // Assert
+            expect(onLeave).to.have.been.calledOnceWith({ actor, region });
+        });
+
+        it("publishes regionLeave and regionEnter when an Actor in a region is reused from its pool", () => {
+            // Arrange
+            const { game, region } = stubRegionsGame();
+            const onEnter = sinon.spy();
+            const onLeave = sinon.spy();
+            const onStay = sinon.spy();
+
+            game.objectMaker.setPoolSize("Block", 1);
+
+            const actor = game.actors.add("Block", 72, 8);
+
+            update(game);
+            game.death.kill(actor);
+            game.death.releaseRemoved();
+
+            const reused = game.actors.add("Block", 72, 8);
+
+            game.eventPublisher.subscribe("regionEnter", onEnter);
+            game.eventPublisher.subscribe("regionLeave", onLeave);
+            game.eventPublisher.subscribe("regionStay", onStay);
+
+            // Act
+            update(game);
+
+            // Assert
+            expect(reused).to.be.equal(actor);
+            expect(onLeave).to.have.been.calledOnceWith({ actor, region });
+            expect(onEnter).to.have.been.calledOnceWith({ actor, region });
+            expect(onStay).to.have.callCount(0);
+        });
+
+        it("doesn't publish for Actors outside of regions", () => {
+            // Arrange
+            const { game } = stubRegionsGame();
+            const onEnter = sinon.spy();
+
+            game.actors.add("Block", 128, 8);
+            game.eventPublisher.subscribe("regionEnter", onEnter);
+
+            // Act
+            update(game);
+
+            // Assert
+            expect(onEnter).to.have.callCount(0);
+        });
+
+        it("runs each game tick", () => {
+            // Arrange
+            const { game, region, timing } = stubRegionsGame();
+            const actor = game.actors.add("Block", 72, 8);
+
+            actor.xVelocity = 0;
+            game.frameTicker.play();
+
+            // Act
+            timing.tick(stubInterval);
+
+            // Assert
+            expect(game.regions.getOccupants(region)).to.be.deep.equal([actor]);
+        });
+    });
+
+    describe("reset", () => {
+        it("forgets Actors in regions when a new location is set", () => {
+            // Arrange
+            const { game, region } = stubRegionsGame();
+
+            game.actors.add("Block", 72, 8);
+            update(game);
+
+            // Act
+            game.maps.setLocation("Start");
+
+            // Assert
+            expect(game.regions.getOccupants(region)).to.be.deep.equal([]);
+        });
+    });
+
+    describe("restoreSnapshot", () => {
+        it("restores Actors in regions from a snapshot", () => {
+            // Arrange
+            const { game, region } = stubRegionsGame();
+            const actor = game.actors.add("Block", 72, 8);
+
+            update(game);
+
+            const snapshot = game.regions.createSnapshot();
+
+            game.regions.reset();
+
+            // Act
+            game.regions.restoreSnapshot(snapshot);
+
+            // Assert
+            expect(game.regions.getOccupants(region)).to.be.deep.equal([actor]);
+        });
+    });
+});
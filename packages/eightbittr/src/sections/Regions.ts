@@ -0,0 +1,139 @@
+import { Region } from "mapscreatr";
+
+import { EightBittr } from "../EightBittr";
+import { Actor } from "../types";
+import { Section } from "./Section";
+
+/**
+ * Saved identifiers of Actors within each of the current Area's regions, to be restored later.
+ */
+export type RegionsSnapshot = number[][];
+
+/**
+ * Tracks Actors entering, staying in, and leaving the current Area's regions.
+ */
+export class Regions<Game extends EightBittr> extends Section<Game> {
+    /**
+     * Actors within each region as of the last update, keyed to their pooling generations.
+     *
+     * @remarks An Actor reused from its pool since the last update is a new occupant.
+     */
+    private readonly occupants = new Map<Region, Map<Actor, number>>();
+
+    /**
+     * @returns The current Area's regions.
+     */
+    public getRegions(): Region[] {
+        // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+        return this.game.areaSpawner.getArea()?.regions ?? [];
+    }
+
+    /**
+     * @param name   Name of a region in the current Area.
+     * @returns The first region of that name, if one exists.
+     */
+    public getRegion(name: string): Region | undefined {
+        return this.getRegions().find((region) => region.name === name);
+    }
+
+    /**
+     * @param region   A region in the current Area.
+     * @returns Actors within the region as of the last update.
+     */
+    public getOccupants(region: Region): Actor[] {
+        return [...(this.occupants.get(region)?.keys() ?? [])];
+    }
+
+    /**
+     * Publishes region events for Actors in the current Area's regions.
+     *
+     * @remarks Candidates are taken from the quadrants overlapping each region,
+     *          so this should run after quadrants are determined.
+     */
+    public update(): void {
+        for (const region of this.getRegions()) {
+            const previous = this.occupants.get(region) ?? new Map<Actor, number>();
+            const current = this.findActorsWithin(region);
+
+            this.occupants.set(region, current);
+
+            for (const [actor, generation] of previous) {
+                if (current.get(actor) !== generation) {
+                    this.game.eventPublisher.publish("regionLeave", { actor, region });
+                }
+            }
+
+            for (const [actor, generation] of current) {
+                this.game.eventPublisher.publish(
+                    previous.get(actor) === generation ? "regionStay" : "regionEnter",
+                    { actor, region }
+                );
+            }
+        }
+    }
+
+    /**
+     * Forgets all tracked Actors without publishing region events.
+     *
+     * @remarks This is called when a new location is set.
+     */
+    public reset(): void {
+        this.occupants.clear();
+    }
+
+    /**
+     * @returns Saved identifiers of Actors within each region.
+     */
+    public createSnapshot(): RegionsSnapshot {
+        return this.getRegions().map((region) =>
+            this.getOccupants(region).map((actor) => this.game.snapshots.getActorId(actor))
+        );
+    }
+
+    /**
+     * Restores Actors within each region from a snapshot.
+     *
+     * @param snapshot   Saved state from createSnapshot.
+     * @remarks This should run after Actors and the current Area are restored.
+     */
+    public restoreSnapshot(snapshot: RegionsSnapshot): void {
+        this.occupants.clear();
+
+        this.getRegions().forEach((region, i) => {
+            const actors = new Map<Actor, number>();
+
+            for (const id of snapshot[i] ?? []) {
+                const actor = this.game.snapshots.findActor(id);
+
+                if (actor && !actor.removed) {
+                    actors.set(actor, this.game.objectMaker.getGeneration(actor));
+                }
+            }
+
+            this.occupants.set(region, actors);
+        });
+    }
+
+    /**
+     * Finds Actors overlapping a region from the quadrants that overlap it.
+     *
+     * @param region   A region in the current Area.
+     * @returns Actors overlapping the region, keyed to their pooling generations.
+     */
+    private findActorsWithin(region: Region): Map<Actor, number> {
+        const { mapScreener } = this.game;
+        const actors = this.game.quadsKeeper.queryRect(
+            region.top - mapScreener.top,
+            region.right - mapScreener.left,
+            region.bottom - mapScreener.top,
+            region.left - mapScreener.left,
+            this.game.quadrants.activeGroupNames
+        );
+
+        return new Map(
+            actors
+                .filter((actor) => !actor.removed)
+                .map((actor) => [actor, this.game.objectMaker.getGeneration(actor)])
+        );
+    }
+}
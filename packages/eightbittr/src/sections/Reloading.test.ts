@@ -0,0 +1,144 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+
+import { stubHeadlessGame, stubMaps } from "../fakes.test";
+import { Actor } from "../types";
+
+const stubReloadedMap = () => ({
+    ...stubMaps.Stub,
+    areas: {
+        Main: {
+            creation: [{ actor: "Block", x: 64, y: 0 }],
+        },
+    },
+});
+
+describe("Reloading", () => {
+    describe("reloadMap", () => {
+        it("respawns the current Area from the updated map", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.maps.setMap("Stub");
+
+            // Act
+            game.reloading.reloadMap("Stub", stubReloadedMap());
+
+            // Assert
+            expect(
+                game.groupHolder.getGroup("Solid").map((actor: Actor) => actor.left)
+            ).to.be.deep.equal([64]);
+        });
+
+        it("keeps Actors that weren't spawned by the map where they are", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.maps.setMap("Stub");
+
+            const player = game.actors.add("Block", 100, 50);
+
+            // Act
+            game.reloading.reloadMap("Stub", stubReloadedMap());
+
+            // Assert
+            expect(game.groupHolder.getGroup("Solid")).to.include(player);
+            expect(player).to.include({ left: 100, top: 50 });
+        });
+
+        it("keeps children of map Actors that weren't spawned by the map", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.maps.setMap("Stub");
+
+            const [block]: Actor[] = game.groupHolder.getGroup("Solid");
+            const child = game.actors.add("Block", 100, 50);
+
+            game.actors.attach(block, child);
+
+            // Act
+            game.reloading.reloadMap("Stub", stubReloadedMap());
+
+            // Assert
+            expect(game.groupHolder.getGroup("Solid")).to.include(child);
+            expect(child.parent).to.be.equal(undefined);
+            expect(block.children).to.be.deep.equal([]);
+        });
+
+        it("removes map Actors without killing or pooling them", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const onKilled = sinon.spy();
+            const onRemoved = sinon.spy();
+
+            game.objectMaker.setPoolSize("Block", 1);
+            game.maps.setMap("Stub");
+
+            const [block]: Actor[] = game.groupHolder.getGroup("Solid");
+
+            game.eventPublisher.subscribe("actorKilled", onKilled);
+            game.eventPublisher.subscribe("actorRemoved", onRemoved);
+
+            // Act
+            game.reloading.reloadMap("Stub", stubReloadedMap());
+            game.death.releaseRemoved();
+
+            // Assert
+            expect(onKilled).to.have.callCount(0);
+            expect(onRemoved).to.have.been.calledWithExactly({ actor: block });
+            expect(game.groupHolder.getGroup("Solid")).to.not.include(block);
+            expect(game.objectMaker.getPoolStats("Block")).to.include({ released: 0 });
+        });
+
+        it("doesn't respawn when a different map is updated", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const kill = sinon.spy(game.death, "kill");
+
+            game.maps.setMap("Stub");
+
+            // Act
+            game.reloading.reloadMap("Tiles", stubMaps.Tiles);
+
+            // Assert
+            expect(kill).to.have.callCount(0);
+        });
+    });
+
+    describe("reloadClass", () => {
+        it("respawns the current Area with the updated class properties", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.maps.setMap("Stub");
+
+            // Act
+            game.reloading.reloadClass("Block", {
+                groupType: "Solid",
+                height: 32,
+                width: 16,
+            });
+
+            // Assert
+            expect(
+                game.groupHolder.getGroup("Solid").map((actor: Actor) => actor.height)
+            ).to.be.deep.equal([32, 32]);
+        });
+    });
+
+    describe("reloadSprites", () => {
+        it("replaces the sprite library", () => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const resetLibrary = sinon.spy(game.pixelRender, "resetLibrary");
+            const raws = { Block: "x08" };
+
+            // Act
+            game.reloading.reloadSprites(raws);
+
+            // Assert
+            expect(resetLibrary).to.have.been.calledOnceWith(raws);
+        });
+    });
+});
@@ -0,0 +1,98 @@
+import { MapRaw } from "mapscreatr";
+import { LibraryRaws } from "pixelrendr";
+
+import { EightBittr } from "../EightBittr";
+import { Actor } from "../types";
+import { Section } from "./Section";
+
+/**
+ * Hot reloads maps, sprites, and Actor classes while editing content.
+ */
+export class Reloading<Game extends EightBittr> extends Section<Game> {
+    /**
+     * Stores an updated map, respawning the current Area in place if it's in the map.
+     *
+     * @param name   Name of the map.
+     * @param mapRaw   Updated raw map.
+     */
+    public reloadMap(name: string, mapRaw: MapRaw): void {
+        this.game.mapsCreator.storeMap(name, mapRaw);
+
+        if (this.game.areaSpawner.getMapName() === name) {
+            this.respawnArea();
+        }
+    }
+
+    /**
+     * Replaces the sprite library, so Actors are drawn with updated sprites.
+     *
+     * @param raws   Updated raw sprite library.
+     */
+    public reloadSprites(raws: LibraryRaws): void {
+        this.game.pixelRender.resetLibrary(raws);
+    }
+
+    /**
+     * Replaces an Actor class's properties and respawns the current Area in place.
+     *
+     * @param name   Name of the class.
+     * @param properties   Updated properties for the class.
+     * @remarks Actors that aren't respawned see the new properties except where they have their own.
+     */
+    public reloadClass(name: string, properties: Partial<Actor> | unknown[]): void {
+        this.game.objectMaker.setProperties(name, properties);
+        this.respawnArea();
+    }
+
+    /**
+     * Recreates the Actors spawned by the current Area's PreActors, without moving the screen.
+     *
+     * @remarks Actors not spawned by the map, such as players, are kept where they are.
+     *          The location is re-read from its map, which may have been stored again.
+     *          Actors in regions are forgotten, so they're published as entering them again.
+     *          Map Actors are discarded rather than killed, after detaching any kept children.
+     */
+    public respawnArea(): void {
+        const location = this.game.areaSpawner.getLocationEntered();
+        const mapActors = this.getMapActors();
+
+        for (const groupName of this.game.groups.groupNames) {
+            for (const actor of [...this.game.groupHolder.getGroup(groupName)] as Actor[]) {
+                if (!mapActors.has(actor) || actor.removed) {
+                    continue;
+                }
+
+                for (const child of [...(actor.children ?? [])]) {
+                    if (!mapActors.has(child)) {
+                        this.game.actors.detach(child);
+                    }
+                }
+
+                this.game.death.discard(actor);
+            }
+        }
+
+        this.game.regions.reset();
+        this.game.areaSpawner.setMap(this.game.areaSpawner.getMapName());
+        this.game.areaSpawner.setLocation(location.name);
+        this.game.quadsKeeper.resetQuadrants();
+    }
+
+    /**
+     * @returns Actors created for the current Area's PreActors.
+     */
+    private getMapActors(): Set<Actor> {
+        const mapActors = new Set<Actor>();
+        const preActors = this.game.areaSpawner.getPreActors();
+
+        for (const groupName in preActors) {
+            if ({}.hasOwnProperty.call(preActors, groupName)) {
+                for (const preActor of preActors[groupName].xInc) {
+                    mapActors.add(preActor.actor as Actor);
+                }
+            }
+        }
+
+        return mapActors;
+    }
+}
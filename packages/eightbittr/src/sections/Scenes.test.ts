@@ -0,0 +1,129 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+
+import { stubHeadlessGame } from "../fakes.test";
+
+describe("Scenes", () => {
+    describe("enter", () => {
+        it("pauses events scheduled before the scene was pushed", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const event = sinon.spy();
+
+            game.timeHandler.addEvent(event, 1);
+
+            // Act
+            game.sceneStacker.push({});
+            game.timeHandler.advance();
+
+            // Assert
+            expect(event).to.have.callCount(0);
+        });
+
+        it("switches to the scene's input triggers", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const confirm = sinon.spy();
+
+            // Act
+            game.sceneStacker.push({ triggers: { onkeydown: { confirm } } });
+            game.inputWriter.callEvent("onkeydown", "mark");
+            game.inputWriter.callEvent("onkeydown", "confirm");
+
+            // Assert
+            expect(game.itemsHolder.getItem("marked")).to.be.equal(undefined);
+            expect(confirm).to.have.callCount(1);
+        });
+
+        it("stops maintaining groups without the scene's maintainers", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.maps.setMap("Stub");
+
+            const actor = game.actors.add("Block", 48, 16);
+
+            // Act
+            game.sceneStacker.push({});
+            game.frames.maintain();
+
+            // Assert
+            expect(actor.left).to.be.equal(48);
+        });
+    });
+
+    describe("exit", () => {
+        it("resumes events scheduled before the scene was pushed", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const event = sinon.spy();
+
+            game.timeHandler.addEvent(event, 1);
+            game.sceneStacker.push({});
+
+            // Act
+            game.sceneStacker.pop();
+            game.timeHandler.advance();
+
+            // Assert
+            expect(event).to.have.callCount(1);
+        });
+
+        it("cancels events scheduled while the scene was on top", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const event = sinon.spy();
+
+            game.sceneStacker.push({});
+            game.timeHandler.addEvent(event, 1);
+
+            // Act
+            game.sceneStacker.pop();
+            game.timeHandler.advance();
+
+            // Assert
+            expect(event).to.have.callCount(0);
+        });
+
+        it("switches back to the game's input triggers", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.sceneStacker.push({ triggers: {} });
+
+            // Act
+            game.sceneStacker.pop();
+            game.inputWriter.callEvent("onkeydown", "mark");
+
+            // Assert
+            expect(game.itemsHolder.getItem("marked")).to.be.equal(0);
+        });
+    });
+
+    describe("getGroupNames", () => {
+        it("returns the game's group names when there are no scenes", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            // Act
+            const groupNames = game.scenes.getGroupNames();
+
+            // Assert
+            expect(groupNames).to.be.deep.equal(["Solid"]);
+        });
+
+        it("returns the group names of the nearest scene with them", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.sceneStacker.push({ groupNames: [] });
+            game.sceneStacker.push({ triggers: {} });
+
+            // Act
+            const groupNames = game.scenes.getGroupNames();
+
+            // Assert
+            expect(groupNames).to.be.deep.equal([]);
+        });
+    });
+});
@@ -0,0 +1,112 @@
+import { TriggerContainer } from "inputwritr";
+import { Scene } from "scenestackr";
+import { SuspendedEvents } from "timehandlr";
+
+import { EightBittr } from "../EightBittr";
+import { Actor } from "../types";
+import { ActorMaintainer } from "./Maintenance";
+import { Section } from "./Section";
+
+/**
+ * A scene with its own maintainers, input triggers, and drawing groups.
+ */
+export interface GameScene extends Scene {
+    /**
+     * Names of known Actor groups to draw, in drawing order (by default, the scene below's).
+     */
+    groupNames?: string[];
+
+    /**
+     * Group type names along with their tick maintenance functions (by default, none).
+     */
+    maintainers?: [string, ActorMaintainer][];
+
+    /**
+     * Mapping of events to their key codes, to their callbacks (by default, none).
+     */
+    triggers?: TriggerContainer;
+}
+
+/**
+ * Switches game behavior between scenes in the scene stack.
+ */
+export class Scenes<Game extends EightBittr> extends Section<Game> {
+    /**
+     * TimeHandlr events set aside under each scene, keyed by the scene above them.
+     */
+    private readonly suspendedEvents = new Map<GameScene, SuspendedEvents>();
+
+    /**
+     * @returns Names of Actor groups to draw, in drawing order.
+     */
+    public getGroupNames(): string[] {
+        const scenes = this.game.sceneStacker.getScenes();
+
+        for (let i = scenes.length - 1; i >= 0; i -= 1) {
+            const { groupNames } = scenes[i];
+            if (groupNames) {
+                return groupNames;
+            }
+        }
+
+        return this.game.groups.groupNames;
+    }
+
+    /**
+     * @returns Group type names along with their tick maintenance functions.
+     */
+    public getMaintainers(): [string, ActorMaintainer][] {
+        const top = this.game.sceneStacker.getTop();
+
+        return top ? top.maintainers ?? [] : this.game.maintenance.maintainers;
+    }
+
+    /**
+     * @returns Mapping of events to their key codes, to their callbacks.
+     */
+    public getTriggers(): TriggerContainer {
+        const top = this.game.sceneStacker.getTop();
+
+        return (top ? top.triggers : this.game.inputs.triggers) ?? {};
+    }
+
+    /**
+     * Sets aside events from scenes below a new top scene and switches to its behavior.
+     *
+     * @param scene   The new top scene.
+     */
+    public enter(scene: GameScene) {
+        this.suspendedEvents.set(scene, this.game.timeHandler.suspendEvents());
+        this.refresh();
+    }
+
+    /**
+     * Cancels a removed scene's events and switches back to the scene below's behavior.
+     *
+     * @param scene   The removed scene.
+     */
+    public exit(scene: GameScene) {
+        const suspended = this.suspendedEvents.get(scene);
+
+        this.game.timeHandler.cancelAllEvents();
+
+        if (suspended) {
+            this.game.timeHandler.resumeEvents(suspended);
+            this.suspendedEvents.delete(scene);
+        }
+
+        this.refresh();
+    }
+
+    /**
+     * Applies the current scene's input triggers and drawing groups.
+     */
+    public refresh() {
+        this.game.inputWriter.setTriggers(this.getTriggers());
+        this.game.pixelDrawer.setActorArrays(
+            this.getGroupNames().map((groupName): Actor[] =>
+                this.game.groupHolder.getGroup(groupName)
+            )
+        );
+    }
+}
@@ -0,0 +1,320 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+
+import { stubHeadlessGame } from "../fakes.test";
+import { ScriptCancellation } from "./Scripts";
+
+const advance = (game: ReturnType<typeof stubHeadlessGame>["game"], ticks: number) => {
+    for (let i = 0; i < ticks; i += 1) {
+        game.timeHandler.advance();
+    }
+};
+
+describe("Scripts", () => {
+    describe("waitFor", () => {
+        it("continues with the value a starter finishes with synchronously", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const finished = sinon.spy();
+            const stop = sinon.spy();
+
+            // Act
+            void game.scripts.run(function* () {
+                finished(
+                    yield* game.scripts.waitFor<number>((finish) => {
+                        finish(7);
+                        return stop;
+                    })
+                );
+            });
+
+            // Assert
+            expect(finished).to.have.been.calledOnceWithExactly(7);
+            expect(stop).to.have.callCount(1);
+        });
+
+        it("stops the wait once it finishes", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const stop = sinon.spy();
+            let finishWait: (value: number) => void = () => undefined;
+
+            void game.scripts.run(function* () {
+                yield* game.scripts.waitFor<number>((finish) => {
+                    finishWait = finish;
+                    return stop;
+                });
+            });
+
+            // Act
+            finishWait(7);
+            finishWait(7);
+
+            // Assert
+            expect(stop).to.have.callCount(1);
+        });
+    });
+
+    describe("waitFrames", () => {
+        it("finishes after the number of ticks", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const finished = sinon.spy();
+
+            // Act
+            void game.scripts.run(function* () {
+                yield* game.scripts.waitFrames(3);
+                finished();
+            });
+            advance(game, 2);
+            const earlyCalls = finished.callCount;
+            advance(game, 1);
+
+            // Assert
+            expect(earlyCalls).to.be.equal(0);
+            expect(finished).to.have.callCount(1);
+        });
+
+        it("finishes immediately for no ticks", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const finished = sinon.spy();
+
+            // Act
+            void game.scripts.run(function* () {
+                yield* game.scripts.waitFrames(0);
+                finished();
+            });
+
+            // Assert
+            expect(finished).to.have.callCount(1);
+        });
+    });
+
+    describe("waitUntil", () => {
+        it("finishes on the first tick the predicate is true", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const finished = sinon.spy();
+            let ready = false;
+
+            void game.scripts.run(function* () {
+                yield* game.scripts.waitUntil(() => ready);
+                finished();
+            });
+            advance(game, 2);
+
+            // Act
+            ready = true;
+            advance(game, 1);
+
+            // Assert
+            expect(finished).to.have.callCount(1);
+        });
+
+        it("stops checking once the predicate is true", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const predicate = sinon.stub().onFirstCall().returns(false).returns(true);
+
+            void game.scripts.run(function* () {
+                yield* game.scripts.waitUntil(predicate);
+            });
+
+            // Act
+            advance(game, 3);
+
+            // Assert
+            expect(predicate).to.have.callCount(2);
+        });
+    });
+
+    describe("waitForEvent", () => {
+        it("finishes with the next published event", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const finished = sinon.spy();
+
+            void game.scripts.run(function* () {
+                finished(yield* game.scripts.waitForEvent("actorAdded"));
+            });
+
+            // Act
+            const actor = game.actors.add("Block");
+
+            // Assert
+            expect(finished).to.have.been.calledOnceWithExactly({ actor });
+        });
+
+        it("skips events the filter rejects", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const finished = sinon.spy();
+
+            void game.scripts.run(function* () {
+                finished(
+                    yield* game.scripts.waitForEvent("actorAdded", ({ actor }) => actor.left > 0)
+                );
+            });
+
+            // Act
+            game.actors.add("Block", 0, 0);
+            const actor = game.actors.add("Block", 32, 0);
+
+            // Assert
+            expect(finished).to.have.been.calledOnceWithExactly({ actor });
+        });
+    });
+
+    describe("cancelAll", () => {
+        it("throws a ScriptCancellation into scripts with unfinished waits", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const caught = sinon.spy();
+
+            void game.scripts.run(function* () {
+                try {
+                    yield* game.scripts.waitFrames(3);
+                } catch (error) {
+                    caught(error);
+                }
+            });
+
+            // Act
+            game.scripts.cancelAll();
+
+            // Assert
+            expect(caught).to.have.been.calledOnceWith(
+                sinon.match.instanceOf(ScriptCancellation)
+            );
+        });
+
+        it("stops unfinished waits from finishing", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const finished = sinon.spy();
+
+            void game.scripts.run(function* () {
+                yield* game.scripts.waitFrames(1);
+                finished();
+            });
+
+            // Act
+            game.scripts.cancelAll();
+            advance(game, 2);
+
+            // Assert
+            expect(finished).to.have.callCount(0);
+        });
+
+        it("is called when a new location is set", async (): Promise<void> => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const result = game.scripts.run(() => game.scripts.waitFrames(3));
+
+            // Act
+            game.maps.setMap("Stub");
+
+            // Assert
+            expect(await result).to.be.equal(false);
+        });
+
+        it("is called when a snapshot is restored", async (): Promise<void> => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.maps.setMap("Stub");
+
+            const snapshot = game.snapshot();
+            const result = game.scripts.run(() => game.scripts.waitFrames(3));
+
+            // Act
+            game.restore(snapshot);
+
+            // Assert
+            expect(await result).to.be.equal(false);
+        });
+    });
+
+    describe("run", () => {
+        it("continues the script during the tick its wait finishes", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const ticks: number[] = [];
+
+            void game.scripts.run(function* () {
+                for (let i = 0; i < 3; i += 1) {
+                    yield* game.scripts.waitFrames(1);
+                    ticks.push(game.timeHandler.getTime());
+                }
+            });
+
+            // Act
+            advance(game, 3);
+
+            // Assert
+            expect(ticks).to.be.deep.equal([1, 2, 3]);
+        });
+
+        it("resolves with true when the script finishes", async (): Promise<void> => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const result = game.scripts.run(function* () {
+                yield* game.scripts.waitFrames(1);
+                yield* game.scripts.waitFrames(1);
+            });
+
+            // Act
+            advance(game, 2);
+
+            // Assert
+            expect(await result).to.be.equal(true);
+        });
+
+        it("resolves awaited waits on the game's clock in async scripts", async (): Promise<void> => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const ticks: number[] = [];
+            const result = game.scripts.run(async () => {
+                await game.scripts.waitFrames(3);
+                ticks.push(game.timeHandler.getTime());
+            });
+
+            // Act
+            advance(game, 3);
+
+            // Assert
+            expect(await result).to.be.equal(true);
+            expect(ticks).to.be.deep.equal([3]);
+        });
+
+        it("resolves with false when an async script's wait is cancelled", async (): Promise<void> => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const result = game.scripts.run(async () => {
+                await game.scripts.waitFrames(3);
+            });
+
+            // Act
+            game.scripts.cancelAll();
+
+            // Assert
+            expect(await result).to.be.equal(false);
+        });
+
+        it("rejects with errors other than cancellations", async (): Promise<void> => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const error = new Error("Oh no!");
+
+            // Act
+            const result = game.scripts.run(function* () {
+                yield* game.scripts.waitFrames(0);
+                throw error;
+            });
+
+            // Assert
+            expect(await result.catch((caught: unknown) => caught)).to.be.equal(error);
+        });
+    });
+});
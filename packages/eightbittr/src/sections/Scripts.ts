@@ -0,0 +1,317 @@
+import { EightBittr } from "../EightBittr";
+import { GameEvents } from "../types";
+import { Section } from "./Section";
+
+/**
+ * Thrown into scripts whose waits are cancelled before they finish.
+ */
+export class ScriptCancellation extends Error {
+    /**
+     * Initializes a new instance of the ScriptCancellation class.
+     */
+    public constructor() {
+        super("Script was cancelled.");
+        this.name = "ScriptCancellation";
+    }
+}
+
+/**
+ * Starts waiting for something.
+ *
+ * @template T   Type of value the wait finishes with.
+ * @param finish   Finishes the wait with a value.
+ * @returns Stops waiting, such as by cancelling an event.
+ */
+export type WaitStarter<T> = (finish: (value: T) => void) => () => void;
+
+/**
+ * Steps of a generator script, each yielding a wait and continuing with the value it finishes with.
+ *
+ * @template T   Type of value the steps return.
+ */
+export type ScriptSteps<T = unknown> = Generator<ScriptWait<unknown>, T>;
+
+/**
+ * @param started   Result of starting a script.
+ * @returns Whether the script is a generator script.
+ */
+const isScriptSteps = (started: PromiseLike<unknown> | ScriptSteps): started is ScriptSteps =>
+    typeof (started as Partial<ScriptSteps>).next === "function";
+
+/**
+ * How a wait ended.
+ *
+ * @template T   Type of value the wait finishes with.
+ */
+type WaitOutcome<T> = { cancelled: true } | { cancelled: false; value: T };
+
+/**
+ * A wait on the game's own clock or events, for either async or generator scripts.
+ *
+ * @template T   Type of value the wait finishes with.
+ * @remarks Awaiting a wait continues its script in a microtask after it finishes, while
+ *          delegating to it with yield* continues its script synchronously.
+ */
+export class ScriptWait<T> implements PromiseLike<T> {
+    /**
+     * Callbacks for when the wait finishes or is cancelled.
+     */
+    private readonly listeners: [(value: T) => void, () => void][] = [];
+
+    /**
+     * How the wait ended, once it has.
+     */
+    private outcome?: WaitOutcome<T>;
+
+    /**
+     * Initializes a new instance of the ScriptWait class.
+     *
+     * @param executor   Starts the wait with callbacks to finish or cancel it.
+     */
+    public constructor(executor: (finish: (value: T) => void, cancel: () => void) => void) {
+        executor(
+            (value) => this.settle({ cancelled: false, value }),
+            () => this.settle({ cancelled: true })
+        );
+    }
+
+    /**
+     * Calls back synchronously once the wait finishes or is cancelled, or immediately if it already has.
+     *
+     * @param onFinish   Called with the value the wait finishes with.
+     * @param onCancel   Called if the wait is cancelled.
+     */
+    public onSettled(onFinish: (value: T) => void, onCancel: () => void): void {
+        if (!this.outcome) {
+            this.listeners.push([onFinish, onCancel]);
+        } else if (this.outcome.cancelled) {
+            onCancel();
+        } else {
+            onFinish(this.outcome.value);
+        }
+    }
+
+    /**
+     * Continues with the value the wait finishes with, or a ScriptCancellation if it's cancelled.
+     *
+     * @param onFinished   Called with the value the wait finishes with.
+     * @param onRejected   Called with a ScriptCancellation if the wait is cancelled.
+     * @returns A Promise for the result of whichever callback is called.
+     */
+    public then<TFinished = T, TRejected = never>(
+        onFinished?: ((value: T) => TFinished | PromiseLike<TFinished>) | null,
+        onRejected?: ((reason: unknown) => TRejected | PromiseLike<TRejected>) | null
+    ): Promise<TFinished | TRejected> {
+        return new Promise<T>((resolve, reject) => {
+            this.onSettled(resolve, () => reject(new ScriptCancellation()));
+        }).then(onFinished, onRejected);
+    }
+
+    /**
+     * Yields the wait to a generator script's run, continuing with the value it finishes with.
+     *
+     * @returns Steps that finish with the wait's value.
+     */
+    public *[Symbol.iterator](): Generator<ScriptWait<T>, T> {
+        return (yield this) as T;
+    }
+
+    /**
+     * Records how the wait ended and calls back its listeners, if it hadn't ended yet.
+     *
+     * @param outcome   How the wait ended.
+     */
+    private settle(outcome: WaitOutcome<T>): void {
+        if (this.outcome) {
+            return;
+        }
+
+        this.outcome = outcome;
+
+        for (const [onFinish, onCancel] of this.listeners.splice(0)) {
+            if (outcome.cancelled) {
+                onCancel();
+            } else {
+                onFinish(outcome.value);
+            }
+        }
+    }
+}
+
+/**
+ * Waits on the game's own clock and events, for game scripts.
+ */
+export class Scripts<Game extends EightBittr> extends Section<Game> {
+    /**
+     * Stops and cancels each unfinished wait.
+     */
+    private readonly cancellers = new Set<() => void>();
+
+    /**
+     * Runs a script, treating cancellation as an early finish.
+     *
+     * @param script   Async or generator script that uses waits from this section.
+     * @returns A Promise for whether the script finished without being cancelled.
+     * @remarks Generator scripts continue synchronously as their waits finish, during the game tick.
+     *          Async scripts continue in microtasks, after the call that ran the tick returns.
+     */
+    public run(script: () => PromiseLike<unknown> | ScriptSteps): Promise<boolean> {
+        return new Promise<boolean>((resolve, reject) => {
+            const onError = (error: unknown) => {
+                if (error instanceof ScriptCancellation) {
+                    resolve(false);
+                } else {
+                    reject(error);
+                }
+            };
+            let started: PromiseLike<unknown> | ScriptSteps;
+
+            try {
+                started = script();
+            } catch (error) {
+                onError(error);
+                return;
+            }
+
+            if (!isScriptSteps(started)) {
+                started.then(() => resolve(true), onError);
+                return;
+            }
+
+            const steps = started;
+            const step = (next: () => IteratorResult<ScriptWait<unknown>>) => {
+                let result: IteratorResult<ScriptWait<unknown>>;
+
+                try {
+                    result = next();
+                } catch (error) {
+                    onError(error);
+                    return;
+                }
+
+                if (result.done) {
+                    resolve(true);
+                    return;
+                }
+
+                result.value.onSettled(
+                    (value) => step(() => steps.next(value)),
+                    () => step(() => steps.throw(new ScriptCancellation()))
+                );
+            };
+
+            step(() => steps.next());
+        });
+    }
+
+    /**
+     * Starts a wait that can be cancelled by cancelAll.
+     *
+     * @param start   Starts waiting for something.
+     * @returns The started wait.
+     * @remarks The starter may finish the wait synchronously, in which case it's stopped right after starting.
+     */
+    public waitFor<T>(start: WaitStarter<T>): ScriptWait<T> {
+        return new ScriptWait<T>((finish, cancelWait) => {
+            // Starters may finish synchronously, before they return how to stop
+            let stop: () => void = () => undefined;
+
+            const cancel = () => {
+                this.cancellers.delete(cancel);
+                stop();
+                cancelWait();
+            };
+
+            this.cancellers.add(cancel);
+
+            stop = start((value) => {
+                if (this.cancellers.delete(cancel)) {
+                    stop();
+                    finish(value);
+                }
+            });
+
+            if (!this.cancellers.has(cancel)) {
+                stop();
+            }
+        });
+    }
+
+    /**
+     * Waits for a number of game ticks.
+     *
+     * @param frames   How many ticks to wait.
+     * @returns A wait that finishes once the ticks have passed.
+     */
+    public waitFrames(frames: number): ScriptWait<undefined> {
+        if (frames < 1) {
+            return new ScriptWait((finish) => finish(undefined));
+        }
+
+        return this.waitFor((finish) => {
+            const event = this.game.timeHandler.addEvent(() => finish(undefined), frames);
+
+            return () => this.game.timeHandler.cancelEvent(event);
+        });
+    }
+
+    /**
+     * Waits until a predicate is true, checking once per game tick.
+     *
+     * @param predicate   Checks whether to finish waiting.
+     * @returns A wait that finishes once the predicate is true.
+     */
+    public waitUntil(predicate: () => boolean): ScriptWait<undefined> {
+        if (predicate()) {
+            return new ScriptWait((finish) => finish(undefined));
+        }
+
+        return this.waitFor((finish) => {
+            const event = this.game.timeHandler.addEventInterval(
+                () => {
+                    if (predicate()) {
+                        finish(undefined);
+                        return true;
+                    }
+
+                    return false;
+                },
+                1,
+                Infinity
+            );
+
+            return () => this.game.timeHandler.cancelEvent(event);
+        });
+    }
+
+    /**
+     * Waits for the game to publish an event.
+     *
+     * @param name   Name of the event.
+     * @param filter   Checks whether an event should finish the wait (by default, any does).
+     * @returns A wait that finishes with the published event.
+     */
+    public waitForEvent<Name extends keyof GameEvents>(
+        name: Name,
+        filter?: (event: GameEvents[Name]) => boolean
+    ): ScriptWait<GameEvents[Name]> {
+        return this.waitFor((finish) =>
+            this.game.eventPublisher.subscribe(name, (event) => {
+                if (!filter || filter(event)) {
+                    finish(event);
+                }
+            })
+        );
+    }
+
+    /**
+     * Cancels each unfinished wait, throwing a ScriptCancellation into its script.
+     *
+     * @remarks This is called when a new location is set or a snapshot is restored.
+     */
+    public cancelAll(): void {
+        for (const cancel of [...this.cancellers]) {
+            cancel();
+        }
+    }
+}
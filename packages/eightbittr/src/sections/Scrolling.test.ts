@@ -0,0 +1,44 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+
+import { stubHeadlessGame } from "../fakes.test";
+
+describe("Scrolling", () => {
+    describe("scrollWindow", () => {
+        it("publishes quadrant events when scrolling past a quadrant", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const onEnter = sinon.spy();
+            const onLeave = sinon.spy();
+
+            game.maps.setMap("Stub");
+            game.eventPublisher.subscribe("quadrantEnter", onEnter);
+            game.eventPublisher.subscribe("quadrantLeave", onLeave);
+
+            // Act
+            game.scrolling.scrollWindow(game.quadsKeeper.getQuadrantWidth() + 1, 0);
+
+            // Assert
+            expect([onEnter.callCount, onLeave.callCount]).to.be.deep.equal([1, 1]);
+        });
+
+        it("doesn't duplicate Actors when scrolling away and back", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.maps.setMap("Stub");
+
+            // Act
+            for (let i = 0; i < 60; i += 1) {
+                game.scrolling.scrollWindow(16, 0);
+            }
+
+            for (let i = 0; i < 60; i += 1) {
+                game.scrolling.scrollWindow(-16, 0);
+            }
+
+            // Assert
+            expect(game.groupHolder.getGroup("Solid")).to.have.length(2);
+        });
+    });
+});
@@ -0,0 +1,245 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+
+import { stubHeadlessGame, stubInterval } from "../fakes.test";
+import { Actor } from "../types";
+import { GameSnapshot } from "./Snapshots";
+
+const setupMapGame = () => {
+    const stub = stubHeadlessGame();
+
+    stub.game.maps.setMap("Stub");
+    stub.game.frameTicker.play();
+
+    return stub;
+};
+
+describe("Snapshots", () => {
+    describe("restore", () => {
+        it("restores Actor positions", (): void => {
+            // Arrange
+            const { game, timing } = setupMapGame();
+            const [actor]: Actor[] = game.groupHolder.getGroup("Solid");
+            const snapshot = game.snapshot();
+
+            timing.tick(stubInterval);
+
+            // Act
+            game.restore(snapshot);
+
+            // Assert
+            expect(actor).to.include({ left: 1, right: 17 });
+        });
+
+        it("removes Actors added after the snapshot", (): void => {
+            // Arrange
+            const { game } = setupMapGame();
+            const snapshot = game.snapshot();
+
+            game.actors.add("Block", 64, 0);
+
+            // Act
+            game.restore(snapshot);
+
+            // Assert
+            expect(game.groupHolder.getGroup("Solid")).to.have.length(2);
+        });
+
+        it("re-adds Actors removed after the snapshot", (): void => {
+            // Arrange
+            const { game } = setupMapGame();
+            const [actor]: Actor[] = game.groupHolder.getGroup("Solid");
+            const snapshot = game.snapshot();
+
+            game.death.kill(actor);
+
+            // Act
+            game.restore(snapshot);
+
+            // Assert
+            expect(game.groupHolder.getGroup("Solid")).to.include(actor);
+        });
+
+        it("takes re-added Actors back out of their pools", (): void => {
+            // Arrange
+            const { game, timing } = setupMapGame();
+            const [actor]: Actor[] = game.groupHolder.getGroup("Solid");
+            const snapshot = game.snapshot();
+
+            game.objectMaker.setPoolSize("Block", 1);
+            game.death.kill(actor);
+            timing.tick(stubInterval);
+            game.restore(snapshot);
+
+            // Act
+            const added = game.actors.add("Block");
+
+            // Assert
+            expect(added).to.not.be.equal(actor);
+        });
+
+        it("restores nested Actor data modified after the snapshot", (): void => {
+            // Arrange
+            const { game } = setupMapGame();
+            const [actor]: Actor[] = game.groupHolder.getGroup("Solid");
+
+            (actor as Actor & { path: number[] }).path = [1, 2];
+
+            const snapshot = game.snapshot();
+
+            (actor as Actor & { path: number[] }).path.push(3);
+
+            // Act
+            game.restore(snapshot);
+
+            // Assert
+            expect(actor).to.have.deep.property("path", [1, 2]);
+        });
+
+        it("restores pending events", (): void => {
+            // Arrange
+            const { game, timing } = setupMapGame();
+            const callback = sinon.spy();
+
+            game.timeHandler.addEvent(callback, 2);
+
+            const snapshot = game.snapshot();
+
+            timing.tick(stubInterval);
+            timing.tick(stubInterval);
+            game.restore(snapshot);
+
+            // Act
+            timing.tick(stubInterval);
+            timing.tick(stubInterval);
+
+            // Assert
+            expect(callback).to.have.callCount(2);
+        });
+
+        it("restores the screen position", (): void => {
+            // Arrange
+            const { game } = setupMapGame();
+            const snapshot = game.snapshot();
+
+            game.mapScreener.shift(7, 14);
+
+            // Act
+            game.restore(snapshot);
+
+            // Assert
+            expect(game.mapScreener).to.include({ left: 0, top: 0 });
+        });
+
+        it("restores item values", (): void => {
+            // Arrange
+            const { game } = setupMapGame();
+
+            game.itemsHolder.setItem("score", 1);
+
+            const snapshot = game.snapshot();
+
+            game.itemsHolder.setItem("score", 2);
+
+            // Act
+            game.restore(snapshot);
+
+            // Assert
+            expect(game.itemsHolder.getItem("score")).to.be.equal(1);
+        });
+
+        it("restores the current location", (): void => {
+            // Arrange
+            const { game } = setupMapGame();
+            const location = game.areaSpawner.getLocationEntered();
+            const snapshot = game.snapshot();
+
+            game.maps.setMap("Stub", "Start");
+
+            // Act
+            game.restore(snapshot);
+
+            // Assert
+            expect(game.areaSpawner.getLocationEntered()).to.be.equal(location);
+        });
+
+        it("restores Actors from a serialized snapshot", (): void => {
+            // Arrange
+            const { game, timing } = setupMapGame();
+            const [actor]: Actor[] = game.groupHolder.getGroup("Solid");
+            const snapshot = JSON.parse(JSON.stringify(game.snapshot())) as GameSnapshot;
+
+            timing.tick(stubInterval);
+
+            // Act
+            game.restore(snapshot);
+
+            // Assert
+            expect(actor).to.include({ left: 1, right: 17 });
+        });
+
+        it("restores references between Actors from a serialized snapshot", (): void => {
+            // Arrange
+            const { game } = setupMapGame();
+            const [parent, child]: Actor[] = game.groupHolder.getGroup("Solid");
+
+            game.actors.attach(parent, child);
+
+            const snapshot = JSON.parse(JSON.stringify(game.snapshot())) as GameSnapshot;
+
+            game.actors.detach(child);
+
+            // Act
+            game.restore(snapshot);
+
+            // Assert
+            expect(child.parent).to.be.equal(parent);
+        });
+
+        it("restores non-finite numbers from a serialized snapshot", (): void => {
+            // Arrange
+            const { game } = setupMapGame();
+
+            game.itemsHolder.setItem("best", Infinity);
+
+            const snapshot = JSON.parse(JSON.stringify(game.snapshot())) as GameSnapshot;
+
+            // Act
+            game.restore(snapshot);
+
+            // Assert
+            expect(game.itemsHolder.getItem("best")).to.be.equal(Infinity);
+        });
+
+        it("makes new Actors when restoring a serialized snapshot in a new game", (): void => {
+            // Arrange
+            const { game } = setupMapGame();
+            const snapshot = JSON.parse(JSON.stringify(game.snapshot())) as GameSnapshot;
+            const { game: newGame } = stubHeadlessGame();
+
+            // Act
+            newGame.restore(snapshot);
+
+            // Assert
+            expect(
+                newGame.groupHolder.getGroup("Solid").map((actor: Actor) => actor.left)
+            ).to.be.deep.equal([1, 33]);
+        });
+
+        it("keeps Actor properties that can't be serialized", (): void => {
+            // Arrange
+            const { game } = setupMapGame();
+            const [actor]: Actor[] = game.groupHolder.getGroup("Solid");
+            const onHit = sinon.spy();
+            const snapshot = game.snapshot();
+
+            (actor as Actor & { onHit: () => void }).onHit = onHit;
+
+            // Act
+            game.restore(snapshot);
+
+            // Assert
+            expect(actor).to.have.property("onHit", onHit);
+        });
+    });
+});
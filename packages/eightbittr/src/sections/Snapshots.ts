@@ -0,0 +1,634 @@
+import { AreaSpawnrSnapshot } from "areaspawnr";
+import { TimeHandlrSnapshot } from "timehandlr";
+
+import { EightBittr } from "../EightBittr";
+import { Actor } from "../types";
+import { RegionsSnapshot } from "./Regions";
+import { Section } from "./Section";
+
+/**
+ * Serializable value saved in a snapshot.
+ *
+ * @remarks Actors are saved as { $actor: id }, and non-finite numbers as { $number: "Infinity" }.
+ */
+export type SnapshotValue =
+    | boolean
+    | number
+    | string
+    | null
+    | SnapshotValue[]
+    | { [key: string]: SnapshotValue };
+
+/**
+ * Saved state of an Actor's own properties.
+ */
+export interface ActorSnapshot {
+    /**
+     * Identifier of the Actor within its game.
+     */
+    id: number;
+
+    /**
+     * Own properties of the Actor whose values could be saved.
+     */
+    properties: Record<string, SnapshotValue>;
+}
+
+/**
+ * Saved state of a MapScreenr's position and variables.
+ */
+export interface MapScreenerSnapshot {
+    /**
+     * Bottom boundary of the screen.
+     */
+    bottom: number;
+
+    /**
+     * Left boundary of the screen.
+     */
+    left: number;
+
+    /**
+     * Horizontal midpoint of the screen.
+     */
+    middleX: number;
+
+    /**
+     * Vertical midpoint of the screen.
+     */
+    middleY: number;
+
+    /**
+     * Right boundary of the screen.
+     */
+    right: number;
+
+    /**
+     * Top boundary of the screen.
+     */
+    top: number;
+
+    /**
+     * Area attributes and user-configured variables whose values could be saved.
+     */
+    variables: Record<string, SnapshotValue>;
+}
+
+/**
+ * Saved state of a game, to be restored later.
+ *
+ * @remarks Snapshots are plain data, so they may be serialized.
+ */
+export interface GameSnapshot {
+    /**
+     * Saved own properties of each Actor in a group.
+     */
+    actors: ActorSnapshot[];
+
+    /**
+     * Current map, location, and spawned PreActors.
+     */
+    areaSpawner: AreaSpawnrSnapshot;
+
+    /**
+     * Pairs of Actor identifiers that were colliding, as [actor, other].
+     */
+    contacts: [number, number][];
+
+    /**
+     * Actor identifiers in each group, in their group order.
+     */
+    groups: Record<string, number[]>;
+
+    /**
+     * Stored item values, keyed by item name.
+     */
+    items: Record<string, SnapshotValue>;
+
+    /**
+     * Screen position and variables.
+     */
+    mapScreener: MapScreenerSnapshot;
+
+    /**
+     * Identifiers of spawned PreActors' Actors, in the order of areaSpawner's spawned indices.
+     */
+    preActors: Record<string, number[]>;
+
+    /**
+     * Actors within each region of the current Area.
+     */
+    regions: RegionsSnapshot;
+
+    /**
+     * Current time and scheduled events.
+     */
+    timeHandler: TimeHandlrSnapshot;
+}
+
+/**
+ * Identifier given to an Actor, for the pooling generation it was given in.
+ */
+interface ActorIdentity {
+    /**
+     * Pooling generation of the Actor when it was given the identifier.
+     */
+    generation: number;
+
+    /**
+     * Identifier of the Actor within its game.
+     */
+    id: number;
+}
+
+/**
+ * Actor properties that aren't saved, as they're determined again after restoring.
+ */
+const skippedActorProperties = new Set(["quadrants"]);
+
+/**
+ * @param value   Any value.
+ * @returns Whether the value is an object created as a literal or without a prototype.
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+    if (typeof value !== "object" || value === null) {
+        return false;
+    }
+
+    const prototype: unknown = Object.getPrototypeOf(value);
+
+    return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Saves and restores snapshots of full game state.
+ */
+export class Snapshots<Game extends EightBittr> extends Section<Game> {
+    /**
+     * Identifiers given to Actors, keyed by Actor.
+     */
+    private readonly actorIdentities = new WeakMap<Actor, ActorIdentity>();
+
+    /**
+     * Actors given identifiers, keyed by identifier.
+     */
+    private readonly actorsById = new Map<number, WeakRef<Actor>>();
+
+    /**
+     * Actors saved in each snapshot, so they stay in memory for as long as the snapshot does.
+     */
+    private readonly snapshotActors = new WeakMap<GameSnapshot, Actor[]>();
+
+    /**
+     * Most recently given Actor identifier.
+     */
+    private lastActorId = 0;
+
+    /**
+     * Gets the identifier of an Actor, giving it a new one if it doesn't yet have one.
+     *
+     * @param actor   An Actor in the game.
+     * @returns Identifier of the Actor within the game.
+     * @remarks An Actor reused from its pool is given a new identifier.
+     */
+    public getActorId(actor: Actor): number {
+        const generation = this.game.objectMaker.getGeneration(actor);
+        const identity = this.actorIdentities.get(actor);
+
+        if (identity?.generation === generation) {
+            return identity.id;
+        }
+
+        this.lastActorId += 1;
+        this.setActorId(actor, this.lastActorId);
+
+        return this.lastActorId;
+    }
+
+    /**
+     * @param id   Identifier of an Actor within the game.
+     * @returns The Actor with that identifier, if it's still in memory and hasn't been reused.
+     */
+    public findActor(id: number): Actor | undefined {
+        const actor = this.actorsById.get(id)?.deref();
+
+        if (!actor) {
+            return undefined;
+        }
+
+        const identity = this.actorIdentities.get(actor);
+
+        return identity?.id === id &&
+            identity.generation === this.game.objectMaker.getGeneration(actor)
+            ? actor
+            : undefined;
+    }
+
+    /**
+     * Saves the full state of the game.
+     *
+     * @returns Saved state to later pass to restore.
+     * @remarks Values that can't be serialized, such as functions and class instances, aren't saved.
+     */
+    public create(): GameSnapshot {
+        const grouped = new Set<Actor>();
+        const groups: Record<string, number[]> = {};
+
+        for (const groupName of this.game.groups.groupNames) {
+            const actors: Actor[] = this.game.groupHolder.getGroup(groupName);
+
+            groups[groupName] = actors.map((actor) => this.getActorId(actor));
+
+            for (const actor of actors) {
+                grouped.add(actor);
+            }
+        }
+
+        const snapshot: GameSnapshot = {
+            actors: [...grouped].map((actor) => ({
+                id: this.getActorId(actor),
+                properties: this.saveProperties(actor, grouped, skippedActorProperties),
+            })),
+            areaSpawner: this.game.areaSpawner.createSnapshot(),
+            contacts: this.game.actorHitter
+                .createSnapshot()
+                .contacts.filter(
+                    ([actor, other]) => grouped.has(actor as Actor) && grouped.has(other as Actor)
+                )
+                .map(([actor, other]) => [
+                    this.getActorId(actor as Actor),
+                    this.getActorId(other as Actor),
+                ]),
+            groups,
+            items: this.saveProperties(this.game.itemsHolder.exportItems() as object, grouped),
+            mapScreener: {
+                bottom: this.game.mapScreener.bottom,
+                left: this.game.mapScreener.left,
+                middleX: this.game.mapScreener.middleX,
+                middleY: this.game.mapScreener.middleY,
+                right: this.game.mapScreener.right,
+                top: this.game.mapScreener.top,
+                variables: this.saveProperties(this.game.mapScreener.variables, grouped),
+            },
+            preActors: this.savePreActors(),
+            regions: this.game.regions.createSnapshot(),
+            timeHandler: this.game.timeHandler.createSnapshot(),
+        };
+
+        this.snapshotActors.set(snapshot, [...grouped]);
+
+        return snapshot;
+    }
+
+    /**
+     * Restores the full state of the game from a snapshot.
+     *
+     * @param snapshot   Saved state from create.
+     * @remarks Unfinished script waits are cancelled first, and the saved location is set if it isn't current.
+     *          Saved Actors no longer in memory, such as after reloading the page, are made again.
+     */
+    public restore(snapshot: GameSnapshot): void {
+        this.game.scripts.cancelAll();
+
+        const { locationName, mapName } = snapshot.areaSpawner;
+
+        if (
+            this.game.areaSpawner.getMapName() !== mapName ||
+            // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+            this.game.areaSpawner.getLocationEntered()?.name !== locationName
+        ) {
+            this.game.maps.setMap(mapName, locationName);
+        }
+
+        const restored = this.restoreActors(snapshot);
+
+        this.game.quadsKeeper.clearActors();
+        this.game.actorHitter.restoreSnapshot({
+            contacts: snapshot.contacts.map(([actor, other]) => [
+                this.getRestoredActor(actor),
+                this.getRestoredActor(other),
+            ]),
+        });
+        this.restoreItems(snapshot.items);
+        this.game.areaSpawner.restoreSnapshot(snapshot.areaSpawner);
+        this.restorePreActors(snapshot);
+        this.restoreMapScreener(snapshot.mapScreener, restored);
+        this.game.regions.restoreSnapshot(snapshot.regions);
+        this.game.timeHandler.restoreSnapshot(snapshot.timeHandler);
+    }
+
+    /**
+     * Restores Actors to their saved groups and properties.
+     *
+     * @param snapshot   Saved state from create.
+     * @returns The restored Actors.
+     */
+    private restoreActors(snapshot: GameSnapshot): Set<Actor> {
+        this.game.groupHolder.clear();
+
+        const actors = snapshot.actors.map(({ id, properties }) => {
+            let actor = this.findActor(id);
+
+            if (actor) {
+                this.game.objectMaker.reclaim(actor);
+            } else {
+                actor = this.game.objectMaker.make<Actor>(properties.title as string);
+                this.setActorId(actor, id);
+                this.lastActorId = Math.max(this.lastActorId, id);
+            }
+
+            return actor;
+        });
+
+        const restored = new Set(actors);
+
+        snapshot.actors.forEach(({ properties }, i) => {
+            const actor = actors[i];
+
+            this.restoreProperties(
+                actor as unknown as Record<string, unknown>,
+                properties,
+                restored,
+                skippedActorProperties
+            );
+            this.game.actorHitter.cacheChecksForType(actor.groupType, actor.title);
+        });
+
+        for (const groupName in snapshot.groups) {
+            if ({}.hasOwnProperty.call(snapshot.groups, groupName)) {
+                for (const id of snapshot.groups[groupName]) {
+                    this.game.groupHolder.addToGroup(this.getRestoredActor(id), groupName);
+                }
+            }
+        }
+
+        return restored;
+    }
+
+    /**
+     * Restores stored items to their saved values.
+     *
+     * @param items   Saved item values, keyed by item name.
+     */
+    private restoreItems(items: Record<string, SnapshotValue>): void {
+        for (let i = this.game.itemsHolder.length - 1; i >= 0; i -= 1) {
+            const key = this.game.itemsHolder.key(i);
+
+            if (!{}.hasOwnProperty.call(items, key)) {
+                this.game.itemsHolder.removeItem(key);
+            }
+        }
+
+        for (const key in items) {
+            if ({}.hasOwnProperty.call(items, key)) {
+                this.game.itemsHolder.setItem(key, this.loadValue(items[key]));
+            }
+        }
+    }
+
+    /**
+     * Restores the screen's position and variables.
+     *
+     * @param mapScreener   Saved screen state.
+     * @param restored   Restored Actors, which may be referenced.
+     */
+    private restoreMapScreener(
+        { variables, ...position }: MapScreenerSnapshot,
+        restored: Set<Actor>
+    ): void {
+        Object.assign(this.game.mapScreener, position);
+
+        this.restoreProperties(this.game.mapScreener.variables, variables, restored);
+    }
+
+    /**
+     * Relinks spawned PreActors to their restored Actors.
+     *
+     * @param snapshot   Saved state from create.
+     * @remarks PreActors are recreated when the saved location isn't current, with new Actors.
+     */
+    private restorePreActors(snapshot: GameSnapshot): void {
+        const preActors = this.game.areaSpawner.getPreActors();
+
+        for (const groupName in snapshot.preActors) {
+            if ({}.hasOwnProperty.call(snapshot.preActors, groupName)) {
+                const indices = snapshot.areaSpawner.spawned[groupName];
+
+                snapshot.preActors[groupName].forEach((id, i) => {
+                    const actor = this.findActor(id);
+
+                    if (actor) {
+                        preActors[groupName].xInc[indices[i]].actor = actor;
+                    }
+                });
+            }
+        }
+    }
+
+    /**
+     * @returns Identifiers of spawned PreActors' Actors, in the order of the AreaSpawnr's spawned indices.
+     */
+    private savePreActors(): Record<string, number[]> {
+        const preActors = this.game.areaSpawner.getPreActors();
+        const saved: Record<string, number[]> = {};
+
+        for (const groupName in preActors) {
+            if ({}.hasOwnProperty.call(preActors, groupName)) {
+                saved[groupName] = preActors[groupName].xInc
+                    .filter((preActor) => preActor.spawned)
+                    .map((preActor) => this.getActorId(preActor.actor as Actor));
+            }
+        }
+
+        return saved;
+    }
+
+    /**
+     * Saves an object's own properties whose values can be serialized.
+     *
+     * @param source   Object to save the properties of.
+     * @param grouped   Actors being saved, which may be referenced.
+     * @param skipped   Property names not to save.
+     * @returns Saved properties.
+     */
+    private saveProperties(
+        source: object,
+        grouped: Set<Actor>,
+        skipped = new Set<string>()
+    ): Record<string, SnapshotValue> {
+        const saved: Record<string, SnapshotValue> = {};
+
+        for (const [key, value] of Object.entries(source)) {
+            if (skipped.has(key)) {
+                continue;
+            }
+
+            const savedValue = this.saveValue(value, grouped);
+
+            if (savedValue !== undefined) {
+                saved[key] = savedValue;
+            }
+        }
+
+        return saved;
+    }
+
+    /**
+     * Converts a value into serializable data.
+     *
+     * @param value   Any value.
+     * @param grouped   Actors being saved, which may be referenced.
+     * @returns Serializable data for the value, or undefined if it can't be serialized.
+     */
+    private saveValue(value: unknown, grouped: Set<Actor>): SnapshotValue | undefined {
+        switch (typeof value) {
+            case "boolean":
+            case "string":
+                return value;
+
+            case "number":
+                return isFinite(value) ? value : { $number: String(value) };
+
+            case "object":
+                break;
+
+            default:
+                return undefined;
+        }
+
+        if (value === null) {
+            return null;
+        }
+
+        if (grouped.has(value as Actor)) {
+            return { $actor: this.getActorId(value as Actor) };
+        }
+
+        if (value instanceof Array) {
+            const saved: SnapshotValue[] = [];
+
+            for (const member of value) {
+                const savedMember = this.saveValue(member, grouped);
+
+                if (savedMember === undefined) {
+                    return undefined;
+                }
+
+                saved.push(savedMember);
+            }
+
+            return saved;
+        }
+
+        if (!isPlainObject(value)) {
+            return undefined;
+        }
+
+        const saved: Record<string, SnapshotValue> = {};
+
+        for (const [key, member] of Object.entries(value)) {
+            const savedMember = this.saveValue(member, grouped);
+
+            if (savedMember === undefined) {
+                return undefined;
+            }
+
+            saved[key] = savedMember;
+        }
+
+        return saved;
+    }
+
+    /**
+     * Restores an object's saved properties, and deletes other properties that could have been saved.
+     *
+     * @param target   Object to restore the properties of.
+     * @param saved   Saved properties.
+     * @param restored   Restored Actors, which may be referenced.
+     * @param skipped   Property names not to change.
+     * @remarks Properties whose values can't be serialized, such as functions, are kept.
+     */
+    private restoreProperties(
+        target: Record<string, unknown>,
+        saved: Record<string, SnapshotValue>,
+        restored: Set<Actor>,
+        skipped = new Set<string>()
+    ): void {
+        for (const key of Object.keys(target)) {
+            if (
+                !skipped.has(key) &&
+                !{}.hasOwnProperty.call(saved, key) &&
+                this.saveValue(target[key], restored) !== undefined
+            ) {
+                // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+                delete target[key];
+            }
+        }
+
+        for (const key in saved) {
+            if ({}.hasOwnProperty.call(saved, key)) {
+                target[key] = this.loadValue(saved[key]);
+            }
+        }
+    }
+
+    /**
+     * Converts serializable data back into a value.
+     *
+     * @param saved   Serializable data from saveValue.
+     * @returns The saved value, with Actors restored by their identifiers.
+     */
+    private loadValue(saved: SnapshotValue): unknown {
+        if (saved instanceof Array) {
+            return saved.map((member) => this.loadValue(member));
+        }
+
+        if (typeof saved !== "object" || saved === null) {
+            return saved;
+        }
+
+        if (typeof saved.$actor === "number") {
+            return this.getRestoredActor(saved.$actor);
+        }
+
+        if (typeof saved.$number === "string") {
+            return Number(saved.$number);
+        }
+
+        const value: Record<string, unknown> = {};
+
+        for (const [key, member] of Object.entries(saved)) {
+            value[key] = this.loadValue(member);
+        }
+
+        return value;
+    }
+
+    /**
+     * @param id   Identifier of a restored Actor.
+     * @returns The restored Actor with that identifier.
+     */
+    private getRestoredActor(id: number): Actor {
+        const actor = this.findActor(id);
+
+        if (!actor) {
+            throw new Error(`Unknown snapshot Actor identifier: '${id}'.`);
+        }
+
+        return actor;
+    }
+
+    /**
+     * Gives an Actor an identifier for its current pooling generation.
+     *
+     * @param actor   An Actor in the game.
+     * @param id   Identifier for the Actor.
+     */
+    private setActorId(actor: Actor, id: number): void {
+        this.actorIdentities.set(actor, {
+            generation: this.game.objectMaker.getGeneration(actor),
+            id,
+        });
+        this.actorsById.set(id, new WeakRef(actor));
+    }
+}
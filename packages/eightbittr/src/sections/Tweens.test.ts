@@ -0,0 +1,144 @@
+import { expect } from "chai";
+
+import { stubHeadlessGame } from "../fakes.test";
+
+describe("Tweens", () => {
+    describe("tween", () => {
+        it("tweens a property from its current value", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const actor = game.actors.add("Block");
+
+            actor.opacity = 1;
+
+            // Act
+            game.tweens.tween(actor, "opacity", 0, { duration: 4 });
+            game.timeHandler.advance();
+
+            // Assert
+            expect(actor.opacity).to.be.equal(0.75);
+        });
+
+        it("tweens a property from a given value", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const actor = game.actors.add("Block");
+
+            // Act
+            game.tweens.tween(actor, "xVelocity", 10, { duration: 2, from: 4 });
+            game.timeHandler.advance();
+
+            // Assert
+            expect(actor.xVelocity).to.be.equal(7);
+        });
+
+        it("moves an Actor's position through Physics", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const actor = game.actors.add("Block", 0, 0);
+
+            // Act
+            game.tweens.tween(actor, "left", 8, { duration: 2 });
+            game.timeHandler.advance();
+
+            // Assert
+            expect(actor).to.include({ left: 4, right: 20 });
+        });
+
+        it("marks the Actor as changed", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const actor = game.actors.add("Block");
+
+            game.tweens.tween(actor, "xVelocity", 10, { duration: 2 });
+            actor.changed = false;
+
+            // Act
+            game.timeHandler.advance();
+
+            // Assert
+            expect(actor.changed).to.be.equal(true);
+        });
+
+        it("cancels the tween once the Actor is removed", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const actor = game.actors.add("Block");
+
+            actor.opacity = 1;
+
+            const tween = game.tweens.tween(actor, "opacity", 0, { duration: 4 });
+
+            game.death.kill(actor);
+
+            // Act
+            game.timeHandler.advance();
+
+            // Assert
+            expect(tween.getState()).to.be.equal("cancelled");
+            expect(actor.opacity).to.be.equal(1);
+        });
+
+        it("cancels the tween once the Actor is reused from its pool", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+
+            game.objectMaker.setPoolSize("Block", 1);
+
+            const actor = game.actors.add("Block");
+            const tween = game.tweens.tween(actor, "opacity", 0, { duration: 4 });
+
+            game.death.kill(actor);
+            game.death.releaseRemoved();
+
+            const reused = game.actors.add("Block");
+
+            reused.opacity = 1;
+
+            // Act
+            game.timeHandler.advance();
+
+            // Assert
+            expect(reused).to.be.equal(actor);
+            expect(tween.getState()).to.be.equal("cancelled");
+            expect(reused.opacity).to.be.equal(1);
+        });
+
+        it("doesn't progress while frames are paused", (): void => {
+            // Arrange
+            const { game, timing } = stubHeadlessGame();
+            const actor = game.actors.add("Block");
+
+            actor.opacity = 1;
+            game.maps.setMap("Stub");
+            game.tweens.tween(actor, "opacity", 0, { duration: 4 });
+
+            // Act
+            timing.tick(100);
+
+            // Assert
+            expect(actor.opacity).to.be.equal(1);
+        });
+    });
+
+    describe("createSettings", () => {
+        it("reads the starting value when the chained tween starts", (): void => {
+            // Arrange
+            const { game } = stubHeadlessGame();
+            const actor = game.actors.add("Block");
+
+            actor.opacity = 1;
+
+            game.tweens
+                .tween(actor, "opacity", 0.5, { duration: 1 })
+                .chain(game.tweens.createSettings(actor, "opacity", 0, { duration: 2 }));
+
+            // Act
+            game.timeHandler.advance();
+            game.timeHandler.advance();
+
+            // Assert
+            expect(actor.opacity).to.be.equal(0.25);
+        });
+    });
+});
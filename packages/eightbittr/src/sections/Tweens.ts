@@ -0,0 +1,120 @@
+import { Tween, TweenSettings } from "timehandlr";
+
+import { EightBittr } from "../EightBittr";
+import { Actor } from "../types";
+import { Section } from "./Section";
+
+/**
+ * Names of Actor properties with numeric values.
+ */
+export type NumericActorProperty = {
+    [Key in keyof Actor]-?: Actor[Key] extends number | undefined ? Key : never;
+}[keyof Actor];
+
+/**
+ * Settings for a tween of an Actor property.
+ */
+export interface ActorTweenSettings extends Omit<TweenSettings, "from" | "onUpdate" | "to"> {
+    /**
+     * Value to start at (by default, the property's value when the tween starts).
+     */
+    from?: number;
+}
+
+/**
+ * Animates numeric Actor properties over time.
+ */
+export class Tweens<Game extends EightBittr> extends Section<Game> {
+    /**
+     * Starts a tween of an Actor property, updated each game tick.
+     *
+     * @param actor   Actor whose property to tween.
+     * @param property   Name of the property to tween.
+     * @param to   Value to end at.
+     * @param settings   Settings for the tween.
+     * @returns The started tween.
+     */
+    public tween(
+        actor: Actor,
+        property: NumericActorProperty,
+        to: number,
+        settings: ActorTweenSettings
+    ): Tween {
+        return this.game.timeHandler.addTween(this.createSettings(actor, property, to, settings));
+    }
+
+    /**
+     * Creates settings for a tween of an Actor property, such as to chain after another tween.
+     *
+     * @param actor   Actor whose property to tween.
+     * @param property   Name of the property to tween.
+     * @param to   Value to end at.
+     * @param settings   Settings for the tween.
+     * @returns Settings for a tween that's cancelled once the Actor is removed or reused.
+     */
+    public createSettings(
+        actor: Actor,
+        property: NumericActorProperty,
+        to: number,
+        settings: ActorTweenSettings
+    ): TweenSettings {
+        const generation = this.game.objectMaker.getGeneration(actor);
+
+        return {
+            ...settings,
+            from: settings.from ?? (() => actor[property] ?? 0),
+            onUpdate: (value) => {
+                if (actor.removed || this.game.objectMaker.getGeneration(actor) !== generation) {
+                    return true;
+                }
+
+                this.setProperty(actor, property, value);
+                return false;
+            },
+            to,
+        };
+    }
+
+    /**
+     * Sets an Actor property through its Physics or Graphics setter, if it has one.
+     *
+     * @param actor   Actor whose property to set.
+     * @param property   Name of the property to set.
+     * @param value   New value for the property.
+     */
+    public setProperty(actor: Actor, property: NumericActorProperty, value: number): void {
+        switch (property) {
+            case "bottom":
+                this.game.physics.setBottom(actor, value);
+                break;
+
+            case "height":
+                this.game.physics.setHeight(actor, value);
+                break;
+
+            case "left":
+                this.game.physics.setLeft(actor, value);
+                break;
+
+            case "opacity":
+                this.game.graphics.opacity.setOpacity(actor, value);
+                break;
+
+            case "right":
+                this.game.physics.setRight(actor, value);
+                break;
+
+            case "top":
+                this.game.physics.setTop(actor, value);
+                break;
+
+            case "width":
+                this.game.physics.setWidth(actor, value);
+                break;
+
+            default:
+                actor[property] = value;
+                this.game.physics.markChanged(actor);
+        }
+    }
+}
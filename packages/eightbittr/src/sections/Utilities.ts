@@ -9,8 +9,8 @@ import { Section } from "./Section";
  */
 export class Utilities<Game extends EightBittr> extends Section<Game> {
     /**
-     * Removes an Actor from an Array using Array.splice. If the actor has an
-     * onDelete, that is called.
+     * Removes an Actor from an Array using Array.splice, then from the rest of
+     * the game with death.removeActor.
      *
      * @param actor
      * @param array   The group containing the actor.
@@ -23,10 +23,7 @@ export class Utilities<Game extends EightBittr> extends Section<Game> {
         }
 
         array.splice(location, 1);
-
-        if (typeof actor.onDelete === "function") {
-            actor.onDelete(actor);
-        }
+        this.game.death.removeActor(actor);
     }
 
     /**
@@ -1,5 +1,6 @@
 import { Actor as ActorHittrActor, ActorHittrSettings } from "actorhittr";
 import { AreaSpawnrSettings } from "areaspawnr";
+import { CameraFollowrSettings } from "camerafollowr";
 import { FpsAnalyzrSettings } from "fpsanalyzr";
 import { FrameTickrSettings } from "frametickr";
 import { Actor as GroupHoldrActor, GroupHoldrSettings } from "groupholdr";
@@ -10,14 +11,19 @@ import {
     AreaRaw as MapsCreatrAreaRaw,
     MapRaw as MapsCreatrMapRaw,
     MapsCreatrSettings,
+    PreActorLike,
+    Region,
 } from "mapscreatr";
 import { MapScreenrSettings } from "mapscreenr";
 import { ObjectMakrSettings } from "objectmakr";
 import { Actor as PixelDrawrActor, PixelDrawrSettings } from "pixeldrawr";
 import { PixelRendrSettings } from "pixelrendr";
 import { Actor as QuadsKeeprActor, Quadrant, QuadsKeeprSettings } from "quadskeepr";
+import { SceneStackrSettings } from "scenestackr";
 import { TimeHandlrSettings } from "timehandlr";
 
+import { GameScene } from "./sections/Scenes";
+
 /**
  * Settings to initialize a new EightBittr.
  */
@@ -27,6 +33,12 @@ export interface EightBittrConstructorSettings {
      */
     components?: Partial<ComponentSettings>;
 
+    /**
+     * Whether to run without a DOM, replacing canvases and the container with no-op
+     * stand-ins and ticking frames on a manual clock (by default, false).
+     */
+    headless?: boolean;
+
     /**
      * How many pixels tall the game area should be.
      */
@@ -52,6 +64,11 @@ export interface ComponentSettings {
      */
     areaSpawner?: Partial<AreaSpawnrSettings>;
 
+    /**
+     * Settings overrides for the game's CameraFollowr.
+     */
+    cameraFollower?: Partial<CameraFollowrSettings>;
+
     /**
      * Settings overrides for the game's FpsAnalyzr.
      */
@@ -105,7 +122,12 @@ export interface ComponentSettings {
     /**
      * Settings overrides for the game's QuadsKeepr.
      */
-    quadsKeeper?: Partial<QuadsKeeprSettings>;
+    quadsKeeper?: Partial<QuadsKeeprSettings<Actor>>;
+
+    /**
+     * Settings overrides for the game's SceneStackr.
+     */
+    sceneStacker?: Partial<SceneStackrSettings<GameScene>>;
 
     /**
      * Settings overrides for the game's TimeHandlr.
@@ -165,6 +187,131 @@ export interface AreaRaw extends MapsCreatrAreaRaw {
     background?: string;
 }
 
+/**
+ * Event data for an Actor's lifecycle.
+ */
+export interface ActorEvent {
+    /**
+     * The Actor the event is for.
+     */
+    actor: Actor;
+}
+
+/**
+ * Event data for a PreActor spawning or unspawning.
+ */
+export interface PreActorEvent {
+    /**
+     * The PreActor the event is for.
+     */
+    preActor: PreActorLike;
+}
+
+/**
+ * Event data for an Actor entering, staying in, or leaving a region.
+ */
+export interface RegionEvent {
+    /**
+     * The Actor the event is for.
+     */
+    actor: Actor;
+
+    /**
+     * The region in the current Area.
+     */
+    region: Region;
+}
+
+/**
+ * Event data for a row or column of quadrants entering or leaving the grid.
+ */
+export interface QuadrantsEvent {
+    /**
+     * Bottom border of the quadrants, relative to the screen.
+     */
+    bottom: number;
+
+    /**
+     * The direction the quadrants are, relative to the existing grid.
+     */
+    direction: string;
+
+    /**
+     * Left border of the quadrants, relative to the screen.
+     */
+    left: number;
+
+    /**
+     * Right border of the quadrants, relative to the screen.
+     */
+    right: number;
+
+    /**
+     * Top border of the quadrants, relative to the screen.
+     */
+    top: number;
+}
+
+/**
+ * Events published by the game, keyed by name.
+ */
+export interface GameEvents {
+    /**
+     * An Actor was placed into the game.
+     */
+    actorAdded: ActorEvent;
+
+    /**
+     * An Actor was killed.
+     */
+    actorKilled: ActorEvent;
+
+    /**
+     * An Actor was created and processed.
+     */
+    actorMade: ActorEvent;
+
+    /**
+     * An Actor was removed from its group.
+     */
+    actorRemoved: ActorEvent;
+
+    /**
+     * A PreActor in the current Area was spawned.
+     */
+    areaSpawn: PreActorEvent;
+
+    /**
+     * A PreActor in the current Area was unspawned.
+     */
+    areaUnspawn: PreActorEvent;
+
+    /**
+     * A row or column of quadrants was added to the grid.
+     */
+    quadrantEnter: QuadrantsEvent;
+
+    /**
+     * A row or column of quadrants was removed from the grid.
+     */
+    quadrantLeave: QuadrantsEvent;
+
+    /**
+     * An Actor entered a region in the current Area.
+     */
+    regionEnter: RegionEvent;
+
+    /**
+     * An Actor left a region in the current Area.
+     */
+    regionLeave: RegionEvent;
+
+    /**
+     * An Actor stayed in a region in the current Area for another tick.
+     */
+    regionStay: RegionEvent;
+}
+
 /**
  * A standard in-game actor, with size, velocity, position, and other information.
  */
@@ -174,6 +321,11 @@ export interface Actor
         PixelDrawrActor,
         QuadsKeeprActor,
         ActorHittrActor {
+    /**
+     * Attached Actors that move, die, and are drawn with this.
+     */
+    children?: Actor[];
+
     /**
      * A summary of this Actor's current visual representation.
      */
@@ -189,6 +341,36 @@ export interface Actor
      */
     yVelocity: number;
 
+    /**
+     * How much this resists impulses, for the Physics integrator (by default, 1).
+     */
+    mass?: number;
+
+    /**
+     * How rapidly this speeds up horizontally, for the Physics integrator.
+     */
+    xAcceleration?: number;
+
+    /**
+     * How rapidly this speeds up vertically, for the Physics integrator.
+     */
+    yAcceleration?: number;
+
+    /**
+     * Multiplier for the Physics integrator's gravity (by default, 1).
+     */
+    gravityScale?: number;
+
+    /**
+     * Fraction of velocity lost each tick, for the Physics integrator.
+     */
+    drag?: number;
+
+    /**
+     * Maximum total speed, for the Physics integrator.
+     */
+    maxSpeed?: number;
+
     /**
      * The maximum number of quadrants this can be a part of, based on size.
      */
@@ -199,6 +381,11 @@ export interface Actor
      */
     name?: string;
 
+    /**
+     * Actor this is attached to, if any.
+     */
+    parent?: Actor;
+
     /**
      * Whether this has been placed into the game.
      */
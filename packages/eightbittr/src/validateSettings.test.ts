@@ -0,0 +1,115 @@
+import { member } from "autofieldr";
+import { expect } from "chai";
+
+import { EightBittr } from "./EightBittr";
+import { StubHeadlessGame, stubHeight, stubWidth } from "./fakes.test";
+import { Quadrants } from "./sections/Quadrants";
+import { ComponentSettings } from "./types";
+
+const createGame = (components: Partial<ComponentSettings>) => () =>
+    new StubHeadlessGame({
+        components,
+        headless: true,
+        height: stubHeight,
+        width: stubWidth,
+    });
+
+class MismatchedQuadrants<Game extends EightBittr> extends Quadrants<Game> {
+    public readonly activeGroupNames = ["Solid", "Scenery"];
+}
+
+class MismatchedGame extends StubHeadlessGame {
+    @member(MismatchedQuadrants)
+    public readonly quadrants: MismatchedQuadrants<this>;
+}
+
+describe("validateSettings", () => {
+    it("doesn't throw for valid settings", () => {
+        // Arrange
+        const action = createGame({ frameTicker: { interval: 10 } });
+
+        // Assert
+        expect(action).to.not.throw();
+    });
+
+    it("throws for an unknown component", () => {
+        // Arrange
+        const action = createGame({ frameTickr: {} } as Partial<ComponentSettings>);
+
+        // Assert
+        expect(action).to.throw("components.frameTickr: unknown component.");
+    });
+
+    it("throws for an unknown component setting", () => {
+        // Arrange
+        const action = createGame({
+            frameTicker: { intervl: 10 } as Partial<ComponentSettings["frameTicker"]>,
+        });
+
+        // Assert
+        expect(action).to.throw("components.frameTicker.intervl: unknown setting.");
+    });
+
+    it("throws for a required component setting given undefined", () => {
+        // Arrange
+        const action = createGame({ mapsCreator: { objectMaker: undefined } });
+
+        // Assert
+        expect(action).to.throw(
+            "components.mapsCreator.objectMaker: required, but given undefined."
+        );
+    });
+
+    it("doesn't throw for an optional component setting given undefined", () => {
+        // Arrange
+        const action = createGame({ frameTicker: { timing: undefined } });
+
+        // Assert
+        expect(action).to.not.throw();
+    });
+
+    it("throws for an active quadrant group that isn't a known group", () => {
+        // Arrange
+        const action = () =>
+            new MismatchedGame({
+                headless: true,
+                height: stubHeight,
+                width: stubWidth,
+            });
+
+        // Assert
+        expect(action).to.throw(
+            "quadrants.activeGroupNames[1]: 'Scenery' is not in groups.groupNames."
+        );
+    });
+
+    it("throws for an overridden active quadrant group that isn't a known group", () => {
+        // Arrange
+        const action = createGame({ quadsKeeper: { groupNames: ["Scenery"] } });
+
+        // Assert
+        expect(action).to.throw(
+            "components.quadsKeeper.groupNames[0]: 'Scenery' is not in groups.groupNames."
+        );
+    });
+
+    it("throws one error naming every offending path", () => {
+        // Arrange
+        const action = createGame({
+            frameTicker: { frame: undefined, intervl: 10 } as Partial<
+                ComponentSettings["frameTicker"]
+            >,
+            mapsCreator: { objectMaker: undefined },
+        });
+
+        // Assert
+        expect(action).to.throw(
+            [
+                "Invalid EightBittr settings:",
+                "  components.frameTicker.frame: required, but given undefined.",
+                "  components.frameTicker.intervl: unknown setting.",
+                "  components.mapsCreator.objectMaker: required, but given undefined.",
+            ].join("\n")
+        );
+    });
+});
@@ -0,0 +1,231 @@
+import { EightBittr } from "./EightBittr";
+import { ComponentSettings } from "./types";
+
+/**
+ * Whether a component setting must have a value if it's overridden.
+ */
+type Requirement = "optional" | "required";
+
+/**
+ * Every known key of a component's settings, and whether each must have a value.
+ */
+type SettingsSchema<Settings> = Record<keyof Settings, Requirement>;
+
+/**
+ * Known settings keys for each component.
+ */
+const componentSchemas: {
+    [Key in keyof ComponentSettings]-?: SettingsSchema<NonNullable<ComponentSettings[Key]>>;
+} = {
+    actorHitter: {
+        getTimestamp: "optional",
+        globalCheckGenerator: "optional",
+        hitCallbackGenerators: "optional",
+        hitCheckGenerators: "optional",
+        onHitEndGenerators: "optional",
+        onHitStartGenerators: "optional",
+        onHitStayGenerators: "optional",
+        recordStats: "optional",
+        swept: "optional",
+    },
+    areaSpawner: {
+        afterAdd: "optional",
+        mapScreenr: "required",
+        mapsCreatr: "required",
+        onSpawn: "optional",
+        onUnspawn: "optional",
+        screenAttributes: "optional",
+        stretchAdd: "optional",
+    },
+    cameraFollower: {
+        deadZone: "optional",
+        getBoundaries: "optional",
+        lookAhead: "optional",
+        mapScreenr: "required",
+        scroll: "required",
+        smoothing: "optional",
+    },
+    fpsAnalyzer: {
+        maximumKept: "optional",
+    },
+    frameTicker: {
+        events: "optional",
+        frame: "required",
+        interval: "required",
+        maximumFramesPerTick: "required",
+        render: "optional",
+        timing: "optional",
+    },
+    groupHolder: {
+        groupNames: "optional",
+    },
+    inputWriter: {
+        aliases: "optional",
+        canTrigger: "optional",
+        getTimestamp: "optional",
+        triggers: "optional",
+    },
+    itemsHolder: {
+        autoSave: "optional",
+        defaults: "optional",
+        prefix: "optional",
+        storage: "optional",
+        values: "optional",
+    },
+    mapScreener: {
+        height: "required",
+        variableFunctions: "optional",
+        variables: "optional",
+        width: "required",
+    },
+    mapsCreator: {
+        entrances: "optional",
+        groupTypes: "optional",
+        macros: "optional",
+        maps: "optional",
+        objectMaker: "required",
+        requireEntrance: "optional",
+    },
+    objectMaker: {
+        indexMap: "optional",
+        inheritance: "optional",
+        onMake: "optional",
+        pools: "optional",
+        properties: "optional",
+    },
+    pixelDrawer: {
+        actorArrays: "optional",
+        background: "optional",
+        boundingBox: "required",
+        contexts: "required",
+        epsilon: "optional",
+        framerateSkip: "optional",
+        generateObjectKey: "required",
+        pixelRender: "required",
+        spriteCacheCutoff: "optional",
+        viewports: "optional",
+    },
+    pixelRender: {
+        filters: "optional",
+        flipHorizontal: "optional",
+        flipVertical: "optional",
+        library: "optional",
+        paletteDefault: "optional",
+        scale: "optional",
+        spriteHeight: "optional",
+        spriteWidth: "optional",
+    },
+    quadsKeeper: {
+        checkOffsetX: "optional",
+        checkOffsetY: "optional",
+        checkVelocity: "optional",
+        groupNames: "optional",
+        numCols: "optional",
+        numRows: "optional",
+        onAdd: "optional",
+        onRemove: "optional",
+        quadrantHeight: "optional",
+        quadrantWidth: "optional",
+        spatialIndex: "optional",
+        startLeft: "optional",
+        startTop: "optional",
+    },
+    sceneStacker: {
+        events: "optional",
+    },
+    timeHandler: {
+        timingDefault: "optional",
+    },
+};
+
+/**
+ * Collects problems with component settings overrides.
+ *
+ * @param components   Component settings overrides.
+ * @returns Descriptions of each problem, prefixed by their paths.
+ */
+const findComponentProblems = (components: Record<string, unknown>): string[] => {
+    const problems: string[] = [];
+    const schemas: Record<string, Partial<Record<string, Requirement>> | undefined> =
+        componentSchemas;
+
+    for (const componentName in components) {
+        const path = `components.${componentName}`;
+        const schema = schemas[componentName];
+        const settings = components[componentName];
+
+        if (schema === undefined) {
+            problems.push(`${path}: unknown component.`);
+            continue;
+        }
+
+        if (settings === undefined) {
+            continue;
+        }
+
+        if (typeof settings !== "object" || settings === null) {
+            problems.push(`${path}: must be an object.`);
+            continue;
+        }
+
+        for (const [key, value] of Object.entries(settings)) {
+            const requirement = schema[key];
+
+            if (requirement === undefined) {
+                problems.push(`${path}.${key}: unknown setting.`);
+            } else if (requirement === "required" && (value === undefined || value === null)) {
+                problems.push(`${path}.${key}: required, but given ${String(value)}.`);
+            }
+        }
+    }
+
+    return problems;
+};
+
+/**
+ * Collects active quadrant group names that aren't known groups.
+ *
+ * @param game   Game whose group names to check.
+ * @returns Descriptions of each problem, prefixed by their paths.
+ */
+const findGroupProblems = (game: EightBittr): string[] => {
+    const { groupHolder, quadsKeeper } = game.settings.components;
+    const [groupNames, groupNamesPath] = groupHolder?.groupNames
+        ? [groupHolder.groupNames, "components.groupHolder.groupNames"]
+        : [game.groups.groupNames, "groups.groupNames"];
+    const [activeGroupNames, activeGroupNamesPath] = quadsKeeper?.groupNames
+        ? [quadsKeeper.groupNames, "components.quadsKeeper.groupNames"]
+        : [game.quadrants.activeGroupNames, "quadrants.activeGroupNames"];
+    const problems: string[] = [];
+
+    activeGroupNames.forEach((groupName, i) => {
+        if (!groupNames.includes(groupName)) {
+            problems.push(
+                `${activeGroupNamesPath}[${i}]: '${groupName}' is not in ${groupNamesPath}.`
+            );
+        }
+    });
+
+    return problems;
+};
+
+/**
+ * Checks a game's component settings and group names before its components are created.
+ *
+ * @param game   Game whose settings to check.
+ * @throws Error naming each offending path, if any settings are invalid.
+ */
+export const validateSettings = (game: EightBittr): void => {
+    const problems = [
+        ...findComponentProblems(game.settings.components),
+        ...findGroupProblems(game),
+    ];
+
+    if (problems.length) {
+        throw new Error(
+            ["Invalid EightBittr settings:", ...problems.map((problem) => `  ${problem}`)].join(
+                "\n"
+            )
+        );
+    }
+};
@@ -0,0 +1,132 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+
+import { stubEventPublishr } from "./fakes.test";
+
+describe("EventPublishr", () => {
+    describe("publish", () => {
+        it("calls a listener with the event", () => {
+            // Arrange
+            const { eventPublisher } = stubEventPublishr();
+            const listener = sinon.spy();
+
+            eventPublisher.subscribe("jump", listener);
+
+            // Act
+            eventPublisher.publish("jump", { height: 7 });
+
+            // Assert
+            expect(listener).to.have.been.calledOnceWithExactly({ height: 7 });
+        });
+
+        it("doesn't call listeners for other events", () => {
+            // Arrange
+            const { eventPublisher } = stubEventPublishr();
+            const listener = sinon.spy();
+
+            eventPublisher.subscribe("land", listener);
+
+            // Act
+            eventPublisher.publish("jump", { height: 7 });
+
+            // Assert
+            expect(listener).to.have.callCount(0);
+        });
+
+        it("calls listeners in the order they subscribed", () => {
+            // Arrange
+            const { eventPublisher } = stubEventPublishr();
+            const first = sinon.spy();
+            const second = sinon.spy();
+
+            eventPublisher.subscribe("jump", first);
+            eventPublisher.subscribe("jump", second);
+
+            // Act
+            eventPublisher.publish("jump", { height: 7 });
+
+            // Assert
+            expect(second).to.have.been.calledAfter(first);
+        });
+
+        it("doesn't call a listener subscribed during publishing until the next event", () => {
+            // Arrange
+            const { eventPublisher } = stubEventPublishr();
+            const listener = sinon.spy();
+
+            eventPublisher.subscribe("jump", () => {
+                eventPublisher.subscribe("jump", listener);
+            });
+
+            // Act
+            eventPublisher.publish("jump", { height: 7 });
+
+            // Assert
+            expect(listener).to.have.callCount(0);
+        });
+    });
+
+    describe("subscribe", () => {
+        it("returns a function that unsubscribes the listener", () => {
+            // Arrange
+            const { eventPublisher } = stubEventPublishr();
+            const listener = sinon.spy();
+            const unsubscribe = eventPublisher.subscribe("jump", listener);
+
+            // Act
+            unsubscribe();
+            eventPublisher.publish("jump", { height: 7 });
+
+            // Assert
+            expect(listener).to.have.callCount(0);
+        });
+    });
+
+    describe("unsubscribe", () => {
+        it("stops calling the listener", () => {
+            // Arrange
+            const { eventPublisher } = stubEventPublishr();
+            const listener = sinon.spy();
+
+            eventPublisher.subscribe("jump", listener);
+
+            // Act
+            eventPublisher.unsubscribe("jump", listener);
+            eventPublisher.publish("jump", { height: 7 });
+
+            // Assert
+            expect(listener).to.have.callCount(0);
+        });
+
+        it("keeps calling other listeners", () => {
+            // Arrange
+            const { eventPublisher } = stubEventPublishr();
+            const listener = sinon.spy();
+            const other = sinon.spy();
+
+            eventPublisher.subscribe("jump", listener);
+            eventPublisher.subscribe("jump", other);
+
+            // Act
+            eventPublisher.unsubscribe("jump", listener);
+            eventPublisher.publish("jump", { height: 7 });
+
+            // Assert
+            expect(other).to.have.callCount(1);
+        });
+    });
+
+    describe("hasSubscribers", () => {
+        it("returns false after the last listener unsubscribes", () => {
+            // Arrange
+            const { eventPublisher } = stubEventPublishr();
+            const unsubscribe = eventPublisher.subscribe("jump", sinon.spy());
+
+            // Act
+            unsubscribe();
+
+            // Assert
+            expect(eventPublisher.hasSubscribers("jump")).to.be.equal(false);
+        });
+    });
+});
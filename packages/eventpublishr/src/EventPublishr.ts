@@ -0,0 +1,81 @@
+import { EventListener, EventMap, Unsubscribe } from "./types";
+
+/**
+ * Typed publish and subscribe for named events.
+ *
+ * @template Events   Event data types, keyed by event name.
+ */
+export class EventPublishr<Events extends EventMap> {
+    /**
+     * Listeners for each event, keyed by event name.
+     */
+    private readonly listeners: {
+        [Name in keyof Events]?: EventListener<Events[Name]>[];
+    } = {};
+
+    /**
+     * Adds a listener for an event.
+     *
+     * @param name   Name of the event.
+     * @param listener   Receives each published event.
+     * @returns Removes the listener.
+     */
+    public subscribe<Name extends keyof Events>(
+        name: Name,
+        listener: EventListener<Events[Name]>
+    ): Unsubscribe {
+        // Listener arrays are replaced rather than mutated, so publishing can safely iterate them
+        this.listeners[name] = [...(this.listeners[name] ?? []), listener];
+
+        return () => this.unsubscribe(name, listener);
+    }
+
+    /**
+     * Removes a listener for an event.
+     *
+     * @param name   Name of the event.
+     * @param listener   A listener previously passed to subscribe.
+     */
+    public unsubscribe<Name extends keyof Events>(
+        name: Name,
+        listener: EventListener<Events[Name]>
+    ): void {
+        const listeners = this.listeners[name];
+        if (!listeners) {
+            return;
+        }
+
+        const index = listeners.indexOf(listener);
+        if (index === -1) {
+            return;
+        }
+
+        this.listeners[name] = [...listeners.slice(0, index), ...listeners.slice(index + 1)];
+    }
+
+    /**
+     * @param name   Name of the event.
+     * @returns Whether any listeners are subscribed to the event.
+     */
+    public hasSubscribers(name: keyof Events): boolean {
+        return !!this.listeners[name]?.length;
+    }
+
+    /**
+     * Calls each listener for an event.
+     *
+     * @param name   Name of the event.
+     * @param event   Data for the event.
+     * @remarks Listeners subscribed or unsubscribed during publishing take effect after it.
+     */
+    public publish<Name extends keyof Events>(name: Name, event: Events[Name]): void {
+        const listeners: EventListener<Events[Name]>[] | undefined = this.listeners[name];
+        if (!listeners) {
+            return;
+        }
+
+        for (const listener of listeners) {
+            listener(event);
+        }
+    }
+}
@@ -0,0 +1,12 @@
+import { EventPublishr } from "./EventPublishr";
+
+export interface StubEvents {
+    jump: { height: number };
+    land: { speed: number };
+}
+
+export const stubEventPublishr = () => {
+    const eventPublisher = new EventPublishr<StubEvents>();
+
+    return { eventPublisher };
+};
@@ -0,0 +1,2 @@
+export * from "./EventPublishr";
+export * from "./types";
@@ -0,0 +1,16 @@
+/**
+ * Event data types, keyed by event name.
+ */
+export type EventMap = object;
+
+/**
+ * Receives a published event.
+ *
+ * @param event   Data for the event.
+ */
+export type EventListener<Event> = (event: Event) => void;
+
+/**
+ * Stops a listener from receiving further events.
+ */
+export type Unsubscribe = () => void;
@@ -2,6 +2,8 @@ import { expect } from "chai";
 import * as sinon from "sinon";
 
 import { stubFrameTickr } from "./fakes.test";
+import { FrameTickr } from "./FrameTickr";
+import { createManualFrameTiming } from "./timing";
 
 describe("FrameTickr", () => {
     describe("getPaused", () => {
@@ -241,4 +243,90 @@ describe("FrameTickr", () => {
             expect(retrievedInterval).to.be.equal(updatedInterval);
         });
     });
+
+    describe("render", () => {
+        const stubRenderingFrameTickr = () => {
+            const frame = sinon.stub();
+            const render = sinon.stub();
+            const timing = createManualFrameTiming();
+            const frameTicker = new FrameTickr({
+                frame,
+                interval: 10,
+                maximumFramesPerTick: 3,
+                render,
+                timing,
+            });
+
+            return { frame, frameTicker, render, timing };
+        };
+
+        it("runs frame and renders without interpolation when play starts", () => {
+            // Arrange
+            const { frame, frameTicker, render } = stubRenderingFrameTickr();
+
+            // Act
+            frameTicker.play();
+
+            // Assert
+            expect(frame).to.have.callCount(1);
+            expect(render).to.have.been.calledOnceWithExactly(0);
+        });
+
+        it("renders with interpolation before the interval has passed", () => {
+            // Arrange
+            const { frame, frameTicker, render, timing } = stubRenderingFrameTickr();
+
+            frameTicker.play();
+
+            // Act
+            timing.tick(5);
+
+            // Assert
+            expect(frame).to.have.callCount(1);
+            expect(render.lastCall).to.have.been.calledWithExactly(0.5);
+        });
+
+        it("runs a frame for each interval that has passed", () => {
+            // Arrange
+            const { frame, frameTicker, render, timing } = stubRenderingFrameTickr();
+
+            frameTicker.play();
+
+            // Act
+            timing.tick(25);
+
+            // Assert
+            expect(frame.args).to.be.deep.equal([[0], [10], [20]]);
+            expect(render.lastCall).to.have.been.calledWithExactly(0.5);
+        });
+
+        it("drops time past the maximum frames per tick", () => {
+            // Arrange
+            const { frame, frameTicker, render, timing } = stubRenderingFrameTickr();
+
+            frameTicker.play();
+
+            // Act
+            timing.tick(100);
+
+            // Assert
+            expect(frame).to.have.callCount(4);
+            expect(render.lastCall).to.have.been.calledWithExactly(0);
+        });
+
+        it("doesn't catch up on time spent paused", () => {
+            // Arrange
+            const { frame, frameTicker, timing } = stubRenderingFrameTickr();
+
+            frameTicker.play();
+            frameTicker.pause();
+            timing.tick(50);
+
+            // Act
+            frameTicker.play();
+
+            // Assert
+            expect(frame.args).to.be.deep.equal([[0], [50]]);
+        });
+    });
 });
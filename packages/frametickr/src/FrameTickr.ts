@@ -1,5 +1,5 @@
 import { createFrameTiming } from "./timing";
-import { FrameTickrSettings } from "./types";
+import { FrameTickrSettings, Render } from "./types";
 
 export type RawFrameTickrSettings = Partial<FrameTickrSettings> &
     Pick<FrameTickrSettings, "frame">;
@@ -39,6 +39,7 @@ export class FrameTickr {
         this.settings = {
             events: {},
             interval: 1000 / 60,
+            maximumFramesPerTick: 5,
             ...rawSettings,
             timing,
         };
@@ -118,6 +119,11 @@ export class FrameTickr {
 
         this.nextTickHandle = this.settings.timing.requestFrame(this.attemptTick);
 
+        if (this.settings.render) {
+            this.runFixedFrames(timestamp, this.settings.render);
+            return;
+        }
+
         if (this.previousTimestamp === undefined) {
             this.runFrame(timestamp);
             return;
@@ -131,6 +137,35 @@ export class FrameTickr {
         this.runFrame(timestamp - (timestampDelta - this.settings.interval));
     };
 
+    /**
+     * Runs as many frames as have accumulated since the previous frame, then renders.
+     *
+     * @param timestamp   Current timestamp to compare the previous timestamp against.
+     * @param render   Function to be run once per display frame, after any frames.
+     * @remarks Time accumulated past maximumFramesPerTick frames is dropped, so slow
+     *          frames don't snowball into ever more frames to catch up on.
+     */
+    private runFixedFrames(timestamp: DOMHighResTimeStamp, render: Render) {
+        if (this.previousTimestamp === undefined) {
+            this.runFrame(timestamp);
+            render(0);
+            return;
+        }
+
+        const { interval, maximumFramesPerTick } = this.settings;
+
+        for (let framesRun = 0; timestamp - this.previousTimestamp >= interval; framesRun += 1) {
+            if (framesRun >= maximumFramesPerTick) {
+                this.previousTimestamp = timestamp;
+                break;
+            }
+
+            this.runFrame(this.previousTimestamp + interval);
+        }
+
+        render((timestamp - this.previousTimestamp) / interval);
+    }
+
     /**
      * Runs a frame and stores the new timestamp.
      *
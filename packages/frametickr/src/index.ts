@@ -1,2 +1,3 @@
 export * from "./FrameTickr";
+export * from "./timing";
 export * from "./types";
@@ -0,0 +1,95 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+
+import { FrameTickr } from "./FrameTickr";
+import { createManualFrameTiming } from "./timing";
+
+describe("createManualFrameTiming", () => {
+    describe("getTimestamp", () => {
+        it("starts at the start time", () => {
+            // Arrange
+            const timing = createManualFrameTiming(7);
+
+            // Act
+            const timestamp = timing.getTimestamp();
+
+            // Assert
+            expect(timestamp).to.be.equal(7);
+        });
+
+        it("moves forward when ticked", () => {
+            // Arrange
+            const timing = createManualFrameTiming();
+
+            timing.tick(10);
+
+            // Act
+            const timestamp = timing.getTimestamp();
+
+            // Assert
+            expect(timestamp).to.be.equal(10);
+        });
+    });
+
+    describe("tick", () => {
+        it("runs a requested frame with the new timestamp", () => {
+            // Arrange
+            const timing = createManualFrameTiming();
+            const callback = sinon.spy();
+
+            timing.requestFrame(callback);
+
+            // Act
+            timing.tick(10);
+
+            // Assert
+            expect(callback).to.have.been.calledOnceWithExactly(10);
+        });
+
+        it("doesn't run a cancelled frame", () => {
+            // Arrange
+            const timing = createManualFrameTiming();
+            const callback = sinon.spy();
+
+            timing.cancelFrame(timing.requestFrame(callback));
+
+            // Act
+            timing.tick(10);
+
+            // Assert
+            expect(callback).to.have.callCount(0);
+        });
+
+        it("doesn't run frames requested during the tick until the next tick", () => {
+            // Arrange
+            const timing = createManualFrameTiming();
+            const callback = sinon.spy();
+
+            timing.requestFrame(() => timing.requestFrame(callback));
+
+            // Act
+            timing.tick(10);
+
+            // Assert
+            expect(callback).to.have.callCount(0);
+        });
+
+        it("drives a FrameTickr once per interval", () => {
+            // Arrange
+            const timing = createManualFrameTiming();
+            const frame = sinon.spy();
+            const interval = 10;
+            const frameTicker = new FrameTickr({ frame, interval, timing });
+
+            frameTicker.play();
+
+            // Act
+            for (let i = 0; i < 3; i += 1) {
+                timing.tick(interval);
+            }
+
+            // Assert
+            expect(frame).to.have.callCount(4);
+        });
+    });
+});
@@ -93,3 +93,55 @@ export const createFrameTiming = (
 
     return { cancelFrame, getTimestamp, requestFrame };
 };
+
+/**
+ * Hooks for timing that only move forward when manually ticked.
+ */
+export interface ManualFrameTiming extends FrameTiming {
+    /**
+     * Moves time forward and runs any frames requested before the tick.
+     *
+     * @param milliseconds   How far to move time forward.
+     */
+    tick(milliseconds: number): void;
+}
+
+/**
+ * Creates hooks for timing that don't rely on a DOM and only move on demand.
+ *
+ * @param startTime   Initial timestamp (by default, 0).
+ * @returns Hooks for retrieving and scheduling timing.
+ */
+export const createManualFrameTiming = (startTime = 0): ManualFrameTiming => {
+    let callbacks: Record<string, FrameCallback | undefined> = {};
+    let callHandles = 0;
+    let now = startTime;
+
+    const cancelFrame: CancelFrame = (handle: number) => {
+        // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+        delete callbacks[handle];
+    };
+
+    const getTimestamp: GetTimestamp = () => now;
+
+    const requestFrame: RequestFrame = (callback: FrameCallback) => {
+        const newHandle = `${(callHandles += 1)}`;
+
+        callbacks[newHandle] = callback;
+
+        return newHandle;
+    };
+
+    const tick = (milliseconds: number) => {
+        const pending = callbacks;
+
+        callbacks = {};
+        now += milliseconds;
+
+        for (const handle in pending) {
+            pending[handle]?.(now);
+        }
+    };
+
+    return { cancelFrame, getTimestamp, requestFrame, tick };
+};
@@ -12,6 +12,13 @@ export type EventHook = () => void;
  */
 export type Frame = (timestamp: DOMHighResTimeStamp) => void;
 
+/**
+ * Function to be run once per display frame, after any frames.
+ *
+ * @param interpolation   How far time is between the latest frame and the next, in [0, 1).
+ */
+export type Render = (interpolation: number) => void;
+
 /**
  * Event hooks for running or state changes.
  */
@@ -46,6 +53,18 @@ export interface FrameTickrSettings {
      */
     interval: number;
 
+    /**
+     * Most frames to run in one display frame before dropping behind, when rendering
+     * separately (by default, 5).
+     */
+    maximumFramesPerTick: number;
+
+    /**
+     * Function to be run once per display frame, if rendering separately from frames.
+     * If provided, frames run at a fixed rate regardless of the display's refresh rate.
+     */
+    render?: Render;
+
     /**
      * Hooks for retrieving and scheduling timing.
      */
@@ -70,6 +70,38 @@ describe("InputWritr", () => {
         });
     });
 
+    describe("setTriggers", () => {
+        it("triggers events from the new triggers", () => {
+            // Arrange
+            const { inputWriter, keyDownLeft } = createInputWritr();
+            const keyDownRight = sinon.spy();
+
+            inputWriter.setTriggers({ onkeydown: { keyDownRight } });
+
+            // Act
+            inputWriter.callEvent("onkeydown", "keyDownLeft");
+            inputWriter.callEvent("onkeydown", "keyDownRight");
+
+            // Assert
+            expect(keyDownLeft).to.have.callCount(0);
+            expect(keyDownRight).to.have.callCount(1);
+        });
+
+        it("triggers events in the new triggers by their aliases", () => {
+            // Arrange
+            const { inputWriter } = createInputWritr();
+            const keyDownLeft = sinon.spy();
+
+            inputWriter.setTriggers({ onkeydown: { keyDownLeft } });
+
+            // Act
+            inputWriter.callEvent("onkeydown", 65);
+
+            // Assert
+            expect(keyDownLeft).to.have.callCount(1);
+        });
+    });
+
     describe("createPipe", () => {
         it("throws an error when the event type does not exist", () => {
             // Arrange
@@ -140,4 +172,119 @@ describe("InputWritr", () => {
             expect(event.preventDefault).to.have.callCount(1);
         });
     });
+
+    describe("stopRecording", () => {
+        it("returns triggered events with their timestamps", () => {
+            // Arrange
+            let timestamp = 7;
+            const { inputWriter } = createInputWritr({
+                getTimestamp: () => timestamp,
+            });
+
+            inputWriter.startRecording();
+            inputWriter.callEvent("onkeydown", 65);
+            timestamp = 14;
+            inputWriter.callEvent("onkeydown", "keyDownLeft");
+
+            // Act
+            const records = inputWriter.stopRecording();
+
+            // Assert
+            expect(records).to.be.deep.equal([
+                { event: "onkeydown", keyCode: 65, timestamp: 7 },
+                { event: "onkeydown", keyCode: "keyDownLeft", timestamp: 14 },
+            ]);
+        });
+
+        it("doesn't return events that weren't allowed to trigger", () => {
+            // Arrange
+            const { inputWriter } = createInputWritr({
+                canTrigger: () => false,
+            });
+
+            inputWriter.startRecording();
+            inputWriter.callEvent("onkeydown", 65);
+
+            // Act
+            const records = inputWriter.stopRecording();
+
+            // Assert
+            expect(records).to.be.deep.equal([]);
+        });
+
+        it("doesn't return events triggered after recording stopped", () => {
+            // Arrange
+            const { inputWriter } = createInputWritr();
+
+            inputWriter.startRecording();
+            inputWriter.stopRecording();
+            inputWriter.callEvent("onkeydown", 65);
+
+            // Act
+            const records = inputWriter.stopRecording();
+
+            // Assert
+            expect(records).to.be.deep.equal([]);
+        });
+    });
+
+    describe("replayUntil", () => {
+        it("triggers replaying events up to the timestamp", () => {
+            // Arrange
+            const { inputWriter, keyDownLeft } = createInputWritr();
+
+            inputWriter.startReplay([
+                { event: "onkeydown", keyCode: 65, timestamp: 1 },
+                { event: "onkeydown", keyCode: 65, timestamp: 2 },
+                { event: "onkeydown", keyCode: 65, timestamp: 3 },
+            ]);
+
+            // Act
+            inputWriter.replayUntil(2);
+
+            // Assert
+            expect(keyDownLeft).to.have.callCount(2);
+        });
+
+        it("doesn't trigger replayed events again", () => {
+            // Arrange
+            const { inputWriter, keyDownLeft } = createInputWritr();
+
+            inputWriter.startReplay([{ event: "onkeydown", keyCode: 65, timestamp: 1 }]);
+            inputWriter.replayUntil(1);
+
+            // Act
+            inputWriter.replayUntil(2);
+
+            // Assert
+            expect(keyDownLeft).to.have.callCount(1);
+        });
+
+        it("stops replaying once all events are triggered", () => {
+            // Arrange
+            const { inputWriter } = createInputWritr();
+
+            inputWriter.startReplay([{ event: "onkeydown", keyCode: 65, timestamp: 1 }]);
+
+            // Act
+            inputWriter.replayUntil(1);
+
+            // Assert
+            expect(inputWriter.getReplaying()).to.be.equal(false);
+        });
+
+        it("doesn't trigger events after the replay is stopped", () => {
+            // Arrange
+            const { inputWriter, keyDownLeft } = createInputWritr();
+
+            inputWriter.startReplay([{ event: "onkeydown", keyCode: 65, timestamp: 1 }]);
+            inputWriter.stopReplay();
+
+            // Act
+            inputWriter.replayUntil(1);
+
+            // Assert
+            expect(keyDownLeft).to.have.callCount(0);
+        });
+    });
 });
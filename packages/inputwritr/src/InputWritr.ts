@@ -3,6 +3,7 @@
 import {
     Aliases,
     CanTrigger,
+    InputRecord,
     InputWritrSettings,
     Pipe,
     TriggerContainer,
@@ -17,7 +18,7 @@ export class InputWritr {
     /**
      * Maps event types to their key codes, to their callbacks.
      */
-    private readonly triggers: TriggerContainer;
+    private triggers: TriggerContainer;
 
     /**
      * Maps event types to their lists of aliases.
@@ -29,6 +30,21 @@ export class InputWritr {
      */
     private readonly canTrigger: CanTrigger;
 
+    /**
+     * Generates a current timestamp for recorded events.
+     */
+    private readonly getTimestamp: () => number;
+
+    /**
+     * Triggered events recorded since startRecording, if recording.
+     */
+    private recording?: InputRecord[];
+
+    /**
+     * Recorded events yet to be replayed, if replaying.
+     */
+    private replaying?: InputRecord[];
+
     /**
      * Initializes a new instance of the InputWritr class.
      *
@@ -37,6 +53,7 @@ export class InputWritr {
     public constructor(settings: InputWritrSettings = {}) {
         this.aliases = {};
         this.canTrigger = settings.canTrigger ?? (() => true);
+        this.getTimestamp = settings.getTimestamp ?? (() => performance.now());
         this.triggers = settings.triggers ?? {};
 
         if (settings.aliases) {
@@ -59,16 +76,20 @@ export class InputWritr {
             this.aliases[eventType] = values;
         }
 
-        // triggerName: "onkeydown", "onkeyup", ...
-        for (const triggerName in this.triggers) {
-            // triggerGroup: { "keyDownLeft": function, ... }, ...
-            const triggerGroup = this.triggers[triggerName];
+        this.aliasTriggers(eventType, values);
+    }
 
-            if (triggerGroup[eventType]) {
-                for (const value of values) {
-                    triggerGroup[value] = triggerGroup[eventType];
-                }
-            }
+    /**
+     * Replaces the mapping of event types to their key codes, to their callbacks.
+     *
+     * @param triggers   New mapping of event types to their key codes, to their callbacks.
+     * @remarks Known aliases are added to the new triggers, as they would be in the constructor.
+     */
+    public setTriggers(triggers: TriggerContainer): void {
+        this.triggers = triggers;
+
+        for (const eventType in this.aliases) {
+            this.aliasTriggers(eventType, this.aliases[eventType]);
         }
     }
 
@@ -83,10 +104,92 @@ export class InputWritr {
      */
     public callEvent(eventRaw: string, keyCode: number | string, sourceEvent?: Event): any {
         if (this.canTrigger(eventRaw, keyCode, sourceEvent)) {
+            this.recording?.push({
+                event: eventRaw,
+                keyCode,
+                timestamp: this.getTimestamp(),
+            });
+
             return this.triggers[eventRaw]?.[keyCode as string]?.(sourceEvent);
         }
     }
 
+    /**
+     * Starts recording triggered events, discarding any previous recording.
+     */
+    public startRecording(): void {
+        this.recording = [];
+    }
+
+    /**
+     * Stops recording triggered events.
+     *
+     * @returns Events triggered since startRecording, in order.
+     */
+    public stopRecording(): InputRecord[] {
+        const recording = this.recording ?? [];
+
+        this.recording = undefined;
+
+        return recording;
+    }
+
+    /**
+     * @returns Whether triggered events are being recorded.
+     */
+    public getRecording(): boolean {
+        return this.recording !== undefined;
+    }
+
+    /**
+     * Starts replaying recorded events, replacing any previous replay.
+     *
+     * @param records   Recorded events, in order.
+     * @remarks Events are only triggered as replayUntil reaches their timestamps.
+     */
+    public startReplay(records: InputRecord[]): void {
+        this.replaying = [...records];
+    }
+
+    /**
+     * Triggers all replaying events up to and including a timestamp.
+     *
+     * @param timestamp   Latest timestamp of events to trigger.
+     */
+    public replayUntil(timestamp: number): void {
+        if (!this.replaying) {
+            return;
+        }
+
+        let count = 0;
+        while (count < this.replaying.length && this.replaying[count].timestamp <= timestamp) {
+            count += 1;
+        }
+
+        const records = this.replaying.splice(0, count);
+        if (this.replaying.length === 0) {
+            this.replaying = undefined;
+        }
+
+        for (const record of records) {
+            this.callEvent(record.event, record.keyCode);
+        }
+    }
+
+    /**
+     * Stops replaying recorded events, discarding any that haven't been triggered.
+     */
+    public stopReplay(): void {
+        this.replaying = undefined;
+    }
+
+    /**
+     * @returns Whether recorded events are still being replayed.
+     */
+    public getReplaying(): boolean {
+        return this.replaying !== undefined;
+    }
+
     /**
      * Creates and returns a pipe to run a trigger.
      *
@@ -149,4 +252,24 @@ export class InputWritr {
             }
         }
     }
+
+    /**
+     * Adds values by which an event may be triggered to each trigger group with the event.
+     *
+     * @param eventType   Event type being aliased, such as "keyDownLeft".
+     * @param values   Aliases by which the event will also be callable, such as [37, 65].
+     */
+    private aliasTriggers(eventType: string, values: (number | string)[]): void {
+        // triggerName: "onkeydown", "onkeyup", ...
+        for (const triggerName in this.triggers) {
+            // triggerGroup: { "keyDownLeft": function, ... }, ...
+            const triggerGroup = this.triggers[triggerName];
+
+            if (triggerGroup[eventType]) {
+                for (const value of values) {
+                    triggerGroup[value] = triggerGroup[eventType];
+                }
+            }
+        }
+    }
 }
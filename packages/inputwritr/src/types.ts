@@ -58,6 +58,26 @@ export type AliasKeys = Record<string, string[]>;
  */
 export type Pipe = (event: Event) => void;
 
+/**
+ * A triggered event, as recorded for later replay.
+ */
+export interface InputRecord {
+    /**
+     * The event type that was called, such as "onkeydown".
+     */
+    event: string;
+
+    /**
+     * The alias of the event Function under triggers[event].
+     */
+    keyCode: number | string;
+
+    /**
+     * When the event was triggered, from getTimestamp.
+     */
+    timestamp: number;
+}
+
 /**
  * Settings to initialize a new InputWritr.
  */
@@ -68,9 +88,9 @@ export interface InputWritrSettings {
     triggers?: TriggerContainer;
 
     /**
-     * Function to generate a current timestamp, commonly performance.now.
+     * Function to generate a current timestamp for recorded events (by default, performance.now).
      */
-    getTimestamp?(): number;
+    getTimestamp?: () => number;
 
     /**
      * Known, allowed aliases for triggers.
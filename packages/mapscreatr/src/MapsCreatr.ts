@@ -6,6 +6,7 @@ import { ObjectMakr } from "objectmakr";
 
 import { Actor } from "./Actor";
 import { PreActor } from "./PreActor";
+import { TileGrid } from "./TileGrid";
 import {
     AnalysisContainer,
     Area,
@@ -20,6 +21,8 @@ import {
     PreActorsContainer,
     PreActorsContainers,
     PreActorsRawContainer,
+    Region,
+    RegionRaw,
 } from "./types";
 
 /**
@@ -218,6 +221,10 @@ export class MapsCreatr {
             this.analyzePreSwitch(instruction, preActors, area, map);
         }
 
+        if (area.tileGrid) {
+            this.stretchAreaBoundaries(area.tileGrid.getBoundaries(), area);
+        }
+
         return this.processPreActorsArrays(preActors);
     }
 
@@ -395,6 +402,22 @@ export class MapsCreatr {
                 right: 0,
                 top: 0,
             };
+
+            if (areasRaw[i].regions) {
+                area.regions = areasRaw[i].regions.map(
+                    ({ height, left, name, top, width }: RegionRaw): Region => ({
+                        bottom: top + height,
+                        left,
+                        name,
+                        right: left + width,
+                        top,
+                    })
+                );
+            }
+
+            if (areasRaw[i].tiles) {
+                area.tileGrid = new TileGrid(areasRaw[i].tiles);
+            }
         }
 
         // Parse all the Location objects (works for both Arrays and Objects)
@@ -472,20 +495,20 @@ export class MapsCreatr {
     }
 
     /**
-     * "Stretches" an Area's boundaries based on a PreActor. For each direction,
-     * if the PreActor has a more extreme version of it (higher top, etc.), the
-     * boundary is updated.
+     * "Stretches" an Area's boundaries based on a PreActor or tile grid. For each
+     * direction, if the box has a more extreme version of it (higher top, etc.),
+     * the boundary is updated.
      *
-     * @param preActor   The PreActor stretching the Area's boundaries.
-     * @param area   An Area containing the PreActor.
+     * @param box   The PreActor or tile grid boundaries stretching the Area's boundaries.
+     * @param area   An Area containing the box.
      */
-    private stretchAreaBoundaries(preActor: PreActor, area: Area): void {
+    private stretchAreaBoundaries(box: Boundaries, area: Area): void {
         const boundaries: Boundaries = area.boundaries;
 
-        boundaries.top = Math.min(preActor.top, boundaries.top);
-        boundaries.right = Math.max(preActor.right, boundaries.right);
-        boundaries.bottom = Math.max(preActor.bottom, boundaries.bottom);
-        boundaries.left = Math.min(preActor.left, boundaries.left);
+        boundaries.top = Math.min(box.top, boundaries.top);
+        boundaries.right = Math.max(box.right, boundaries.right);
+        boundaries.bottom = Math.max(box.bottom, boundaries.bottom);
+        boundaries.left = Math.min(box.left, boundaries.left);
     }
 
     /**
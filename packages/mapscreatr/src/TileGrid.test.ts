@@ -0,0 +1,152 @@
+import { expect } from "chai";
+
+import { TileGrid } from "./TileGrid";
+
+const createTileGrid = () =>
+    new TileGrid({
+        // prettier-ignore
+        rows: [
+            "....#",
+            "....#",
+            "#####",
+        ],
+        solid: "#",
+        tileHeight: 8,
+        tileWidth: 8,
+    });
+
+describe("TileGrid", () => {
+    describe("isSolid", () => {
+        it("returns true for a solid tile", () => {
+            // Arrange
+            const tileGrid = createTileGrid();
+
+            // Act
+            const solid = tileGrid.isSolid(4, 0);
+
+            // Assert
+            expect(solid).to.be.equal(true);
+        });
+
+        it("returns false for an empty tile", () => {
+            // Arrange
+            const tileGrid = createTileGrid();
+
+            // Act
+            const solid = tileGrid.isSolid(0, 0);
+
+            // Assert
+            expect(solid).to.be.equal(false);
+        });
+
+        it("returns false for a tile outside the grid", () => {
+            // Arrange
+            const tileGrid = createTileGrid();
+
+            // Act
+            const solid = tileGrid.isSolid(7, 0);
+
+            // Assert
+            expect(solid).to.be.equal(false);
+        });
+    });
+
+    describe("checkBox", () => {
+        it("returns false for a box touching but not overlapping solid tiles", () => {
+            // Arrange
+            const tileGrid = createTileGrid();
+
+            // Act
+            const hit = tileGrid.checkBox({ bottom: 16, left: 0, right: 32, top: 0 });
+
+            // Assert
+            expect(hit).to.be.equal(false);
+        });
+
+        it("returns true for a box overlapping a solid tile", () => {
+            // Arrange
+            const tileGrid = createTileGrid();
+
+            // Act
+            const hit = tileGrid.checkBox({ bottom: 17, left: 0, right: 8, top: 9 });
+
+            // Assert
+            expect(hit).to.be.equal(true);
+        });
+    });
+
+    describe("clampHorizontal", () => {
+        it("returns the full distance when no solid tiles are in the way", () => {
+            // Arrange
+            const tileGrid = createTileGrid();
+
+            // Act
+            const dx = tileGrid.clampHorizontal({ bottom: 8, left: 0, right: 8, top: 0 }, 16);
+
+            // Assert
+            expect(dx).to.be.equal(16);
+        });
+
+        it("stops a box at a solid tile it would pass through", () => {
+            // Arrange
+            const tileGrid = createTileGrid();
+
+            // Act
+            const dx = tileGrid.clampHorizontal({ bottom: 8, left: 0, right: 8, top: 0 }, 100);
+
+            // Assert
+            expect(dx).to.be.equal(24);
+        });
+
+        it("stops a box moving left at a solid tile", () => {
+            // Arrange
+            const tileGrid = new TileGrid({
+                rows: ["#..."],
+                solid: "#",
+                tileHeight: 8,
+                tileWidth: 8,
+            });
+
+            // Act
+            const dx = tileGrid.clampHorizontal({ bottom: 8, left: 24, right: 32, top: 0 }, -100);
+
+            // Assert
+            expect(dx).to.be.equal(-16);
+        });
+    });
+
+    describe("clampVertical", () => {
+        it("stops a falling box at a solid floor", () => {
+            // Arrange
+            const tileGrid = createTileGrid();
+
+            // Act
+            const dy = tileGrid.clampVertical({ bottom: 4, left: 0, right: 8, top: -4 }, 50);
+
+            // Assert
+            expect(dy).to.be.equal(12);
+        });
+
+        it("doesn't move a box resting on a solid floor", () => {
+            // Arrange
+            const tileGrid = createTileGrid();
+
+            // Act
+            const dy = tileGrid.clampVertical({ bottom: 16, left: 0, right: 8, top: 8 }, 1);
+
+            // Assert
+            expect(dy).to.be.equal(0);
+        });
+
+        it("returns the full distance for a box rising away from a floor", () => {
+            // Arrange
+            const tileGrid = createTileGrid();
+
+            // Act
+            const dy = tileGrid.clampVertical({ bottom: 16, left: 0, right: 8, top: 8 }, -8);
+
+            // Assert
+            expect(dy).to.be.equal(-8);
+        });
+    });
+});
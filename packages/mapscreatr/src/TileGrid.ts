@@ -0,0 +1,250 @@
+import { Boundaries, TileGridRaw } from "./types";
+
+/**
+ * Compact grid of static solid tiles within an Area.
+ */
+export class TileGrid {
+    /**
+     * How many columns of tiles are in the grid.
+     */
+    public readonly cols: number;
+
+    /**
+     * Horizontal position of the grid's left edge.
+     */
+    public readonly left: number;
+
+    /**
+     * How many rows of tiles are in the grid.
+     */
+    public readonly rows: number;
+
+    /**
+     * How tall each tile is.
+     */
+    public readonly tileHeight: number;
+
+    /**
+     * How wide each tile is.
+     */
+    public readonly tileWidth: number;
+
+    /**
+     * Vertical position of the grid's top edge.
+     */
+    public readonly top: number;
+
+    /**
+     * Whether each tile is solid, in row-major order.
+     */
+    private readonly solids: Uint8Array;
+
+    /**
+     * Initializes a new instance of the TileGrid class.
+     *
+     * @param raw   Raw JSON-friendly description of the grid.
+     */
+    public constructor(raw: TileGridRaw) {
+        this.left = raw.left ?? 0;
+        this.top = raw.top ?? 0;
+        this.tileHeight = raw.tileHeight;
+        this.tileWidth = raw.tileWidth;
+        this.rows = raw.rows.length;
+        this.cols = Math.max(0, ...raw.rows.map((row) => row.length));
+        this.solids = new Uint8Array(this.rows * this.cols);
+
+        for (let row = 0; row < this.rows; row += 1) {
+            for (let col = 0; col < raw.rows[row].length; col += 1) {
+                if (raw.solid.includes(raw.rows[row][col])) {
+                    this.solids[row * this.cols + col] = 1;
+                }
+            }
+        }
+    }
+
+    /**
+     * @returns The bounding box around all tiles in the grid.
+     */
+    public getBoundaries(): Boundaries {
+        return {
+            bottom: this.top + this.rows * this.tileHeight,
+            left: this.left,
+            right: this.left + this.cols * this.tileWidth,
+            top: this.top,
+        };
+    }
+
+    /**
+     * Checks whether a tile is solid.
+     *
+     * @param col   Column of the tile.
+     * @param row   Row of the tile.
+     * @returns Whether the tile is solid, or false if it's outside the grid.
+     */
+    public isSolid(col: number, row: number): boolean {
+        if (col < 0 || col >= this.cols || row < 0 || row >= this.rows) {
+            return false;
+        }
+
+        return this.solids[row * this.cols + col] === 1;
+    }
+
+    /**
+     * Checks whether a box overlaps any solid tiles.
+     *
+     * @param box   Bounding box to check.
+     * @returns Whether the box overlaps any solid tiles.
+     */
+    public checkBox(box: Boundaries): boolean {
+        const colStart = this.findColAfter(box.left);
+        const colEnd = this.findColBefore(box.right);
+        const rowStart = this.findRowAfter(box.top);
+        const rowEnd = this.findRowBefore(box.bottom);
+
+        for (let row = rowStart; row <= rowEnd; row += 1) {
+            for (let col = colStart; col <= colEnd; col += 1) {
+                if (this.isSolid(col, row)) {
+                    return true;
+                }
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Finds how far a box may move horizontally before touching a solid tile.
+     *
+     * @param box   Bounding box to move.
+     * @param dx   How far the box is trying to move horizontally.
+     * @returns How far the box may move horizontally, up to dx.
+     * @remarks Every column between the box and its destination is checked, so fast
+     *          boxes can't pass through thin walls.
+     */
+    public clampHorizontal(box: Boundaries, dx: number): number {
+        const rowStart = this.findRowAfter(box.top);
+        const rowEnd = this.findRowBefore(box.bottom);
+
+        if (dx > 0) {
+            const colEnd = this.findColBefore(box.right + dx);
+
+            for (let col = this.findColAfter(box.right); col <= colEnd; col += 1) {
+                if (this.checkColumn(col, rowStart, rowEnd)) {
+                    return Math.max(0, this.left + col * this.tileWidth - box.right);
+                }
+            }
+        } else if (dx < 0) {
+            const colEnd = this.findColAfter(box.left + dx);
+
+            for (let col = this.findColBefore(box.left); col >= colEnd; col -= 1) {
+                if (this.checkColumn(col, rowStart, rowEnd)) {
+                    return Math.min(0, this.left + (col + 1) * this.tileWidth - box.left);
+                }
+            }
+        }
+
+        return dx;
+    }
+
+    /**
+     * Finds how far a box may move vertically before touching a solid tile.
+     *
+     * @param box   Bounding box to move.
+     * @param dy   How far the box is trying to move vertically.
+     * @returns How far the box may move vertically, up to dy.
+     * @remarks Every row between the box and its destination is checked, so fast
+     *          boxes can't pass through thin floors.
+     */
+    public clampVertical(box: Boundaries, dy: number): number {
+        const colStart = this.findColAfter(box.left);
+        const colEnd = this.findColBefore(box.right);
+
+        if (dy > 0) {
+            const rowEnd = this.findRowBefore(box.bottom + dy);
+
+            for (let row = this.findRowAfter(box.bottom); row <= rowEnd; row += 1) {
+                if (this.checkRow(row, colStart, colEnd)) {
+                    return Math.max(0, this.top + row * this.tileHeight - box.bottom);
+                }
+            }
+        } else if (dy < 0) {
+            const rowEnd = this.findRowAfter(box.top + dy);
+
+            for (let row = this.findRowBefore(box.top); row >= rowEnd; row -= 1) {
+                if (this.checkRow(row, colStart, colEnd)) {
+                    return Math.min(0, this.top + (row + 1) * this.tileHeight - box.top);
+                }
+            }
+        }
+
+        return dy;
+    }
+
+    /**
+     * Checks whether any tiles in part of a column are solid.
+     *
+     * @param col   Column of the tiles.
+     * @param rowStart   First row to check.
+     * @param rowEnd   Last row to check.
+     * @returns Whether any of the tiles are solid.
+     */
+    private checkColumn(col: number, rowStart: number, rowEnd: number): boolean {
+        for (let row = rowStart; row <= rowEnd; row += 1) {
+            if (this.isSolid(col, row)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Checks whether any tiles in part of a row are solid.
+     *
+     * @param row   Row of the tiles.
+     * @param colStart   First column to check.
+     * @param colEnd   Last column to check.
+     * @returns Whether any of the tiles are solid.
+     */
+    private checkRow(row: number, colStart: number, colEnd: number): boolean {
+        for (let col = colStart; col <= colEnd; col += 1) {
+            if (this.isSolid(col, row)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * @param x   Horizontal position of a left edge.
+     * @returns The column of the tile just right of the edge.
+     */
+    private findColAfter(x: number): number {
+        return Math.floor((x - this.left) / this.tileWidth);
+    }
+
+    /**
+     * @param x   Horizontal position of a right edge.
+     * @returns The column of the tile just left of the edge.
+     */
+    private findColBefore(x: number): number {
+        return Math.ceil((x - this.left) / this.tileWidth) - 1;
+    }
+
+    /**
+     * @param y   Vertical position of a top edge.
+     * @returns The row of the tile just below the edge.
+     */
+    private findRowAfter(y: number): number {
+        return Math.floor((y - this.top) / this.tileHeight);
+    }
+
+    /**
+     * @param y   Vertical position of a bottom edge.
+     * @returns The row of the tile just above the edge.
+     */
+    private findRowBefore(y: number): number {
+        return Math.ceil((y - this.top) / this.tileHeight) - 1;
+    }
+}
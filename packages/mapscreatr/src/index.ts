@@ -2,4 +2,5 @@ export * from "./Actor";
 export * from "./MapsCreatr";
 export * from "./PreActor";
 export * from "./PreActorLike";
+export * from "./TileGrid";
 export * from "./types";
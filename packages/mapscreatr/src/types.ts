@@ -2,6 +2,7 @@ import { ObjectMakr } from "objectmakr";
 
 import { Actor } from "./Actor";
 import { PreActorLike, PreActorSettings } from "./PreActorLike";
+import { TileGrid } from "./TileGrid";
 
 /**
  * A raw JSON-friendly description of a map.
@@ -31,6 +32,81 @@ export interface AreaRaw {
      * Commands to place PreActorLikes in the area.
      */
     creation: any[];
+
+    /**
+     * Invisible rectangles that track Actors entering and leaving them.
+     */
+    regions?: RegionRaw[];
+
+    /**
+     * Grid of static solid tiles to collide with, instead of creating Actors for them.
+     */
+    tiles?: TileGridRaw;
+}
+
+/**
+ * A raw JSON-friendly description of an invisible rectangular region.
+ */
+export interface RegionRaw {
+    /**
+     * How tall the region is.
+     */
+    height: number;
+
+    /**
+     * Horizontal position of the region's left edge.
+     */
+    left: number;
+
+    /**
+     * Name to identify the region by, such as in region events.
+     */
+    name: string;
+
+    /**
+     * Vertical position of the region's top edge.
+     */
+    top: number;
+
+    /**
+     * How wide the region is.
+     */
+    width: number;
+}
+
+/**
+ * A raw JSON-friendly description of a grid of tiles.
+ */
+export interface TileGridRaw {
+    /**
+     * Horizontal position of the grid's left edge (by default, 0).
+     */
+    left?: number;
+
+    /**
+     * Rows of tiles from top to bottom, as one character per tile.
+     */
+    rows: string[];
+
+    /**
+     * Characters of tiles that are solid.
+     */
+    solid: string;
+
+    /**
+     * How tall each tile is.
+     */
+    tileHeight: number;
+
+    /**
+     * How wide each tile is.
+     */
+    tileWidth: number;
+
+    /**
+     * Vertical position of the grid's top edge (by default, 0).
+     */
+    top?: number;
 }
 
 /**
@@ -108,6 +184,26 @@ export interface Area {
      * Optional listing of Actors to provide to stretch across the Area.
      */
     stretches?: (string | PreActorSettings)[];
+
+    /**
+     * Invisible regions in map coordinates, if the Area was given regions.
+     */
+    regions?: Region[];
+
+    /**
+     * Grid of static solid tiles, if the Area was given tiles.
+     */
+    tileGrid?: TileGrid;
+}
+
+/**
+ * An invisible rectangular region parsed from its raw JSON-friendly description.
+ */
+export interface Region extends Boundaries {
+    /**
+     * Name to identify the region by, such as in region events.
+     */
+    name: string;
 }
 
 /**
@@ -116,4 +116,375 @@ describe("ObjectMakr", () => {
             expect(madeObject[indexMap[1]]).to.be.equal(propertyArray[1]);
         });
     });
+
+    describe("release", () => {
+        it("returns false for an instance of a class that isn't pooled", (): void => {
+            // Arrange
+            const objectMaker = stubObjectMakr({
+                inheritance: {
+                    particle: {},
+                },
+            });
+            const particle = objectMaker.make<object>("particle");
+
+            // Act
+            const released = objectMaker.release(particle);
+
+            // Assert
+            expect(released).to.be.equal(false);
+        });
+
+        it("returns false when the pool is full", (): void => {
+            // Arrange
+            const objectMaker = stubObjectMakr({
+                inheritance: {
+                    particle: {},
+                },
+                pools: {
+                    particle: 1,
+                },
+            });
+
+            const first = objectMaker.make<object>("particle");
+            const second = objectMaker.make<object>("particle");
+
+            objectMaker.release(first);
+
+            // Act
+            const released = objectMaker.release(second);
+
+            // Assert
+            expect(released).to.be.equal(false);
+            expect(objectMaker.getPoolStats("particle")).to.include({ dropped: 1, released: 1 });
+        });
+    });
+
+    describe("reclaim", () => {
+        it("returns false for an instance that wasn't released", (): void => {
+            // Arrange
+            const objectMaker = stubObjectMakr({
+                inheritance: {
+                    particle: {},
+                },
+                pools: {
+                    particle: 1,
+                },
+            });
+            const particle = objectMaker.make<object>("particle");
+
+            // Act
+            const reclaimed = objectMaker.reclaim(particle);
+
+            // Assert
+            expect(reclaimed).to.be.equal(false);
+        });
+
+        it("doesn't reuse a reclaimed instance", (): void => {
+            // Arrange
+            const objectMaker = stubObjectMakr({
+                inheritance: {
+                    particle: {},
+                },
+                pools: {
+                    particle: 1,
+                },
+            });
+            const particle = objectMaker.make<object>("particle");
+
+            objectMaker.release(particle);
+
+            // Act
+            objectMaker.reclaim(particle);
+
+            // Assert
+            expect(objectMaker.make<object>("particle")).to.not.be.equal(particle);
+        });
+    });
+
+    describe("make", () => {
+        it("reuses a released instance of a pooled class", (): void => {
+            // Arrange
+            const objectMaker = stubObjectMakr({
+                inheritance: {
+                    particle: {},
+                },
+                pools: {
+                    particle: 1,
+                },
+            });
+            const particle = objectMaker.make<object>("particle");
+
+            objectMaker.release(particle);
+
+            // Act
+            const reused = objectMaker.make("particle");
+
+            // Assert
+            expect(reused).to.be.equal(particle);
+        });
+
+        it("resets a reused instance to its prototype's members", (): void => {
+            // Arrange
+            const objectMaker = stubObjectMakr({
+                inheritance: {
+                    particle: {},
+                },
+                pools: {
+                    particle: 1,
+                },
+                properties: {
+                    particle: { size: 1 },
+                },
+            });
+            const particle = objectMaker.make<{ removed?: boolean; size: number }>("particle", {
+                size: 2,
+            });
+
+            particle.removed = true;
+            objectMaker.release(particle);
+
+            // Act
+            const reused = objectMaker.make<{ removed?: boolean; size: number }>("particle");
+
+            // Assert
+            expect(reused.removed).to.be.equal(undefined);
+            expect(reused.size).to.be.equal(1);
+        });
+
+        it("calls onMake for a reused instance", (): void => {
+            // Arrange
+            const creator = spy();
+            const objectMaker = stubObjectMakr({
+                inheritance: {
+                    particle: {},
+                },
+                onMake: "creator",
+                pools: {
+                    particle: 1,
+                },
+                properties: {
+                    particle: { creator },
+                },
+            });
+
+            objectMaker.release(objectMaker.make("particle"));
+
+            // Act
+            objectMaker.make("particle");
+
+            // Assert
+            expect(creator).to.have.callCount(2);
+        });
+    });
+
+    describe("getGeneration", () => {
+        it("returns 0 for an instance that hasn't been reused", (): void => {
+            // Arrange
+            const objectMaker = stubObjectMakr({
+                inheritance: {
+                    particle: {},
+                },
+                pools: {
+                    particle: 1,
+                },
+            });
+            const particle = objectMaker.make<object>("particle");
+
+            // Act
+            const generation = objectMaker.getGeneration(particle);
+
+            // Assert
+            expect(generation).to.be.equal(0);
+        });
+
+        it("increases each time an instance is reused", (): void => {
+            // Arrange
+            const objectMaker = stubObjectMakr({
+                inheritance: {
+                    particle: {},
+                },
+                pools: {
+                    particle: 1,
+                },
+            });
+            const particle = objectMaker.make<object>("particle");
+
+            objectMaker.release(particle);
+            objectMaker.release(objectMaker.make("particle"));
+            objectMaker.make("particle");
+
+            // Act
+            const generation = objectMaker.getGeneration(particle);
+
+            // Assert
+            expect(generation).to.be.equal(2);
+        });
+    });
+
+    describe("setProperties", () => {
+        it("changes properties of instances made afterwards", (): void => {
+            // Arrange
+            const objectMaker = stubObjectMakr({
+                inheritance: {
+                    sample: {},
+                },
+                properties: {
+                    sample: { size: 8 },
+                },
+            });
+
+            objectMaker.make("sample");
+
+            // Act
+            objectMaker.setProperties("sample", { size: 16 });
+
+            // Assert
+            expect(objectMaker.make<{ size: number }>("sample").size).to.be.equal(16);
+        });
+
+        it("changes properties of existing instances of child classes", (): void => {
+            // Arrange
+            const objectMaker = stubObjectMakr({
+                inheritance: {
+                    parent: {
+                        child: {},
+                    },
+                },
+                properties: {
+                    parent: { size: 8 },
+                },
+            });
+            const madeObject = objectMaker.make<{ size: number }>("child");
+
+            // Act
+            objectMaker.setProperties("parent", { size: 16 });
+
+            // Assert
+            expect(madeObject.size).to.be.equal(16);
+        });
+
+        it("removes properties no longer given", (): void => {
+            // Arrange
+            const objectMaker = stubObjectMakr({
+                inheritance: {
+                    sample: {},
+                },
+                properties: {
+                    sample: { removed: true, size: 8 },
+                },
+            });
+            const madeObject = objectMaker.make<{ removed?: boolean }>("sample");
+
+            // Act
+            objectMaker.setProperties("sample", { size: 8 });
+
+            // Assert
+            expect(madeObject.removed).to.be.equal(undefined);
+        });
+
+        it("maps array properties to indices", (): void => {
+            // Arrange
+            const objectMaker = stubObjectMakr({
+                indexMap: ["width", "height"],
+                inheritance: {
+                    sample: {},
+                },
+                properties: {
+                    sample: [1, 2],
+                },
+            });
+            const madeObject = objectMaker.make<{ height: number; width: number }>("sample");
+
+            // Act
+            objectMaker.setProperties("sample", [3, 4]);
+
+            // Assert
+            expect(madeObject).to.include({ height: 4, width: 3 });
+        });
+
+        it("throws for an unknown class", (): void => {
+            // Arrange
+            const objectMaker = stubObjectMakr();
+
+            // Act
+            const action = () => objectMaker.setProperties("unknown", {});
+
+            // Assert
+            expect(action).to.throw("Unknown class name: 'unknown'.");
+        });
+    });
+
+    describe("setPoolSize", () => {
+        it("drops released instances past the new capacity", (): void => {
+            // Arrange
+            const objectMaker = stubObjectMakr({
+                inheritance: {
+                    particle: {},
+                },
+                pools: {
+                    particle: 2,
+                },
+            });
+
+            const first = objectMaker.make<object>("particle");
+            const second = objectMaker.make<object>("particle");
+
+            objectMaker.release(first);
+            objectMaker.release(second);
+
+            // Act
+            objectMaker.setPoolSize("particle", 1);
+
+            // Assert
+            expect(objectMaker.getPoolStats("particle")).to.include({
+                available: 1,
+                capacity: 1,
+            });
+        });
+    });
+
+    describe("getPoolStats", () => {
+        it("returns undefined for a class that isn't pooled", (): void => {
+            // Arrange
+            const objectMaker = stubObjectMakr({
+                inheritance: {
+                    particle: {},
+                },
+            });
+
+            // Act
+            const stats = objectMaker.getPoolStats("particle");
+
+            // Assert
+            expect(stats).to.be.equal(undefined);
+        });
+
+        it("counts created and reused instances", (): void => {
+            // Arrange
+            const objectMaker = stubObjectMakr({
+                inheritance: {
+                    particle: {},
+                },
+                pools: {
+                    particle: 1,
+                },
+            });
+
+            objectMaker.release(objectMaker.make("particle"));
+            objectMaker.make("particle");
+
+            // Act
+            const stats = objectMaker.getPoolStats("particle");
+
+            // Assert
+            expect(stats).to.be.deep.equal({
+                available: 0,
+                capacity: 1,
+                created: 1,
+                dropped: 0,
+                released: 1,
+                reused: 1,
+            });
+        });
+    });
 });
@@ -7,6 +7,8 @@ import {
     ClassProperties,
     ObjectMakrSettings,
     OnMakeFunction,
+    Pool,
+    PoolStats,
 } from "./types";
 
 /**
@@ -24,6 +26,18 @@ const shallowCopy = <T>(recipient: T, donor: Partial<T>): void => {
     }
 };
 
+/**
+ * Removes all own members of an instance, so only its prototype's members remain.
+ *
+ * @param instance   An instance being reset.
+ */
+const clearOwnProperties = (instance: object): void => {
+    for (const i of Object.keys(instance)) {
+        // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+        delete (instance as Record<string, unknown>)[i];
+    }
+};
+
 /**
  * An abstract factory for dynamic attribute-based classes.
  */
@@ -58,6 +72,16 @@ export class ObjectMakr {
      */
     private readonly onMake?: string;
 
+    /**
+     * How many times each reused instance has been reused.
+     */
+    private readonly generations = new WeakMap<object, number>();
+
+    /**
+     * Released instances waiting to be reused, keyed by class name.
+     */
+    private readonly pools: Record<string, Pool | undefined> = {};
+
     /**
      * Initializes a new instance of the ObjectMakr class.
      *
@@ -72,6 +96,10 @@ export class ObjectMakr {
         this.classes = { Object };
         this.classParentNames = {};
         this.generateClassParentNames(this.inheritance, "Object");
+
+        for (const name in settings.pools) {
+            this.setPoolSize(name, settings.pools[name]);
+        }
     }
 
     /**
@@ -97,17 +125,54 @@ export class ObjectMakr {
     }
 
     /**
-     * Creates a new instance of a class.
+     * Replaces the properties of a class, such as to hot reload it.
+     *
+     * @param name   Name of a class.
+     * @param properties   New properties for the class.
+     * @remarks If the class was already created, its prototype is updated in place, so
+     *          existing instances and child classes see the new properties except where
+     *          they have their own.
+     */
+    public setProperties(name: string, properties: object): void {
+        if (!this.hasClass(name)) {
+            throw new Error(`Unknown class name: '${name}'.`);
+        }
+
+        this.properties[name] =
+            this.indexMap && properties instanceof Array
+                ? this.processIndexMappedProperties(properties as string[])
+                : properties;
+
+        if (!(name in this.classes)) {
+            return;
+        }
+
+        const prototype = this.classes[name].prototype as Record<string, unknown>;
+
+        for (const key of Object.keys(prototype)) {
+            if (key !== "constructor") {
+                // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+                delete prototype[key];
+            }
+        }
+
+        shallowCopy(prototype, this.properties[name] as Record<string, unknown>);
+    }
+
+    /**
+     * Creates a new instance of a class, or reuses a released one if the class is pooled.
      *
      * @template T   Type of class being created.
      * @param name   Name of the class.
      * @param settings   Additional attributes to deep copy onto the new instance.
-     * @returns A newly created instance of the specified class.
+     * @returns A newly created or reset instance of the specified class.
+     * @remarks Reused instances are reset to their prototype's members before settings are copied.
      */
     public make<T>(name: string, settings?: Partial<T>): T {
         this.ensureClassExists(name);
 
-        const instance: T = new this.classes[name]();
+        const instance =
+            (this.takeFromPool(name) as T | undefined) ?? (new this.classes[name]() as T);
         if (settings !== undefined) {
             shallowCopy(instance, settings);
         }
@@ -119,6 +184,145 @@ export class ObjectMakr {
         return instance;
     }
 
+    /**
+     * Keeps an instance of a pooled class to be reused by a later make.
+     *
+     * @param instance   An instance no longer in use.
+     * @returns Whether the instance was kept, which it isn't if its class isn't pooled or its pool is full.
+     * @remarks Instances aren't reset until they're reused, so any remaining references still see their old members.
+     */
+    public release(instance: object): boolean {
+        const pool = this.findPoolOf(instance);
+        if (!pool || pool.instances.includes(instance)) {
+            return false;
+        }
+
+        if (pool.instances.length >= pool.stats.capacity) {
+            pool.stats.dropped += 1;
+            return false;
+        }
+
+        pool.instances.push(instance);
+        pool.stats.released += 1;
+        return true;
+    }
+
+    /**
+     * Takes a released instance back out of its pool, such as when it's in use again.
+     *
+     * @param instance   An instance that may have been released.
+     * @returns Whether the instance was in its pool.
+     * @remarks Reclaimed instances aren't reset, as they're still the same instance as before being released.
+     */
+    public reclaim(instance: object): boolean {
+        const pool = this.findPoolOf(instance);
+        const index = pool ? pool.instances.indexOf(instance) : -1;
+        if (!pool || index === -1) {
+            return false;
+        }
+
+        pool.instances.splice(index, 1);
+        return true;
+    }
+
+    /**
+     * Sets how many released instances of a class to keep for reuse.
+     *
+     * @param name   Name of the class.
+     * @param capacity   Most released instances to keep waiting to be reused.
+     */
+    public setPoolSize(name: string, capacity: number): void {
+        this.ensureClassExists(name);
+
+        const pool = (this.pools[name] ??= {
+            instances: [],
+            stats: {
+                available: 0,
+                capacity,
+                created: 0,
+                dropped: 0,
+                released: 0,
+                reused: 0,
+            },
+        });
+
+        pool.stats.capacity = capacity;
+
+        if (pool.instances.length > capacity) {
+            pool.instances.length = capacity;
+        }
+    }
+
+    /**
+     * Gets usage statistics for a class's pool.
+     *
+     * @param name   Name of the class.
+     * @returns Usage statistics for the class's pool, if it's pooled.
+     */
+    public getPoolStats(name: string): PoolStats | undefined {
+        const pool = this.pools[name];
+
+        return (
+            pool && {
+                ...pool.stats,
+                available: pool.instances.length,
+            }
+        );
+    }
+
+    /**
+     * Gets how many times an instance has been reused, such as to tell whether a
+     * reference to it is from before it was last released.
+     *
+     * @param instance   An instance of a class.
+     * @returns How many times the instance has been reused by make.
+     */
+    public getGeneration(instance: object): number {
+        return this.generations.get(instance) ?? 0;
+    }
+
+    /**
+     * Takes and resets a released instance of a class, if it's pooled and has any.
+     *
+     * @param name   Name of the class.
+     * @returns A reset instance of the class, if one was available.
+     */
+    private takeFromPool(name: string): object | undefined {
+        const pool = this.pools[name];
+        if (!pool) {
+            return undefined;
+        }
+
+        const instance = pool.instances.pop();
+        if (!instance) {
+            pool.stats.created += 1;
+            return undefined;
+        }
+
+        clearOwnProperties(instance);
+        this.generations.set(instance, this.getGeneration(instance) + 1);
+        pool.stats.reused += 1;
+        return instance;
+    }
+
+    /**
+     * Finds the pool for an instance's class.
+     *
+     * @param instance   An instance of a class.
+     * @returns The pool for the instance's class, if it's pooled.
+     */
+    private findPoolOf(instance: object): Pool | undefined {
+        const prototype: unknown = Object.getPrototypeOf(instance);
+
+        for (const name in this.pools) {
+            if (this.classes[name].prototype === prototype) {
+                return this.pools[name];
+            }
+        }
+
+        return undefined;
+    }
+
     /**
      * Creates a class from the recorded properties.
      *
@@ -155,12 +359,9 @@ export class ObjectMakr {
      * @param parentName   Name of the parent class.
      */
     private extendClass(newClass: Class, parentName: string): void {
-        // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-        const parentClass: Class = this.classes[parentName]
-            ? this.classes[parentName]
-            : this.createClass(parentName);
+        this.ensureClassExists(parentName);
 
-        newClass.prototype = new parentClass();
+        newClass.prototype = new this.classes[parentName]();
         newClass.prototype.constructor = newClass;
     }
 
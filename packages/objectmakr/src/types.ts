@@ -36,6 +36,56 @@ export type Class = new () => any;
  */
 export type OnMakeFunction<T> = (this: T, output: T, name: string) => void;
 
+/**
+ * Usage statistics for a class's pool of released instances.
+ */
+export interface PoolStats {
+    /**
+     * How many released instances are waiting to be reused.
+     */
+    available: number;
+
+    /**
+     * Most released instances to keep waiting to be reused.
+     */
+    capacity: number;
+
+    /**
+     * How many instances were created because none were available.
+     */
+    created: number;
+
+    /**
+     * How many released instances weren't kept because the pool was full.
+     */
+    dropped: number;
+
+    /**
+     * How many released instances were kept to be reused.
+     */
+    released: number;
+
+    /**
+     * How many instances were reused instead of created.
+     */
+    reused: number;
+}
+
+/**
+ * Released instances of a class waiting to be reused.
+ */
+export interface Pool {
+    /**
+     * Released instances waiting to be reused.
+     */
+    instances: object[];
+
+    /**
+     * Usage statistics for the pool.
+     */
+    stats: PoolStats;
+}
+
 /**
  * Settings to initialize a new IObjectMakr.
  */
@@ -59,4 +109,9 @@ export interface ObjectMakrSettings {
      * Member name for a function on instances to be called upon creation.
      */
     onMake?: string;
+
+    /**
+     * Most released instances to keep for reuse, keyed by class name.
+     */
+    pools?: Record<string, number>;
 }
@@ -1,5 +1,249 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+
+import { stubActor, stubPixelDrawr } from "./fakes.test";
+
 describe("PixelDrawr", () => {
-    it("_", () => {
-        /* ... */
+    describe("refillGlobalCanvas", () => {
+        it("draws Actors on the screen", () => {
+            // Arrange
+            const actor = stubActor(16, 16);
+            const { contexts, pixelDrawer } = stubPixelDrawr({ actorArrays: [[actor]] });
+
+            // Act
+            pixelDrawer.refillGlobalCanvas();
+
+            // Assert
+            expect(contexts.foreground.drawImage).to.have.callCount(1);
+        });
+
+        it("skips Actors outside the screen", () => {
+            // Arrange
+            const actor = stubActor(200, 16);
+            const { contexts, pixelDrawer } = stubPixelDrawr({ actorArrays: [[actor]] });
+
+            // Act
+            pixelDrawer.refillGlobalCanvas();
+
+            // Assert
+            expect(contexts.foreground.drawImage).to.have.callCount(0);
+        });
+
+        it("draws Actors once per viewport they're within", () => {
+            // Arrange
+            const actor = stubActor(16, 16);
+            const { contexts, pixelDrawer } = stubPixelDrawr({
+                actorArrays: [[actor]],
+                viewports: [
+                    { canvasLeft: 0, canvasTop: 0, height: 120, left: 0, top: 0, width: 80 },
+                    { canvasLeft: 80, canvasTop: 0, height: 120, left: 0, top: 0, width: 80 },
+                    { canvasLeft: 0, canvasTop: 0, height: 120, left: 80, top: 0, width: 80 },
+                ],
+            });
+
+            // Act
+            pixelDrawer.refillGlobalCanvas();
+
+            // Assert
+            expect(contexts.foreground.drawImage).to.have.callCount(2);
+        });
+
+        it("draws Actors outside the screen within a viewport", () => {
+            // Arrange
+            const actor = stubActor(200, 16);
+            const { contexts, pixelDrawer } = stubPixelDrawr({
+                actorArrays: [[actor]],
+                viewports: [
+                    { canvasLeft: 0, canvasTop: 0, height: 120, left: 160, top: 0, width: 80 },
+                ],
+            });
+
+            // Act
+            pixelDrawer.refillGlobalCanvas();
+
+            // Assert
+            expect(contexts.foreground.drawImage).to.have.callCount(1);
+        });
+
+        it("clips each viewport to its canvas region", () => {
+            // Arrange
+            const { contexts, pixelDrawer } = stubPixelDrawr({
+                viewports: [
+                    {
+                        canvasLeft: 120,
+                        canvasTop: 10,
+                        height: 120,
+                        left: 0,
+                        scale: 0.25,
+                        top: 0,
+                        width: 160,
+                    },
+                ],
+            });
+
+            // Act
+            pixelDrawer.refillGlobalCanvas();
+
+            // Assert
+            expect(contexts.foreground.rect).to.have.been.calledWithExactly(120, 10, 40, 30);
+        });
+
+        it("offsets each viewport by its canvas region and view position", () => {
+            // Arrange
+            const { contexts, pixelDrawer } = stubPixelDrawr({
+                viewports: [
+                    { canvasLeft: 80, canvasTop: 0, height: 120, left: 32, top: 16, width: 80 },
+                ],
+            });
+
+            // Act
+            pixelDrawer.refillGlobalCanvas();
+
+            // Assert
+            expect(contexts.foreground.translate).to.have.been.calledWithExactly(-32, -16);
+        });
+
+        it("offsets viewports with a camera by the camera's position relative to the screen", () => {
+            // Arrange
+            const actor = stubActor(400, 48);
+            const { contexts, pixelDrawer } = stubPixelDrawr({
+                actorArrays: [[actor]],
+                viewports: [
+                    {
+                        camera: { left: 384, top: 32 },
+                        canvasLeft: 80,
+                        canvasTop: 0,
+                        height: 120,
+                        left: 0,
+                        top: 0,
+                        width: 80,
+                    },
+                ],
+            });
+
+            // Act
+            pixelDrawer.refillGlobalCanvas();
+
+            // Assert
+            expect(contexts.foreground.translate).to.have.been.calledWithExactly(-384, -32);
+            expect(contexts.foreground.drawImage).to.have.callCount(1);
+        });
+
+        it("draws Actors at their current positions by default", () => {
+            // Arrange
+            const actor = { ...stubActor(16, 16), previousLeft: 8, previousTop: 0 };
+            const { contexts, pixelDrawer } = stubPixelDrawr({ actorArrays: [[actor]] });
+
+            // Act
+            pixelDrawer.refillGlobalCanvas();
+
+            // Assert
+            expect(contexts.foreground.drawImage).to.have.been.calledWithMatch({}, 16, 16);
+        });
+
+        it("draws Actors between their previous and current positions when interpolating", () => {
+            // Arrange
+            const actor = { ...stubActor(16, 16), previousLeft: 8, previousTop: 0 };
+            const { contexts, pixelDrawer } = stubPixelDrawr({ actorArrays: [[actor]] });
+
+            // Act
+            pixelDrawer.refillGlobalCanvas(0.5);
+
+            // Assert
+            expect(contexts.foreground.drawImage).to.have.been.calledWithMatch({}, 12, 8);
+        });
+
+        it("skips Actors whose interpolated positions are outside the screen", () => {
+            // Arrange
+            const actor = { ...stubActor(156, 16), previousLeft: 200 };
+            const { contexts, pixelDrawer } = stubPixelDrawr({ actorArrays: [[actor]] });
+
+            // Act
+            pixelDrawer.refillGlobalCanvas(0);
+
+            // Assert
+            expect(contexts.foreground.drawImage).to.have.callCount(0);
+        });
+        it("draws children directly after their parent instead of in their own arrays", () => {
+            // Arrange
+            const parent = stubActor(16, 16);
+            const child = { ...stubActor(32, 16), parent };
+            const other = stubActor(48, 16);
+            const { contexts, pixelDrawer } = stubPixelDrawr({
+                actorArrays: [[parent, other], [child]],
+            });
+
+            parent.children = [child];
+
+            // Act
+            pixelDrawer.refillGlobalCanvas();
+
+            // Assert
+            expect(contexts.foreground.drawImage).to.have.callCount(3);
+            expect(
+                (contexts.foreground.drawImage as sinon.SinonSpy).getCall(1)
+            ).to.have.been.calledWithMatch({}, 32, 16);
+        });
+    });
+
+    describe("setActorArrays", () => {
+        it("draws the new Actor arrays instead of the previous ones", () => {
+            // Arrange
+            const { contexts, pixelDrawer } = stubPixelDrawr({
+                actorArrays: [[stubActor(16, 16)]],
+            });
+
+            pixelDrawer.setActorArrays([[stubActor(16, 16), stubActor(32, 16)]]);
+
+            // Act
+            pixelDrawer.refillGlobalCanvas();
+
+            // Assert
+            expect(contexts.foreground.drawImage).to.have.callCount(2);
+        });
+    });
+
+    describe("addViewport", () => {
+        it("doesn't add to the viewports array from settings", () => {
+            // Arrange
+            const viewports = [
+                { canvasLeft: 0, canvasTop: 0, height: 120, left: 0, top: 0, width: 80 },
+            ];
+            const { pixelDrawer } = stubPixelDrawr({ viewports });
+
+            // Act
+            pixelDrawer.addViewport({ ...viewports[0], canvasLeft: 80 });
+
+            // Assert
+            expect(viewports).to.have.length(1);
+        });
+    });
+
+    describe("removeViewport", () => {
+        it("stops drawing the viewport", () => {
+            // Arrange
+            const actor = stubActor(16, 16);
+            const viewport = {
+                canvasLeft: 0,
+                canvasTop: 0,
+                height: 120,
+                left: 0,
+                top: 0,
+                width: 80,
+            };
+            const { contexts, pixelDrawer } = stubPixelDrawr({
+                actorArrays: [[actor]],
+                viewports: [viewport],
+            });
+
+            pixelDrawer.addViewport({ ...viewport, canvasLeft: 80 });
+
+            // Act
+            pixelDrawer.removeViewport(viewport);
+            pixelDrawer.refillGlobalCanvas();
+
+            // Assert
+            expect(contexts.foreground.drawImage).to.have.callCount(1);
+        });
     });
 });
@@ -1,43 +1,61 @@
 import { PixelRendr, SpriteMultiple, SpriteSingle } from "pixelrendr";
 
 import { DrawingContexts } from ".";
-import { Actor, BoundingBox, PixelDrawrSettings } from "./types";
+import { Actor, BoundingBox, PixelDrawrSettings, Viewport } from "./types";
 
 /**
  * @param actor   Any Actor.
+ * @param shift   How far to shift the position, such as for interpolation.
  * @returns The Actor's top position, accounting for vertical offset if needed.
  */
-const getTop = (actor: Actor) => (actor.top + (actor.offsetY ?? 0)) | 0;
+const getTop = (actor: Actor, shift = 0) => (actor.top + (actor.offsetY ?? 0) + shift) | 0;
 
 /**
  * @param actor   Any Actor.
+ * @param shift   How far to shift the position, such as for interpolation.
  * @returns The Actor's right position, accounting for horizontal offset if needed.
  */
-const getRight = (actor: Actor) => (actor.right + (actor.offsetX ?? 0)) | 0;
+const getRight = (actor: Actor, shift = 0) => (actor.right + (actor.offsetX ?? 0) + shift) | 0;
 
 /**
  * @param actor   Any Actor.
+ * @param shift   How far to shift the position, such as for interpolation.
  * @returns The Actor's bottom position, accounting for vertical offset if needed.
  */
-const getBottom = (actor: Actor) => (actor.bottom + (actor.offsetY ?? 0)) | 0;
+const getBottom = (actor: Actor, shift = 0) => (actor.bottom + (actor.offsetY ?? 0) + shift) | 0;
 
 /**
  * @param actor   Any Actor.
+ * @param shift   How far to shift the position, such as for interpolation.
  * @returns The Actor's left position, accounting for horizontal offset if needed.
  */
-const getLeft = (actor: Actor) => (actor.left + (actor.offsetX ?? 0)) | 0;
+const getLeft = (actor: Actor, shift = 0) => (actor.left + (actor.offsetX ?? 0) + shift) | 0;
 
 /**
  * @param actor   Any Actor.
+ * @param shift   How far to shift the position, such as for interpolation.
  * @returns The Actor's horizontal center, accounting for horizontal offset if needed.
  */
-const getMidX = (actor: Actor) => (getLeft(actor) + actor.width / 2) | 0;
+const getMidX = (actor: Actor, shift = 0) => (getLeft(actor, shift) + actor.width / 2) | 0;
 
 /**
  * @param actor   Any Actor.
+ * @param shift   How far to shift the position, such as for interpolation.
  * @returns The Actor's vertical center, accounting for vertical offset if needed.
  */
-const getMidY = (actor: Actor) => (getTop(actor) + actor.height / 2) | 0;
+const getMidY = (actor: Actor, shift = 0) => (getTop(actor, shift) + actor.height / 2) | 0;
+
+/**
+ * @param current   Current position along an axis.
+ * @param previous   Position along the axis as of the previous simulation step, if known.
+ * @param interpolation   How far time is from the previous step to the current one, in [0, 1].
+ * @returns How far to shift the current position to its interpolated position.
+ */
+const getInterpolationShift = (
+    current: number,
+    previous: number | undefined,
+    interpolation: number
+) => (previous === undefined ? 0 : (previous - current) * (1 - interpolation));
 
 /**
  * Real-time scene drawer for PixelRendr sprites.
@@ -46,7 +64,7 @@ export class PixelDrawr {
     /**
      * Arrays of Actor[]s that are to be drawn in each refill.
      */
-    private readonly actorArrays: Actor[][];
+    private actorArrays: Actor[][];
 
     /**
      * The bounds of the screen for bounds checking (often a MapScreenr).
@@ -73,6 +91,11 @@ export class PixelDrawr {
      */
     private readonly pixelRender: PixelRendr;
 
+    /**
+     * Regions of the screen to draw onto regions of the canvas, if not the whole screen.
+     */
+    private readonly viewports: Viewport[];
+
     /**
      * How often the screen redraws (1 for always, 2 for every other call, etc).
      */
@@ -98,6 +121,7 @@ export class PixelDrawr {
         this.framesDrawn = 0;
         this.epsilon = settings.epsilon ?? 0.007;
         this.actorArrays = settings.actorArrays ?? [];
+        this.viewports = [...(settings.viewports ?? [])];
 
         if (settings.background) {
             this.setBackground(settings.background);
@@ -111,6 +135,43 @@ export class PixelDrawr {
         this.framerateSkip = framerateSkip;
     }
 
+    /**
+     * @param actorArrays   Arrays of Actor[]s that are to be drawn in each refill, in order.
+     */
+    public setActorArrays(actorArrays: Actor[][]): void {
+        this.actorArrays = actorArrays;
+    }
+
+    /**
+     * @returns Regions of the screen drawn onto regions of the canvas.
+     * @remarks Viewports may be moved by changing their properties between refills.
+     */
+    public getViewports(): readonly Viewport[] {
+        return this.viewports;
+    }
+
+    /**
+     * Adds a region of the screen to draw onto a region of the canvas.
+     *
+     * @param viewport   Region of the screen and canvas to draw.
+     */
+    public addViewport(viewport: Viewport): void {
+        this.viewports.push(viewport);
+    }
+
+    /**
+     * Stops drawing a region of the screen.
+     *
+     * @param viewport   A viewport previously added or passed in settings.
+     */
+    public removeViewport(viewport: Viewport): void {
+        const index = this.viewports.indexOf(viewport);
+
+        if (index !== -1) {
+            this.viewports.splice(index, 1);
+        }
+    }
+
     /**
      * Refills the background canvas with a new fillStyle.
      *
@@ -123,9 +184,12 @@ export class PixelDrawr {
 
     /**
      * Called every upkeep to refill the entire main canvas. All Actor arrays
-     * are made to call this.refillActorArray in order.
+     * are made to call this.refillActorArray in order, once per viewport.
+     *
+     * @param interpolation   How far time is from Actors' previous positions to their
+     *                        current ones, in [0, 1] (by default, 1 for current positions).
      */
-    public refillGlobalCanvas(): void {
+    public refillGlobalCanvas(interpolation = 1): void {
         this.framesDrawn += 1;
         if (this.framesDrawn % this.framerateSkip !== 0) {
             return;
@@ -133,19 +197,136 @@ export class PixelDrawr {
 
         this.contexts.foreground.clearRect(0, 0, this.boundingBox.width, this.boundingBox.height);
 
+        if (!this.viewports.length) {
+            this.refillActorArrays(
+                this.contexts.foreground,
+                {
+                    canvasLeft: 0,
+                    canvasTop: 0,
+                    height: this.boundingBox.height,
+                    left: 0,
+                    top: 0,
+                    width: this.boundingBox.width,
+                },
+                interpolation
+            );
+            return;
+        }
+
+        for (const viewport of this.viewports) {
+            this.refillViewport(this.contexts.foreground, viewport, interpolation);
+        }
+    }
+
+    /**
+     * Draws all Actor arrays within a viewport onto its canvas region.
+     *
+     * @param context   The context to draw on.
+     * @param viewport   Region of the screen and canvas to draw.
+     * @param interpolation   How far time is from Actors' previous positions to their current ones.
+     */
+    private refillViewport(
+        context: CanvasRenderingContext2D,
+        viewport: Viewport,
+        interpolation: number
+    ): void {
+        const scale = viewport.scale ?? 1;
+
+        context.save();
+        context.beginPath();
+        context.rect(
+            viewport.canvasLeft,
+            viewport.canvasTop,
+            viewport.width * scale,
+            viewport.height * scale
+        );
+        context.clip();
+        context.translate(viewport.canvasLeft, viewport.canvasTop);
+        context.scale(scale, scale);
+
+        const screenViewport = this.getScreenViewport(viewport);
+
+        context.translate(-screenViewport.left, -screenViewport.top);
+
+        this.refillActorArrays(context, screenViewport, interpolation);
+
+        context.restore();
+    }
+
+    /**
+     * @param viewport   Region of the screen and canvas to draw.
+     * @returns The viewport, with its viewed region relative to the screen.
+     */
+    private getScreenViewport(viewport: Viewport): Viewport {
+        if (!viewport.camera) {
+            return viewport;
+        }
+
+        return {
+            ...viewport,
+            left: viewport.left + viewport.camera.left - this.boundingBox.left,
+            top: viewport.top + viewport.camera.top - this.boundingBox.top,
+        };
+    }
+
+    /**
+     * Calls refillActorArray on each Actor array, in order.
+     *
+     * @param context   The context to draw on.
+     * @param viewport   Region of the screen being drawn.
+     * @param interpolation   How far time is from Actors' previous positions to their current ones.
+     */
+    private refillActorArrays(
+        context: CanvasRenderingContext2D,
+        viewport: Viewport,
+        interpolation: number
+    ): void {
         for (const array of this.actorArrays) {
-            this.refillActorArray(array);
+            this.refillActorArray(context, array, viewport, interpolation);
         }
     }
 
     /**
-     * Calls drawActorOnContext on each Actor in the Array.
+     * Calls drawActorWithChildren on each Actor in the Array without a parent.
      *
+     * @param context   The context to draw on.
      * @param array   A listing of Actors to be drawn onto the canvas.
+     * @param viewport   Region of the screen being drawn.
+     * @param interpolation   How far time is from Actors' previous positions to their current ones.
      */
-    private refillActorArray(array: Actor[]): void {
+    private refillActorArray(
+        context: CanvasRenderingContext2D,
+        array: Actor[],
+        viewport: Viewport,
+        interpolation: number
+    ): void {
         for (const member of array) {
-            this.drawActorOnContext(this.contexts.foreground, member);
+            if (!member.parent) {
+                this.drawActorWithChildren(context, member, viewport, interpolation);
+            }
+        }
+    }
+
+    /**
+     * Draws an Actor, then each of its children after it.
+     *
+     * @param context   The context to draw on.
+     * @param actor   The Actor to be drawn onto the context.
+     * @param viewport   Region of the screen being drawn.
+     * @param interpolation   How far time is from Actors' previous positions to their current ones.
+     */
+    private drawActorWithChildren(
+        context: CanvasRenderingContext2D,
+        actor: Actor,
+        viewport: Viewport,
+        interpolation: number
+    ): void {
+        this.drawActorOnContext(context, actor, viewport, interpolation);
+
+        if (actor.children) {
+            for (const child of actor.children) {
+                this.drawActorWithChildren(context, child, viewport, interpolation);
+            }
         }
     }
 
@@ -155,27 +336,36 @@ export class PixelDrawr {
      *
      * @param context   The context to have The Actor drawn on it.
      * @param Actor   The Actor to be drawn onto the context.
+     * @param viewport   Region of the screen being drawn, to skip Actors outside of.
+     * @param interpolation   How far time is from the Actor's previous position to its current one.
      */
-    private drawActorOnContext(context: CanvasRenderingContext2D, actor: Actor): void {
-        let left = getLeft(actor);
-        let top = getTop(actor);
+    private drawActorOnContext(
+        context: CanvasRenderingContext2D,
+        actor: Actor,
+        viewport: Viewport,
+        interpolation: number
+    ): void {
+        const shiftX = getInterpolationShift(actor.left, actor.previousLeft, interpolation);
+        const shiftY = getInterpolationShift(actor.top, actor.previousTop, interpolation);
+        let left = getLeft(actor, shiftX);
+        let top = getTop(actor, shiftY);
 
         if (
             actor.hidden ||
             actor.opacity < this.epsilon ||
             actor.height < 1 ||
             actor.width < 1 ||
-            top > this.boundingBox.height ||
-            getRight(actor) < 0 ||
-            getBottom(actor) < 0 ||
-            left > this.boundingBox.width
+            top > viewport.top + viewport.height ||
+            getRight(actor, shiftX) < viewport.left ||
+            getBottom(actor, shiftY) < viewport.top ||
+            left > viewport.left + viewport.width
         ) {
             return;
         }
 
         if (actor.rotation !== undefined && actor.rotation !== 0) {
             context.save();
-            context.translate(getMidX(actor), getMidY(actor));
+            context.translate(getMidX(actor, shiftX), getMidY(actor, shiftY));
             context.rotate(actor.rotation);
             left = -actor.width / 2;
             top = -actor.height / 2;
@@ -0,0 +1,61 @@
+import { PixelRendr, SpriteSingle } from "pixelrendr";
+import * as sinon from "sinon";
+
+import { PixelDrawr } from "./PixelDrawr";
+import { Actor, PixelDrawrSettings } from "./types";
+
+export const stubHeight = 120;
+export const stubWidth = 160;
+
+export const stubContext = () =>
+    ({
+        beginPath: sinon.spy(),
+        clearRect: sinon.spy(),
+        clip: sinon.spy(),
+        drawImage: sinon.spy(),
+        fillRect: sinon.spy(),
+        rect: sinon.spy(),
+        restore: sinon.spy(),
+        save: sinon.spy(),
+        scale: sinon.spy(),
+        translate: sinon.spy(),
+    } as unknown as CanvasRenderingContext2D);
+
+export const stubActor = (left: number, top: number, size = 8): Actor => ({
+    bottom: top + size,
+    height: size,
+    left,
+    opacity: 1,
+    right: left + size,
+    spriteHeight: size,
+    spriteWidth: size,
+    top,
+    width: size,
+});
+
+export const stubPixelDrawr = (settings: Partial<PixelDrawrSettings> = {}) => {
+    const sprite = new SpriteSingle(new Uint8ClampedArray());
+    sinon.stub(sprite, "getCanvas").returns({ height: 8, width: 8 } as HTMLCanvasElement);
+
+    const decode = sinon.stub().returns(sprite);
+    const contexts = {
+        background: stubContext(),
+        foreground: stubContext(),
+    };
+    const pixelDrawer = new PixelDrawr({
+        boundingBox: {
+            bottom: stubHeight,
+            height: stubHeight,
+            left: 0,
+            right: stubWidth,
+            top: 0,
+            width: stubWidth,
+        },
+        contexts,
+        generateObjectKey: () => "Actor",
+        pixelRender: { decode } as unknown as PixelRendr,
+        ...settings,
+    });
+
+    return { contexts, decode, pixelDrawer };
+};
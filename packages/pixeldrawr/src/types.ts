@@ -58,10 +58,75 @@ export interface BoundingBox {
     height: number;
 }
 
+/**
+ * Position a viewport views from, commonly fulfilled by a MapScreenr.
+ */
+export interface ViewportCamera {
+    /**
+     * The left boundary of the camera, positioned like the screen's.
+     */
+    left: number;
+
+    /**
+     * The top boundary of the camera, positioned like the screen's.
+     */
+    top: number;
+}
+
+/**
+ * Region of the screen to draw onto a region of the canvas.
+ */
+export interface Viewport {
+    /**
+     * Camera to view from instead of the screen, such as one following a second player.
+     */
+    camera?: ViewportCamera;
+
+    /**
+     * Left edge of the canvas region to draw onto.
+     */
+    canvasLeft: number;
+
+    /**
+     * Top edge of the canvas region to draw onto.
+     */
+    canvasTop: number;
+
+    /**
+     * How tall the viewed region of the screen is.
+     */
+    height: number;
+
+    /**
+     * Left edge of the viewed region, relative to its camera's left or else the screen's.
+     */
+    left: number;
+
+    /**
+     * How much to expand the viewed region by when drawing (by default, 1 for not at all).
+     */
+    scale?: number;
+
+    /**
+     * Top edge of the viewed region, relative to its camera's top or else the screen's.
+     */
+    top: number;
+
+    /**
+     * How wide the viewed region of the screen is.
+     */
+    width: number;
+}
+
 /**
  * Collected information about a sprite that must be drawn.
  */
 export interface Actor extends BoundingBox {
+    /**
+     * Attached Actors to draw directly after this, instead of in their own arrays.
+     */
+    children?: Actor[];
+
     /**
      * Whether this shouldn't be drawn (is completely hidden).
      */
@@ -82,6 +147,21 @@ export interface Actor extends BoundingBox {
      */
     offsetY?: number;
 
+    /**
+     * Actor this is attached to, which draws this directly after itself.
+     */
+    parent?: Actor;
+
+    /**
+     * Left position as of the previous simulation step, for interpolated drawing.
+     */
+    previousLeft?: number;
+
+    /**
+     * Top position as of the previous simulation step, for interpolated drawing.
+     */
+    previousTop?: number;
+
     /**
      * Whether the Actor's sprite should repeat across large canvases.
      */
@@ -158,4 +238,10 @@ export interface PixelDrawrSettings {
      * never pre-rendering).
      */
     spriteCacheCutoff?: number;
+
+    /**
+     * Regions of the screen to draw onto regions of the canvas (by default, the
+     * whole screen onto the whole canvas).
+     */
+    viewports?: Viewport[];
 }
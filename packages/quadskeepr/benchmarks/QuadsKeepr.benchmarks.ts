@@ -0,0 +1,36 @@
+import { moveActors, numFrames, numMoving, screenSize, stubLargeMap } from "../src/fakes.test";
+
+/**
+ * Measures how long it takes to run each frame.
+ *
+ * @param runFrame   Runs a frame.
+ * @returns Average milliseconds per frame.
+ */
+const timeFrames = (runFrame: (frame: number) => void) => {
+    const start = performance.now();
+
+    for (let frame = 0; frame < numFrames; frame += 1) {
+        runFrame(frame);
+    }
+
+    return (performance.now() - start) / numFrames;
+};
+
+const full = stubLargeMap();
+const incremental = stubLargeMap();
+
+const fullTime = timeFrames((frame) => {
+    moveActors(full.actors, frame);
+    full.quadsKeeper.clearAllQuadrants();
+    full.quadsKeeper.determineGroupQuadrants(full.actors);
+});
+const incrementalTime = timeFrames((frame) => {
+    moveActors(incremental.actors, frame);
+    incremental.quadsKeeper.determineGroupQuadrants(incremental.actors, "Solid");
+});
+
+console.log(
+    `${full.actors.length} Actors on a ${screenSize}x${screenSize} grid, ${numMoving} moving each frame:`
+);
+console.log(`  Placing every Actor: ${fullTime.toFixed(2)}ms per frame`);
+console.log(`  Placing moved Actors: ${incrementalTime.toFixed(2)}ms per frame`);
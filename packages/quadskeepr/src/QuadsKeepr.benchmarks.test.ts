@@ -0,0 +1,36 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+
+import { getMovingActors, moveActors, numFrames, stubLargeMap } from "./fakes.test";
+import { Actor } from "./types";
+
+const countQuadrants = (actors: Actor[]) =>
+    actors.reduce((total, actor) => total + actor.numQuadrants, 0);
+
+describe("QuadsKeepr benchmarks", () => {
+    it("only places moved Actors again", () => {
+        // Arrange
+        const full = stubLargeMap();
+        const incremental = stubLargeMap();
+        const movingActors = getMovingActors(full.actors);
+        const incrementalPlacements = sinon.spy(incremental.quadsKeeper, "setActorInQuadrant");
+        let fullPlacements = 0;
+        let movedPlacements = 0;
+
+        // Act
+        for (let frame = 0; frame < numFrames; frame += 1) {
+            moveActors(full.actors, frame);
+            full.quadsKeeper.clearAllQuadrants();
+            full.quadsKeeper.determineGroupQuadrants(full.actors);
+            fullPlacements += countQuadrants(full.actors);
+            movedPlacements += countQuadrants(movingActors);
+
+            moveActors(incremental.actors, frame);
+            incremental.quadsKeeper.determineGroupQuadrants(incremental.actors, "Solid");
+        }
+
+        // Assert
+        expect(incrementalPlacements.callCount).to.be.equal(movedPlacements);
+        expect(incrementalPlacements.callCount).to.be.lessThan(fullPlacements);
+    });
+});
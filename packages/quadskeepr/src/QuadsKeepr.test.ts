@@ -1,5 +1,412 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+
+import { QuadsKeepr } from "./QuadsKeepr";
+import { SpatialHash } from "./SpatialHash";
+import { Actor, SpatialIndex } from "./types";
+
+const stubSpatialIndex = (): SpatialIndex<Actor> => ({
+    clear: sinon.spy(),
+    getQuadrantsIn: sinon.stub().returns([]),
+    removeActor: sinon.spy(),
+    shift: sinon.spy(),
+    updateActors: sinon.spy(),
+});
+
+const stubQuadsKeepr = (spatialIndex?: SpatialIndex<Actor>) => {
+    const quadsKeeper = new QuadsKeepr<Actor>({
+        groupNames: ["Character", "Solid"],
+        numCols: 2,
+        numRows: 2,
+        quadrantHeight: 32,
+        quadrantWidth: 32,
+        spatialIndex,
+    });
+
+    quadsKeeper.resetQuadrants();
+
+    return quadsKeeper;
+};
+
+const stubActor = (left: number, top: number, groupType = "Solid"): Actor => ({
+    bottom: top + 8,
+    changed: true,
+    groupType,
+    left,
+    numQuadrants: 0,
+    quadrants: [],
+    right: left + 8,
+    top,
+});
+
+const stubQuadsKeeprWithActors = (actors: Actor[], spatialIndex?: SpatialIndex<Actor>) => {
+    const quadsKeeper = stubQuadsKeepr(spatialIndex);
+
+    quadsKeeper.determineGroupQuadrants(actors);
+
+    return quadsKeeper;
+};
+
+const shiftActors = (actors: Actor[], dx: number) => {
+    for (const actor of actors) {
+        actor.left += dx;
+        actor.right += dx;
+    }
+};
+
+const getGridCounts = (quadsKeeper: QuadsKeepr<Actor>) =>
+    quadsKeeper
+        .getQuadrantRows()
+        .map((row) => row.quadrants.map((quadrant) => quadrant.numActors.Solid));
+
 describe("QuadsKeepr", () => {
     it("_", () => {
         /* ... */
     });
+
+    describe("getQuadrantsIn", () => {
+        it("returns grid quadrants overlapping a box", () => {
+            // Arrange
+            const quadsKeeper = stubQuadsKeepr();
+
+            // Act
+            const quadrants = quadsKeeper.getQuadrantsIn(0, 16, 48, 0);
+
+            // Assert
+            expect(quadrants.map(({ left, top }) => [left, top])).to.be.deep.equal([
+                [0, 0],
+                [0, 32],
+            ]);
+        });
+
+        it("returns quadrants from a spatial index when given one", () => {
+            // Arrange
+            const spatialIndex = stubSpatialIndex();
+            const quadsKeeper = stubQuadsKeepr(spatialIndex);
+
+            // Act
+            quadsKeeper.getQuadrantsIn(0, 16, 48, 0);
+
+            // Assert
+            expect(spatialIndex.getQuadrantsIn).to.have.been.calledOnceWith(0, 16, 48, 0);
+        });
+    });
+
+    describe("determineGroupQuadrants", () => {
+        it("updates Actors in a spatial index when given one", () => {
+            // Arrange
+            const spatialIndex = stubSpatialIndex();
+            const quadsKeeper = stubQuadsKeepr(spatialIndex);
+            const actors: Actor[] = [];
+
+            // Act
+            quadsKeeper.determineGroupQuadrants(actors, "Solid");
+
+            // Assert
+            expect(spatialIndex.updateActors).to.have.been.calledOnceWith(actors, "Solid");
+        });
+
+        it("only places Actors that changed since they were placed", () => {
+            // Arrange
+            const moved = stubActor(0, 0);
+            const unmoved = stubActor(40, 40);
+            const quadsKeeper = stubQuadsKeeprWithActors([moved, unmoved]);
+            const setActorInQuadrant = sinon.spy(quadsKeeper, "setActorInQuadrant");
+
+            moved.changed = true;
+
+            // Act
+            quadsKeeper.determineGroupQuadrants([moved, unmoved]);
+
+            // Assert
+            expect(setActorInQuadrant.args.map(([actor]) => actor)).to.not.include(unmoved);
+        });
+
+        it("removes changed Actors from their previous Quadrants", () => {
+            // Arrange
+            const actor = stubActor(0, 0);
+            const quadsKeeper = stubQuadsKeeprWithActors([actor]);
+
+            actor.changed = true;
+
+            // Act
+            quadsKeeper.determineGroupQuadrants([actor]);
+
+            // Assert
+            expect(getGridCounts(quadsKeeper)).to.be.deep.equal([
+                [1, 1],
+                [1, 1],
+            ]);
+        });
+
+        it("places Actors along where they moved when checking velocity", () => {
+            // Arrange
+            const actor = { ...stubActor(200, 0), xVelocity: 160 };
+            const quadsKeeper = new QuadsKeepr<Actor>({
+                checkVelocity: true,
+                groupNames: ["Solid"],
+                numCols: 8,
+                numRows: 1,
+                quadrantHeight: 32,
+                quadrantWidth: 32,
+            });
+
+            quadsKeeper.resetQuadrants();
+
+            // Act
+            quadsKeeper.determineGroupQuadrants([actor]);
+
+            // Assert
+            expect(getGridCounts(quadsKeeper)).to.be.deep.equal([[1, 1, 1, 1, 1, 1, 1, 1]]);
+        });
+
+        it("removes Actors no longer in their group", () => {
+            // Arrange
+            const kept = stubActor(0, 0);
+            const removed = stubActor(40, 40);
+            const quadsKeeper = stubQuadsKeeprWithActors([kept, removed]);
+
+            // Act
+            quadsKeeper.determineGroupQuadrants([kept], "Solid");
+
+            // Assert
+            expect(quadsKeeper.queryRect(0, 64, 64, 0)).to.be.deep.equal([kept]);
+        });
+
+        it("moves Actors that switched groups to their new group", () => {
+            // Arrange
+            const actor = stubActor(0, 0);
+            const quadsKeeper = stubQuadsKeeprWithActors([actor]);
+
+            actor.groupType = "Character";
+
+            // Act
+            quadsKeeper.determineGroupQuadrants([], "Solid");
+            quadsKeeper.determineGroupQuadrants([actor], "Character");
+
+            // Assert
+            expect([
+                quadsKeeper.queryRect(0, 64, 64, 0, ["Character"]),
+                quadsKeeper.queryRect(0, 64, 64, 0, ["Solid"]),
+            ]).to.be.deep.equal([[actor], []]);
+        });
+
+        it("keeps Actors in their Quadrants when they're shifted along with the grid", () => {
+            // Arrange
+            const first = stubActor(0, 0);
+            const second = stubActor(40, 40);
+            const quadsKeeper = stubQuadsKeeprWithActors([first, second]);
+            const setActorInQuadrant = sinon.spy(quadsKeeper, "setActorInQuadrant");
+
+            quadsKeeper.shiftQuadrants(1, 0);
+            shiftActors([first, second], 1);
+
+            // Act
+            quadsKeeper.determineGroupQuadrants([first, second]);
+
+            // Assert
+            expect(setActorInQuadrant.callCount).to.be.equal(0);
+        });
+
+        it("places Actors along edges again when Quadrants are added", () => {
+            // Arrange
+            const inside = stubActor(104, 0);
+            const outside = stubActor(264, 0);
+            const quadsKeeper = new QuadsKeepr<Actor>({
+                groupNames: ["Solid"],
+                numCols: 8,
+                numRows: 1,
+                quadrantHeight: 32,
+                quadrantWidth: 32,
+            });
+
+            quadsKeeper.resetQuadrants();
+            quadsKeeper.determineGroupQuadrants([inside, outside]);
+
+            const setActorInQuadrant = sinon.spy(quadsKeeper, "setActorInQuadrant");
+
+            quadsKeeper.shiftQuadrants(-40, 0);
+            shiftActors([inside, outside], -40);
+
+            // Act
+            quadsKeeper.determineGroupQuadrants([inside, outside]);
+
+            // Assert
+            expect(new Set(setActorInQuadrant.args.map(([actor]) => actor))).to.be.deep.equal(
+                new Set([outside])
+            );
+        });
+    });
+
+    describe("removeActor", () => {
+        it("removes an Actor from the grid's Quadrants", () => {
+            // Arrange
+            const actor = stubActor(0, 0);
+            const quadsKeeper = stubQuadsKeeprWithActors([actor]);
+
+            // Act
+            quadsKeeper.removeActor(actor);
+
+            // Assert
+            expect(getGridCounts(quadsKeeper)).to.be.deep.equal([
+                [0, 0],
+                [0, 0],
+            ]);
+        });
+
+        it("removes an Actor from a spatial index when given one", () => {
+            // Arrange
+            const spatialIndex = stubSpatialIndex();
+            const quadsKeeper = stubQuadsKeepr(spatialIndex);
+            const actor = stubActor(0, 0);
+
+            // Act
+            quadsKeeper.removeActor(actor);
+
+            // Assert
+            expect(spatialIndex.removeActor).to.have.been.calledOnceWith(actor);
+        });
+    });
+
+    describe("shiftQuadrants", () => {
+        it("shifts a spatial index by the unrounded distance", () => {
+            // Arrange
+            const spatialIndex = stubSpatialIndex();
+            const quadsKeeper = stubQuadsKeepr(spatialIndex);
+
+            // Act
+            quadsKeeper.shiftQuadrants(1.5, -2.5);
+
+            // Assert
+            expect(spatialIndex.shift).to.have.been.calledOnceWith(1.5, -2.5);
+        });
+    });
+
+    describe("queryRect", () => {
+        it("returns Actors overlapping a box, closest to its center first", () => {
+            // Arrange
+            const far = stubActor(0, 0);
+            const near = stubActor(20, 20);
+            const outside = stubActor(48, 48);
+            const quadsKeeper = stubQuadsKeeprWithActors([far, near, outside]);
+
+            // Act
+            const actors = quadsKeeper.queryRect(0, 32, 32, 0);
+
+            // Assert
+            expect(actors).to.be.deep.equal([near, far]);
+        });
+
+        it("only returns Actors in the given groups", () => {
+            // Arrange
+            const character = stubActor(0, 0, "Character");
+            const solid = stubActor(8, 0);
+            const quadsKeeper = stubQuadsKeeprWithActors([character, solid]);
+
+            // Act
+            const actors = quadsKeeper.queryRect(0, 32, 32, 0, ["Character"]);
+
+            // Assert
+            expect(actors).to.be.deep.equal([character]);
+        });
+
+        it("returns Actors from a spatial hash", () => {
+            // Arrange
+            const actor = stubActor(200, 200);
+            const quadsKeeper = stubQuadsKeeprWithActors(
+                [actor],
+                new SpatialHash({ cellHeight: 32, cellWidth: 32, groupNames: ["Solid"] })
+            );
+
+            // Act
+            const actors = quadsKeeper.queryRect(192, 224, 224, 192);
+
+            // Assert
+            expect(actors).to.be.deep.equal([actor]);
+        });
+    });
+
+    describe("queryCircle", () => {
+        it("returns Actors overlapping a circle, closest to its center first", () => {
+            // Arrange
+            const far = stubActor(20, 0);
+            const near = stubActor(0, 0);
+            const quadsKeeper = stubQuadsKeeprWithActors([far, near]);
+
+            // Act
+            const actors = quadsKeeper.queryCircle(4, 4, 16);
+
+            // Assert
+            expect(actors).to.be.deep.equal([near, far]);
+        });
+
+        it("skips Actors only overlapping the circle's bounding box", () => {
+            // Arrange
+            const corner = stubActor(20, 20);
+            const quadsKeeper = stubQuadsKeeprWithActors([corner]);
+
+            // Act
+            const actors = quadsKeeper.queryCircle(4, 4, 20);
+
+            // Assert
+            expect(actors).to.be.deep.equal([]);
+        });
+    });
+
+    describe("queryPoint", () => {
+        it("returns Actors containing a point", () => {
+            // Arrange
+            const containing = stubActor(0, 0);
+            const other = stubActor(16, 0);
+            const quadsKeeper = stubQuadsKeeprWithActors([containing, other]);
+
+            // Act
+            const actors = quadsKeeper.queryPoint(4, 4);
+
+            // Assert
+            expect(actors).to.be.deep.equal([containing]);
+        });
+    });
+
+    describe("raycast", () => {
+        it("returns Actors crossed by a segment, closest to its start first", () => {
+            // Arrange
+            const far = stubActor(40, 0);
+            const near = stubActor(16, 0);
+            const quadsKeeper = stubQuadsKeeprWithActors([far, near]);
+
+            // Act
+            const hits = quadsKeeper.raycast(0, 4, 60, 0);
+
+            // Assert
+            expect(hits).to.be.deep.equal([
+                { actor: near, distance: 16 },
+                { actor: far, distance: 40 },
+            ]);
+        });
+
+        it("skips Actors past the end of the segment", () => {
+            // Arrange
+            const actor = stubActor(40, 0);
+            const quadsKeeper = stubQuadsKeeprWithActors([actor]);
+
+            // Act
+            const hits = quadsKeeper.raycast(0, 4, 32, 0);
+
+            // Assert
+            expect(hits).to.be.deep.equal([]);
+        });
+
+        it("skips Actors beside the segment", () => {
+            // Arrange
+            const actor = stubActor(16, 16);
+            const quadsKeeper = stubQuadsKeeprWithActors([actor]);
+
+            // Act
+            const hits = quadsKeeper.raycast(0, 0, 48, 8);
+
+            // Assert
+            expect(hits).to.be.deep.equal([]);
+        });
+    });
 });
@@ -5,8 +5,25 @@ import {
     QuadrantCol,
     QuadrantRow,
     QuadsKeeprSettings,
+    RaycastHit,
+    SpatialIndex,
 } from "./types";
 
+/**
+ * How an Actor was last placed in the screen's grid.
+ */
+interface PlacedActor {
+    /**
+     * Which call to determineGroupQuadrants last saw the Actor.
+     */
+    generation: number;
+
+    /**
+     * Which group the Actor was placed under.
+     */
+    groupType: string;
+}
+
 /**
  * Adjustable quadrant-based collision detection.
  *
@@ -63,6 +80,11 @@ export class QuadsKeepr<TActor extends Actor> {
      */
     private readonly checkOffsetY: boolean;
 
+    /**
+     * Whether to place Actors in Quadrants along where they moved during the frame.
+     */
+    private readonly checkVelocity: boolean;
+
     /**
      * Starting coordinates for columns.
      */
@@ -108,12 +130,32 @@ export class QuadsKeepr<TActor extends Actor> {
      */
     private readonly onRemove?: QuadrantChangeCallback;
 
+    /**
+     * Storage for which Quadrants Actors are within, instead of the screen's grid.
+     */
+    private readonly spatialIndex?: SpatialIndex<TActor>;
+
+    /**
+     * Actors placed in the screen's grid, which are only placed again once changed.
+     */
+    private readonly placedActors = new Map<TActor, PlacedActor>();
+
+    /**
+     * How many Actors are placed in the screen's grid under each group.
+     */
+    private readonly placedCounts = new Map<string, number>();
+
+    /**
+     * How many times groups of Actors have been determined.
+     */
+    private generation = 0;
+
     /**
      * Initializes a new instance of the QuadsKeepr class.
      *
      * @param settings   Settings to be used for initialization.
      */
-    public constructor(settings: QuadsKeeprSettings) {
+    public constructor(settings: QuadsKeeprSettings<TActor>) {
         this.numRows = (settings.numRows ?? 0) | 0 || 2;
         this.numCols = (settings.numCols ?? 0) | 0 || 2;
         this.quadrantWidth = (settings.quadrantWidth ?? 0) | 0 || 2;
@@ -122,9 +164,11 @@ export class QuadsKeepr<TActor extends Actor> {
         this.groupNames = settings.groupNames ?? [];
         this.checkOffsetX = !!settings.checkOffsetX;
         this.checkOffsetY = !!settings.checkOffsetY;
+        this.checkVelocity = !!settings.checkVelocity;
 
         this.onAdd = settings.onAdd;
         this.onRemove = settings.onRemove;
+        this.spatialIndex = settings.spatialIndex;
 
         this.startLeft = (settings.startLeft ?? 0) | 0;
         this.startTop = (settings.startTop ?? 0) | 0;
@@ -188,6 +232,10 @@ export class QuadsKeepr<TActor extends Actor> {
         this.offsetX = 0;
         this.offsetY = 0;
 
+        this.placedActors.clear();
+        this.placedCounts.clear();
+        this.spatialIndex?.clear();
+
         let top = this.startTop;
 
         for (let i = 0; i < this.numRows; i += 1) {
@@ -233,7 +281,9 @@ export class QuadsKeepr<TActor extends Actor> {
     /**
      * Shifts each Quadrant horizontally and vertically, along with the row and
      * column containers. Offsets are adjusted to check for row or column
-     * deletion and insertion.
+     * deletion and insertion. Actors in the grid are expected to shift by the
+     * same amount, so they're kept in their Quadrants, except for Actors along
+     * edges with added Quadrants, which are placed again when next determined.
      *
      * @param dxRaw   How much to shift horizontally (will be rounded).
      * @param dyRaw   How much to shift vertically (will be rounded).
@@ -245,6 +295,8 @@ export class QuadsKeepr<TActor extends Actor> {
         this.offsetX += dx;
         this.offsetY += dy;
 
+        this.spatialIndex?.shift(dxRaw, dyRaw);
+
         this.top += dy;
         this.right += dx;
         this.bottom += dy;
@@ -266,7 +318,10 @@ export class QuadsKeepr<TActor extends Actor> {
             }
         }
 
+        const { offsetX, offsetY } = this;
+
         this.adjustOffsets();
+        this.forgetEdgeActors(this.offsetX !== offsetX, this.offsetY !== offsetY);
     }
 
     /**
@@ -500,6 +555,11 @@ export class QuadsKeepr<TActor extends Actor> {
         this.left += this.quadrantWidth;
     }
 
+    /**
+     * Clears the screen's grid of Actors, so they're all placed again when next determined.
+     *
+     * @remarks Actors in a spatial index are kept, as it's cleared by clearActors.
+     */
     public clearAllQuadrants(): void {
         for (const row of this.quadrantRows) {
             for (const quadrant of row.quadrants) {
@@ -508,6 +568,194 @@ export class QuadsKeepr<TActor extends Actor> {
                 }
             }
         }
+
+        this.placedActors.clear();
+        this.placedCounts.clear();
+    }
+
+    /**
+     * Forgets all Actors in Quadrants, so they're all placed again when next determined.
+     */
+    public clearActors(): void {
+        if (this.spatialIndex) {
+            this.spatialIndex.clear();
+        } else {
+            this.clearAllQuadrants();
+        }
+    }
+
+    /**
+     * Removes an Actor from its Quadrants, such as when it's removed from the game.
+     *
+     * @param actor   An Actor no longer in the game.
+     */
+    public removeActor(actor: TActor): void {
+        if (this.spatialIndex) {
+            this.spatialIndex.removeActor(actor);
+            return;
+        }
+
+        const placed = this.placedActors.get(actor);
+
+        if (placed) {
+            this.forgetActor(actor, placed);
+        }
+    }
+
+    /**
+     * Collects Quadrants that may contain Actors within a box.
+     *
+     * @param top   The top border of the box, relative to the screen.
+     * @param right   The right border of the box, relative to the screen.
+     * @param bottom   The bottom border of the box, relative to the screen.
+     * @param left   The left border of the box, relative to the screen.
+     * @returns Quadrants overlapping the box.
+     */
+    public getQuadrantsIn(
+        top: number,
+        right: number,
+        bottom: number,
+        left: number
+    ): Quadrant<TActor>[] {
+        if (this.spatialIndex) {
+            return this.spatialIndex.getQuadrantsIn(top, right, bottom, left);
+        }
+
+        const quadrants: Quadrant<TActor>[] = [];
+
+        for (const row of this.quadrantRows) {
+            for (const quadrant of row.quadrants) {
+                if (
+                    quadrant.left <= right &&
+                    quadrant.right >= left &&
+                    quadrant.top <= bottom &&
+                    quadrant.bottom >= top
+                ) {
+                    quadrants.push(quadrant);
+                }
+            }
+        }
+
+        return quadrants;
+    }
+
+    /**
+     * Finds Actors overlapping a box.
+     *
+     * @param top   The top border of the box, relative to the screen.
+     * @param right   The right border of the box, relative to the screen.
+     * @param bottom   The bottom border of the box, relative to the screen.
+     * @param left   The left border of the box, relative to the screen.
+     * @param groupNames   Groups to find Actors in (by default, all of them).
+     * @returns Actors overlapping the box, ordered by distance from its center.
+     */
+    public queryRect(
+        top: number,
+        right: number,
+        bottom: number,
+        left: number,
+        groupNames = this.groupNames
+    ): TActor[] {
+        const actors = this.collectActors(
+            top,
+            right,
+            bottom,
+            left,
+            groupNames,
+            (actor) =>
+                actor.left < right &&
+                actor.right > left &&
+                actor.top < bottom &&
+                actor.bottom > top
+        );
+
+        return this.sortByDistance(actors, (left + right) / 2, (top + bottom) / 2);
+    }
+
+    /**
+     * Finds Actors overlapping a circle.
+     *
+     * @param x   Horizontal center of the circle, relative to the screen.
+     * @param y   Vertical center of the circle, relative to the screen.
+     * @param radius   How far the circle extends from its center.
+     * @param groupNames   Groups to find Actors in (by default, all of them).
+     * @returns Actors overlapping the circle, ordered by distance from its center.
+     */
+    public queryCircle(
+        x: number,
+        y: number,
+        radius: number,
+        groupNames = this.groupNames
+    ): TActor[] {
+        const actors = this.collectActors(
+            y - radius,
+            x + radius,
+            y + radius,
+            x - radius,
+            groupNames,
+            (actor) => this.getDistanceToActor(actor, x, y) <= radius
+        );
+
+        return this.sortByDistance(actors, x, y);
+    }
+
+    /**
+     * Finds Actors containing a point.
+     *
+     * @param x   Horizontal position of the point, relative to the screen.
+     * @param y   Vertical position of the point, relative to the screen.
+     * @param groupNames   Groups to find Actors in (by default, all of them).
+     * @returns Actors containing the point, ordered by distance from their centers.
+     */
+    public queryPoint(x: number, y: number, groupNames = this.groupNames): TActor[] {
+        const actors = this.collectActors(
+            y,
+            x,
+            y,
+            x,
+            groupNames,
+            (actor) => actor.left <= x && actor.right > x && actor.top <= y && actor.bottom > y
+        );
+
+        return this.sortByDistance(actors, x, y);
+    }
+
+    /**
+     * Finds Actors crossed by a line segment.
+     *
+     * @param x   Horizontal start of the segment, relative to the screen.
+     * @param y   Vertical start of the segment, relative to the screen.
+     * @param dx   How far the segment extends horizontally.
+     * @param dy   How far the segment extends vertically.
+     * @param groupNames   Groups to find Actors in (by default, all of them).
+     * @returns Actors crossed by the segment, ordered by distance from its start.
+     */
+    public raycast(
+        x: number,
+        y: number,
+        dx: number,
+        dy: number,
+        groupNames = this.groupNames
+    ): RaycastHit<TActor>[] {
+        const hits: RaycastHit<TActor>[] = [];
+        const candidates = this.collectActors(
+            Math.min(y, y + dy),
+            Math.max(x, x + dx),
+            Math.max(y, y + dy),
+            Math.min(x, x + dx),
+            groupNames,
+            () => true
+        );
+
+        for (const actor of candidates) {
+            const distance = this.getRayDistance(actor, x, y, dx, dy);
+
+            if (distance !== undefined) {
+                hits.push({ actor, distance });
+            }
+        }
+
+        return hits.sort((a, b) => a.distance - b.distance);
     }
 
     /**
@@ -535,27 +783,174 @@ export class QuadsKeepr<TActor extends Actor> {
     }
 
     /**
-     * Determines the Quadrants for an entire Array of Actors. This is done by
-     * wiping each quadrant's memory of that Array's group type and determining
-     * each Actor's quadrants.
+     * Determines the Quadrants for an entire Array of Actors. Only Actors that
+     * are marked as changed or weren't yet placed in their group have their
+     * Quadrants determined, as the rest are still within the same Quadrants.
      *
      * @param actors   The listing of Actors in that group.
+     * @param groupName   Name of the group, to remove Actors placed under it that
+     *                    are no longer in its listing (by default, none are removed).
      */
-    public determineGroupQuadrants(actors: TActor[]): void {
+    public determineGroupQuadrants(actors: TActor[], groupName?: string): void {
+        if (this.spatialIndex) {
+            this.spatialIndex.updateActors(actors, groupName);
+            return;
+        }
+
+        this.generation += 1;
+
+        let numInGroup = 0;
+
         for (const actor of actors) {
-            this.determineActorQuadrants(actor);
+            const placed = this.placedActors.get(actor);
+
+            if (!placed || actor.changed || placed.groupType !== actor.groupType) {
+                this.determineActorQuadrants(actor, placed);
+            } else {
+                placed.generation = this.generation;
+            }
+
+            if (actor.groupType === groupName) {
+                numInGroup += 1;
+            }
+        }
+
+        // Only search for removed Actors if more are placed under the group than are in it
+        if (groupName === undefined || numInGroup === this.placedCounts.get(groupName)) {
+            return;
+        }
+
+        for (const [actor, placed] of this.placedActors) {
+            if (placed.groupType === groupName && placed.generation !== this.generation) {
+                this.forgetActor(actor, placed);
+            }
+        }
+    }
+
+    /**
+     * Collects Actors from the Quadrants overlapping a box.
+     *
+     * @param top   The top border of the box, relative to the screen.
+     * @param right   The right border of the box, relative to the screen.
+     * @param bottom   The bottom border of the box, relative to the screen.
+     * @param left   The left border of the box, relative to the screen.
+     * @param groupNames   Groups to collect Actors from.
+     * @param filter   Checks whether to include each Actor.
+     * @returns Each included Actor once.
+     */
+    private collectActors(
+        top: number,
+        right: number,
+        bottom: number,
+        left: number,
+        groupNames: string[],
+        filter: (actor: TActor) => boolean
+    ): TActor[] {
+        const actors = new Set<TActor>();
+
+        for (const quadrant of this.getQuadrantsIn(top, right, bottom, left)) {
+            for (const groupName of groupNames) {
+                for (let i = 0; i < quadrant.numActors[groupName]; i += 1) {
+                    const actor = quadrant.actors[groupName][i];
+
+                    if (!actors.has(actor) && filter(actor)) {
+                        actors.add(actor);
+                    }
+                }
+            }
         }
+
+        return [...actors];
+    }
+
+    /**
+     * Sorts Actors by the distance between their centers and a point.
+     *
+     * @param actors   Actors to sort.
+     * @param x   Horizontal position of the point.
+     * @param y   Vertical position of the point.
+     * @returns The Actors, closest first.
+     */
+    private sortByDistance(actors: TActor[], x: number, y: number): TActor[] {
+        const distances = new Map<TActor, number>();
+
+        for (const actor of actors) {
+            distances.set(
+                actor,
+                Math.hypot((actor.left + actor.right) / 2 - x, (actor.top + actor.bottom) / 2 - y)
+            );
+        }
+
+        return actors.sort((a, b) => distances.get(a)! - distances.get(b)!);
+    }
+
+    /**
+     * @param actor   An Actor to measure to.
+     * @param x   Horizontal position of a point.
+     * @param y   Vertical position of a point.
+     * @returns Distance from the point to the closest point in the Actor's bounding box.
+     */
+    private getDistanceToActor(actor: TActor, x: number, y: number): number {
+        return Math.hypot(
+            Math.max(actor.left - x, 0, x - actor.right),
+            Math.max(actor.top - y, 0, y - actor.bottom)
+        );
+    }
+
+    /**
+     * @param actor   An Actor to measure to.
+     * @param x   Horizontal start of a line segment.
+     * @param y   Vertical start of a line segment.
+     * @param dx   How far the segment extends horizontally.
+     * @param dy   How far the segment extends vertically.
+     * @returns Distance along the segment to where it enters the Actor, if it does.
+     */
+    private getRayDistance(
+        actor: TActor,
+        x: number,
+        y: number,
+        dx: number,
+        dy: number
+    ): number | undefined {
+        let enter = 0;
+        let exit = 1;
+
+        for (const [start, delta, low, high] of [
+            [x, dx, actor.left, actor.right],
+            [y, dy, actor.top, actor.bottom],
+        ]) {
+            if (delta === 0) {
+                if (start < low || start > high) {
+                    return undefined;
+                }
+
+                continue;
+            }
+
+            const lowTime = (low - start) / delta;
+            const highTime = (high - start) / delta;
+
+            enter = Math.max(enter, Math.min(lowTime, highTime));
+            exit = Math.min(exit, Math.max(lowTime, highTime));
+
+            if (enter > exit) {
+                return undefined;
+            }
+        }
+
+        return enter * Math.hypot(dx, dy);
     }
 
     /**
      * Determines the Quadrants for a single Actor. The starting row and column
      * indices are calculated so every Quadrant within them should contain the
-     * Actor. In the process, its old Quadrants and new Quadrants are marked as
-     * changed if it was.
+     * Actor. In the process, it's removed from its old Quadrants, and its old
+     * Quadrants and new Quadrants are marked as changed if it was.
      *
      * @param actor  An Actor whose Quadrants are to be determined.
+     * @param placed   How the Actor was last placed, if it's still in the grid.
      */
-    private determineActorQuadrants(actor: TActor): void {
+    private determineActorQuadrants(actor: TActor, placed?: PlacedActor): void {
         const groupType = actor.groupType;
         const rowStart = this.findQuadrantRowStart(actor);
         const colStart = this.findQuadrantColStart(actor);
@@ -568,6 +963,12 @@ export class QuadsKeepr<TActor extends Actor> {
             this.markActorQuadrantsChanged(actor);
         }
 
+        // Quadrants only keep Actors until they're cleared, so this might not be in them
+        if (placed) {
+            this.removeActorFromQuadrants(actor, placed.groupType);
+            this.countPlaced(placed.groupType, -1);
+        }
+
         // The actor no longer has any Quadrants: rebuild them!
         actor.numQuadrants = 0;
 
@@ -579,6 +980,80 @@ export class QuadsKeepr<TActor extends Actor> {
 
         // The actor is no longer considered changed, since quadrants know it
         actor.changed = false;
+        this.placedActors.set(actor, { generation: this.generation, groupType });
+        this.countPlaced(groupType, 1);
+    }
+
+    /**
+     * Adjusts how many Actors are placed in the screen's grid under a group.
+     *
+     * @param groupType   A group Actors are placed under.
+     * @param change   How many Actors were placed (or removed, if negative).
+     */
+    private countPlaced(groupType: string, change: number): void {
+        this.placedCounts.set(groupType, (this.placedCounts.get(groupType) ?? 0) + change);
+    }
+
+    /**
+     * Removes an Actor from the screen's grid, so it's placed again if next determined.
+     *
+     * @param actor   An Actor placed in the screen's grid.
+     * @param placed   How the Actor was last placed.
+     */
+    private forgetActor(actor: TActor, placed: PlacedActor): void {
+        this.removeActorFromQuadrants(actor, placed.groupType);
+        this.countPlaced(placed.groupType, -1);
+        this.placedActors.delete(actor);
+        actor.numQuadrants = 0;
+    }
+
+    /**
+     * Forgets Actors along edges of the grid that had Quadrants added, so
+     * they're placed into the added Quadrants when next determined.
+     *
+     * @param cols   Whether columns were added.
+     * @param rows   Whether rows were added.
+     */
+    private forgetEdgeActors(cols: boolean, rows: boolean): void {
+        if (!cols && !rows) {
+            return;
+        }
+
+        for (const [actor, placed] of this.placedActors) {
+            const colStart = this.findQuadrantColStart(actor);
+            const colEnd = this.findQuadrantColEnd(actor);
+            const rowStart = this.findQuadrantRowStart(actor);
+            const rowEnd = this.findQuadrantRowEnd(actor);
+
+            if (
+                (cols && (colStart === 0 || colEnd >= this.numCols - 1 || colStart > colEnd)) ||
+                (rows && (rowStart === 0 || rowEnd >= this.numRows - 1 || rowStart > rowEnd))
+            ) {
+                this.forgetActor(actor, placed);
+            }
+        }
+    }
+
+    /**
+     * Removes an Actor from the Quadrants it was placed in.
+     *
+     * @param actor   An Actor placed in the screen's grid.
+     * @param groupType   Which group the Actor was placed under.
+     */
+    private removeActorFromQuadrants(actor: TActor, groupType: string): void {
+        for (let i = 0; i < actor.numQuadrants; i += 1) {
+            const quadrant = actor.quadrants[i];
+            const actors = quadrant.actors[groupType];
+            const last = quadrant.numActors[groupType] - 1;
+            const index = actors.lastIndexOf(actor, last);
+            if (index === -1) {
+                continue;
+            }
+
+            actors[index] = actors[last];
+            actors.length = last;
+            quadrant.numActors[groupType] = last;
+        }
     }
 
     /**
@@ -703,53 +1178,77 @@ export class QuadsKeepr<TActor extends Actor> {
     /**
      * @param actor   An Actor to check the bounding box of.
      * @returns The Actor's top position, accounting for vertical offset
-     *          if needed.
+     *          and velocity if needed.
      */
     private getTop(actor: TActor): number {
+        let top = actor.top;
+
         if (this.checkOffsetY) {
-            return actor.top - Math.abs(actor.offsetY!);
+            top -= Math.abs(actor.offsetY!);
         }
 
-        return actor.top;
+        if (this.checkVelocity) {
+            top -= Math.max(actor.yVelocity ?? 0, 0);
+        }
+
+        return top;
     }
 
     /**
      * @param actor   An Actor to check the bounding box of.
      * @returns The Actor's right position, accounting for horizontal offset
-     *          if needed.
+     *          and velocity if needed.
      */
     private getRight(actor: TActor): number {
+        let right = actor.right;
+
         if (this.checkOffsetX) {
-            return actor.right + Math.abs(actor.offsetX!);
+            right += Math.abs(actor.offsetX!);
         }
 
-        return actor.right;
+        if (this.checkVelocity) {
+            right -= Math.min(actor.xVelocity ?? 0, 0);
+        }
+
+        return right;
     }
 
     /**
      * @param actor   An Actor to check the bounding box of.
      * @returns The Actor's bottom position, accounting for vertical
-     *          offset if needed.
+     *          offset and velocity if needed.
      */
     private getBottom(actor: TActor): number {
+        let bottom = actor.bottom;
+
         if (this.checkOffsetY) {
-            return actor.bottom + Math.abs(actor.offsetY!);
+            bottom += Math.abs(actor.offsetY!);
         }
 
-        return actor.bottom;
+        if (this.checkVelocity) {
+            bottom -= Math.min(actor.yVelocity ?? 0, 0);
+        }
+
+        return bottom;
     }
 
     /**
      * @param actor   An Actor to check the bounding box of.
      * @returns The Actor's left position, accounting for horizontal offset
-     *          if needed.
+     *          and velocity if needed.
      */
     private getLeft(actor: TActor): number {
+        let left = actor.left;
+
         if (this.checkOffsetX) {
-            return actor.left - Math.abs(actor.offsetX!);
+            left -= Math.abs(actor.offsetX!);
+        }
+
+        if (this.checkVelocity) {
+            left -= Math.max(actor.xVelocity ?? 0, 0);
         }
 
-        return actor.left;
+        return left;
     }
 
     /**
@@ -0,0 +1,265 @@
+import { expect } from "chai";
+
+import { SpatialHash } from "./SpatialHash";
+import { Actor } from "./types";
+
+const stubSpatialHash = () =>
+    new SpatialHash<Actor>({
+        cellHeight: 32,
+        cellWidth: 32,
+        groupNames: ["Solid"],
+    });
+
+const stubActor = (left: number, top: number, size = 16): Actor => ({
+    bottom: top + size,
+    changed: true,
+    groupType: "Solid",
+    left,
+    numQuadrants: 0,
+    quadrants: [],
+    right: left + size,
+    top,
+});
+
+const moveActor = (actor: Actor, dx: number, dy: number) => {
+    actor.bottom += dy;
+    actor.left += dx;
+    actor.right += dx;
+    actor.top += dy;
+    actor.changed = true;
+};
+
+const getCellActors = (actor: Actor) =>
+    actor.quadrants
+        .slice(0, actor.numQuadrants)
+        .map((quadrant) => quadrant.actors.Solid.slice(0, quadrant.numActors.Solid));
+
+describe("SpatialHash", () => {
+    describe("updateActors", () => {
+        it("places an Actor into each cell its bounding box touches", () => {
+            // Arrange
+            const spatialHash = stubSpatialHash();
+            const actor = stubActor(24, 8);
+
+            // Act
+            spatialHash.updateActors([actor]);
+
+            // Assert
+            expect(actor.numQuadrants).to.be.equal(2);
+            expect(getCellActors(actor)).to.be.deep.equal([[actor], [actor]]);
+        });
+
+        it("places an Actor into each cell along where it moved when checking velocity", () => {
+            // Arrange
+            const spatialHash = new SpatialHash<Actor>({
+                cellHeight: 32,
+                cellWidth: 32,
+                checkVelocity: true,
+                groupNames: ["Solid"],
+            });
+            const actor = { ...stubActor(72, 8), xVelocity: 64 };
+
+            // Act
+            spatialHash.updateActors([actor]);
+
+            // Assert
+            expect(actor.numQuadrants).to.be.equal(3);
+        });
+
+        it("places Actors far outside of any screen", () => {
+            // Arrange
+            const spatialHash = stubSpatialHash();
+            const actor = stubActor(-10016, 50016);
+
+            // Act
+            spatialHash.updateActors([actor]);
+
+            // Assert
+            expect(actor.numQuadrants).to.be.equal(1);
+        });
+
+        it("shares a cell between touching Actors", () => {
+            // Arrange
+            const spatialHash = stubSpatialHash();
+            const left = stubActor(0, 0);
+            const right = stubActor(16, 0);
+
+            // Act
+            spatialHash.updateActors([left, right]);
+
+            // Assert
+            expect(left.quadrants[0]).to.be.equal(right.quadrants[0]);
+        });
+
+        it("marks placed Actors as unchanged", () => {
+            // Arrange
+            const spatialHash = stubSpatialHash();
+            const actor = stubActor(0, 0);
+
+            // Act
+            spatialHash.updateActors([actor]);
+
+            // Assert
+            expect(actor.changed).to.be.equal(false);
+        });
+
+        it("skips placed Actors that haven't changed", () => {
+            // Arrange
+            const spatialHash = stubSpatialHash();
+            const actor = stubActor(0, 0);
+
+            spatialHash.updateActors([actor]);
+            moveActor(actor, 64, 0);
+            actor.changed = false;
+
+            // Act
+            spatialHash.updateActors([actor]);
+
+            // Assert
+            expect(actor.quadrants[0].left).to.be.equal(0);
+        });
+
+        it("moves changed Actors out of cells they left", () => {
+            // Arrange
+            const spatialHash = stubSpatialHash();
+            const actor = stubActor(0, 0);
+
+            spatialHash.updateActors([actor]);
+
+            const previous = actor.quadrants[0];
+
+            moveActor(actor, 64, 0);
+
+            // Act
+            spatialHash.updateActors([actor]);
+
+            // Assert
+            expect(previous.numActors.Solid).to.be.equal(0);
+            expect(actor.quadrants[0].left).to.be.equal(64);
+        });
+
+        it("removes Actors no longer in their group", () => {
+            // Arrange
+            const spatialHash = stubSpatialHash();
+            const removed = stubActor(0, 0);
+            const kept = stubActor(8, 0);
+
+            spatialHash.updateActors([removed, kept], "Solid");
+
+            // Act
+            spatialHash.updateActors([kept], "Solid");
+
+            // Assert
+            expect(getCellActors(kept)).to.be.deep.equal([[kept]]);
+        });
+
+        it("moves Actors that switched groups to their new group", () => {
+            // Arrange
+            const spatialHash = new SpatialHash<Actor>({
+                cellHeight: 32,
+                cellWidth: 32,
+                groupNames: ["Character", "Solid"],
+            });
+            const actor = stubActor(0, 0);
+
+            spatialHash.updateActors([actor], "Solid");
+            actor.groupType = "Character";
+
+            // Act
+            spatialHash.updateActors([], "Solid");
+            spatialHash.updateActors([actor], "Character");
+
+            // Assert
+            expect([
+                actor.quadrants[0].numActors.Character,
+                actor.quadrants[0].numActors.Solid,
+            ]).to.be.deep.equal([1, 0]);
+        });
+    });
+
+    describe("shift", () => {
+        it("keeps Actors in their world cells when screen positions shift", () => {
+            // Arrange
+            const spatialHash = stubSpatialHash();
+            const actor = stubActor(0, 0);
+
+            spatialHash.updateActors([actor]);
+
+            const previous = actor.quadrants[0];
+
+            spatialHash.shift(-64, 0);
+            moveActor(actor, -64, 0);
+
+            // Act
+            spatialHash.updateActors([actor]);
+
+            // Assert
+            expect(actor.quadrants[0]).to.be.equal(previous);
+        });
+    });
+
+    describe("removeActor", () => {
+        it("removes an Actor from its cells", () => {
+            // Arrange
+            const spatialHash = stubSpatialHash();
+            const removed = stubActor(0, 0);
+            const kept = stubActor(8, 0);
+
+            spatialHash.updateActors([removed, kept]);
+
+            // Act
+            spatialHash.removeActor(removed);
+
+            // Assert
+            expect(getCellActors(kept)).to.be.deep.equal([[kept]]);
+        });
+
+        it("deletes cells left without Actors", () => {
+            // Arrange
+            const spatialHash = stubSpatialHash();
+            const actor = stubActor(0, 0);
+
+            spatialHash.updateActors([actor]);
+
+            // Act
+            spatialHash.removeActor(actor);
+
+            // Assert
+            expect(spatialHash.getNumCells()).to.be.equal(0);
+        });
+    });
+
+    describe("getQuadrantsIn", () => {
+        it("returns cells with Actors within a screen-relative box", () => {
+            // Arrange
+            const spatialHash = stubSpatialHash();
+            const actor = stubActor(100, 100);
+
+            spatialHash.updateActors([actor]);
+            spatialHash.shift(-64, 0);
+
+            // Act
+            const quadrants = spatialHash.getQuadrantsIn(0, 64, 128, 0);
+
+            // Assert
+            expect(quadrants).to.be.deep.equal([actor.quadrants[0]]);
+        });
+    });
+
+    describe("clear", () => {
+        it("places Actors again on their next update", () => {
+            // Arrange
+            const spatialHash = stubSpatialHash();
+            const actor = stubActor(0, 0);
+
+            spatialHash.updateActors([actor]);
+            spatialHash.clear();
+
+            // Act
+            spatialHash.updateActors([actor]);
+
+            // Assert
+            expect(getCellActors(actor)).to.be.deep.equal([[actor]]);
+        });
+    });
+});
@@ -0,0 +1,377 @@
+import { Actor, Quadrant, SpatialHashSettings, SpatialIndex } from "./types";
+
+/**
+ * Inclusive range of cell columns and rows.
+ */
+interface CellRange {
+    colEnd: number;
+    colStart: number;
+    rowEnd: number;
+    rowStart: number;
+}
+
+/**
+ * How an Actor was last placed into cells.
+ */
+interface PlacedActor {
+    /**
+     * Which call to updateActors last saw the Actor.
+     */
+    generation: number;
+
+    /**
+     * Which group the Actor was placed under.
+     */
+    groupType: string;
+
+    /**
+     * Cells the Actor is within.
+     */
+    range: CellRange;
+}
+
+/**
+ * World-space spatial index of lazily created cells, covering any area.
+ *
+ * @template TActor   The type of Actor contained in the cells.
+ */
+export class SpatialHash<TActor extends Actor> implements SpatialIndex<TActor> {
+    /**
+     * How tall each cell is.
+     */
+    private readonly cellHeight: number;
+
+    /**
+     * Cells containing any Actors, keyed by column and row.
+     */
+    private readonly cells = new Map<string, Quadrant<TActor>>();
+
+    /**
+     * How wide each cell is.
+     */
+    private readonly cellWidth: number;
+
+    /**
+     * Whether to place Actors in cells along where they moved during the frame.
+     */
+    private readonly checkVelocity: boolean;
+
+    /**
+     * The groups Actors may be placed into within cells.
+     */
+    private readonly groupNames: string[];
+
+    /**
+     * How many times groups of Actors have been updated.
+     */
+    private generation = 0;
+
+    /**
+     * Cells and groups each placed Actor is within.
+     */
+    private readonly placedActors = new Map<TActor, PlacedActor>();
+
+    /**
+     * How many Actors are placed under each group.
+     */
+    private readonly placedCounts = new Map<string, number>();
+
+    /**
+     * How far screen-relative positions have shifted horizontally from world positions.
+     */
+    private shiftX = 0;
+
+    /**
+     * How far screen-relative positions have shifted vertically from world positions.
+     */
+    private shiftY = 0;
+
+    /**
+     * Initializes a new instance of the SpatialHash class.
+     *
+     * @param settings   Settings to be used for initialization.
+     */
+    public constructor(settings: SpatialHashSettings) {
+        this.cellHeight = settings.cellHeight;
+        this.cellWidth = settings.cellWidth;
+        this.checkVelocity = !!settings.checkVelocity;
+        this.groupNames = settings.groupNames;
+    }
+
+    /**
+     * @returns How many cells contain any Actors.
+     */
+    public getNumCells(): number {
+        return this.cells.size;
+    }
+
+    /**
+     * Forgets all Actors, so they're placed again on their next update.
+     */
+    public clear(): void {
+        this.cells.clear();
+        this.placedActors.clear();
+        this.placedCounts.clear();
+        this.shiftX = 0;
+        this.shiftY = 0;
+    }
+
+    /**
+     * Collects cells that may contain Actors within a box.
+     *
+     * @param top   The top border of the box, relative to the screen.
+     * @param right   The right border of the box, relative to the screen.
+     * @param bottom   The bottom border of the box, relative to the screen.
+     * @param left   The left border of the box, relative to the screen.
+     * @returns Cells overlapping the box.
+     */
+    public getQuadrantsIn(
+        top: number,
+        right: number,
+        bottom: number,
+        left: number
+    ): Quadrant<TActor>[] {
+        const range = this.getRange(top, right, bottom, left);
+        const quadrants: Quadrant<TActor>[] = [];
+
+        for (let row = range.rowStart; row <= range.rowEnd; row += 1) {
+            for (let col = range.colStart; col <= range.colEnd; col += 1) {
+                const cell = this.cells.get(`${col},${row}`);
+
+                if (cell) {
+                    quadrants.push(cell);
+                }
+            }
+        }
+
+        return quadrants;
+    }
+
+    /**
+     * Removes an Actor from its cells.
+     *
+     * @param actor   An Actor no longer in the game.
+     */
+    public removeActor(actor: TActor): void {
+        const placed = this.placedActors.get(actor);
+        if (!placed) {
+            return;
+        }
+
+        this.removeFromCells(actor, placed);
+        this.countPlaced(placed.groupType, -1);
+        this.placedActors.delete(actor);
+        actor.numQuadrants = 0;
+    }
+
+    /**
+     * Records that screen-relative positions have shifted, such as from scrolling.
+     *
+     * @param dx   How far positions shifted horizontally.
+     * @param dy   How far positions shifted vertically.
+     */
+    public shift(dx: number, dy: number): void {
+        this.shiftX += dx;
+        this.shiftY += dy;
+    }
+
+    /**
+     * Places changed or new Actors into the cells they're within.
+     *
+     * @param actors   Actors in a group.
+     * @param groupName   Name of the group, to remove Actors placed under it that
+     *                    are no longer in its listing (by default, none are removed).
+     */
+    public updateActors(actors: TActor[], groupName?: string): void {
+        this.generation += 1;
+
+        let numInGroup = 0;
+
+        for (const actor of actors) {
+            const placed = this.placedActors.get(actor);
+
+            if (!placed || actor.changed || placed.groupType !== actor.groupType) {
+                this.updateActor(actor, placed);
+            } else {
+                placed.generation = this.generation;
+            }
+
+            if (actor.groupType === groupName) {
+                numInGroup += 1;
+            }
+        }
+
+        // Only search for removed Actors if more are placed under the group than are in it
+        if (groupName === undefined || numInGroup === this.placedCounts.get(groupName)) {
+            return;
+        }
+
+        for (const [actor, placed] of this.placedActors) {
+            if (placed.groupType === groupName && placed.generation !== this.generation) {
+                this.removeActor(actor);
+            }
+        }
+    }
+
+    /**
+     * Moves an Actor into the cells it's within, if they've changed.
+     *
+     * @param actor   An Actor to place.
+     * @param placed   How the Actor was last placed, if it was.
+     */
+    private updateActor(actor: TActor, placed?: PlacedActor): void {
+        const range = this.checkVelocity
+            ? this.getSweptRange(actor)
+            : this.getRange(actor.top, actor.right, actor.bottom, actor.left);
+
+        actor.changed = false;
+
+        if (
+            placed?.groupType === actor.groupType &&
+            placed.range.colEnd === range.colEnd &&
+            placed.range.colStart === range.colStart &&
+            placed.range.rowEnd === range.rowEnd &&
+            placed.range.rowStart === range.rowStart
+        ) {
+            placed.generation = this.generation;
+            return;
+        }
+
+        if (placed) {
+            this.removeFromCells(actor, placed);
+            this.countPlaced(placed.groupType, -1);
+        }
+
+        actor.numQuadrants = 0;
+
+        for (let row = range.rowStart; row <= range.rowEnd; row += 1) {
+            for (let col = range.colStart; col <= range.colEnd; col += 1) {
+                const cell = this.getOrCreateCell(col, row);
+
+                cell.actors[actor.groupType][cell.numActors[actor.groupType]] = actor;
+                cell.numActors[actor.groupType] += 1;
+                cell.changed = true;
+
+                actor.quadrants[actor.numQuadrants] = cell;
+                actor.numQuadrants += 1;
+            }
+        }
+
+        this.placedActors.set(actor, {
+            generation: this.generation,
+            groupType: actor.groupType,
+            range,
+        });
+        this.countPlaced(actor.groupType, 1);
+    }
+
+    /**
+     * Adjusts how many Actors are placed under a group.
+     *
+     * @param groupType   A group Actors are placed under.
+     * @param change   How many Actors were placed (or removed, if negative).
+     */
+    private countPlaced(groupType: string, change: number): void {
+        this.placedCounts.set(groupType, (this.placedCounts.get(groupType) ?? 0) + change);
+    }
+
+    /**
+     * Removes an Actor from cells, deleting any left empty.
+     *
+     * @param actor   An Actor to remove.
+     * @param placed   How the Actor was last placed.
+     */
+    private removeFromCells(actor: TActor, { groupType, range }: PlacedActor): void {
+        for (let row = range.rowStart; row <= range.rowEnd; row += 1) {
+            for (let col = range.colStart; col <= range.colEnd; col += 1) {
+                const key = `${col},${row}`;
+                const cell = this.cells.get(key);
+                if (!cell) {
+                    continue;
+                }
+
+                const actors = cell.actors[groupType];
+                const last = cell.numActors[groupType] - 1;
+                const index = actors.lastIndexOf(actor, last);
+                if (index === -1) {
+                    continue;
+                }
+
+                actors[index] = actors[last];
+                actors.length = last;
+                cell.numActors[groupType] = last;
+                cell.changed = true;
+
+                if (this.groupNames.every((groupName) => cell.numActors[groupName] === 0)) {
+                    this.cells.delete(key);
+                }
+            }
+        }
+    }
+
+    /**
+     * @param col   Column of the cell.
+     * @param row   Row of the cell.
+     * @returns The cell at the column and row, created if it didn't exist.
+     */
+    private getOrCreateCell(col: number, row: number): Quadrant<TActor> {
+        const key = `${col},${row}`;
+        const existing = this.cells.get(key);
+        if (existing) {
+            return existing;
+        }
+
+        const left = col * this.cellWidth;
+        const top = row * this.cellHeight;
+        const cell: Quadrant<TActor> = {
+            actors: {},
+            bottom: top + this.cellHeight,
+            changed: true,
+            left,
+            numActors: {},
+            right: left + this.cellWidth,
+            top,
+        };
+
+        for (const groupName of this.groupNames) {
+            cell.actors[groupName] = [];
+            cell.numActors[groupName] = 0;
+        }
+
+        this.cells.set(key, cell);
+
+        return cell;
+    }
+
+    /**
+     * @param actor   An Actor to place.
+     * @returns Cells along where the Actor moved during the frame.
+     */
+    private getSweptRange(actor: TActor): CellRange {
+        const xVelocity = actor.xVelocity ?? 0;
+        const yVelocity = actor.yVelocity ?? 0;
+
+        return this.getRange(
+            actor.top - Math.max(yVelocity, 0),
+            actor.right - Math.min(xVelocity, 0),
+            actor.bottom - Math.min(yVelocity, 0),
+            actor.left - Math.max(xVelocity, 0)
+        );
+    }
+
+    /**
+     * @param top   The top border of a box, relative to the screen.
+     * @param right   The right border of a box, relative to the screen.
+     * @param bottom   The bottom border of a box, relative to the screen.
+     * @param left   The left border of a box, relative to the screen.
+     * @returns Cells within the box, including those only touching its edges.
+     */
+    private getRange(top: number, right: number, bottom: number, left: number): CellRange {
+        return {
+            colEnd: Math.floor((right - this.shiftX) / this.cellWidth),
+            colStart: Math.floor((left - this.shiftX) / this.cellWidth),
+            rowEnd: Math.floor((bottom - this.shiftY) / this.cellHeight),
+            rowStart: Math.floor((top - this.shiftY) / this.cellHeight),
+        };
+    }
+}
@@ -0,0 +1,73 @@
+import { QuadsKeepr } from "./QuadsKeepr";
+import { Actor } from "./types";
+
+export const numFrames = 20;
+export const numMoving = 64;
+export const screenSize = 512;
+
+/**
+ * Creates a grid of 32x32 quadrants filled with 8x8 Actors.
+ *
+ * @returns The Actors and their QuadsKeepr, with every Actor placed.
+ */
+export const stubLargeMap = () => {
+    const quadsKeeper = new QuadsKeepr<Actor>({
+        groupNames: ["Solid"],
+        numCols: 16,
+        numRows: 16,
+        quadrantHeight: 32,
+        quadrantWidth: 32,
+    });
+    const actors: Actor[] = [];
+
+    quadsKeeper.resetQuadrants();
+
+    for (let top = 0; top < screenSize; top += 8) {
+        for (let left = 0; left < screenSize; left += 8) {
+            actors.push({
+                bottom: top + 8,
+                changed: true,
+                groupType: "Solid",
+                left,
+                numQuadrants: 0,
+                quadrants: [],
+                right: left + 8,
+                top,
+            });
+        }
+    }
+
+    quadsKeeper.determineGroupQuadrants(actors);
+
+    return { actors, quadsKeeper };
+};
+
+/**
+ * @param actors   Actors from stubLargeMap.
+ * @returns A spread-out subset of the Actors, to be moved each frame.
+ */
+export const getMovingActors = (actors: Actor[]) => {
+    const movingActors: Actor[] = [];
+
+    for (let i = 0; i < numMoving; i += 1) {
+        movingActors.push(actors[i * Math.floor(actors.length / numMoving)]);
+    }
+
+    return movingActors;
+};
+
+/**
+ * Moves a spread-out subset of Actors by a pixel, alternating directions each frame.
+ *
+ * @param actors   Actors from stubLargeMap.
+ * @param frame   Which frame is being run.
+ */
+export const moveActors = (actors: Actor[], frame: number) => {
+    const dx = frame % 2 === 0 ? 1 : -1;
+
+    for (const actor of getMovingActors(actors)) {
+        actor.left += dx;
+        actor.right += dx;
+        actor.changed = true;
+    }
+};
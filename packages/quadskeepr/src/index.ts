@@ -1,2 +1,3 @@
 export * from "./QuadsKeepr";
+export * from "./SpatialHash";
 export * from "./types";
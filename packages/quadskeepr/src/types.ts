@@ -52,6 +52,16 @@ export interface Actor extends BoundingBox {
      */
     offsetY?: number;
 
+    /**
+     * How far this moved horizontally during the frame.
+     */
+    xVelocity?: number;
+
+    /**
+     * How far this moved vertically during the frame.
+     */
+    yVelocity?: number;
+
     /**
      * Quadrants this is a member of.
      */
@@ -153,10 +163,101 @@ export type QuadrantChangeCallback = (
     left: number
 ) => void;
 
+/**
+ * An Actor crossed by a raycast.
+ *
+ * @template T   The type of Actor.
+ */
+export interface RaycastHit<T extends Actor> {
+    /**
+     * The crossed Actor.
+     */
+    actor: T;
+
+    /**
+     * Distance along the ray to where it enters the Actor.
+     */
+    distance: number;
+}
+
+/**
+ * Pluggable storage for which Quadrants Actors are within.
+ *
+ * @template T   The type of Actor.
+ */
+export interface SpatialIndex<T extends Actor> {
+    /**
+     * Forgets all Actors, so they're placed again on their next update.
+     */
+    clear(): void;
+
+    /**
+     * Collects Quadrants that may contain Actors within a box.
+     *
+     * @param top   The top border of the box, relative to the screen.
+     * @param right   The right border of the box, relative to the screen.
+     * @param bottom   The bottom border of the box, relative to the screen.
+     * @param left   The left border of the box, relative to the screen.
+     * @returns Quadrants overlapping the box.
+     */
+    getQuadrantsIn(top: number, right: number, bottom: number, left: number): Quadrant<T>[];
+
+    /**
+     * Removes an Actor from its Quadrants.
+     *
+     * @param actor   An Actor no longer in the game.
+     */
+    removeActor(actor: T): void;
+
+    /**
+     * Records that screen-relative positions have shifted, such as from scrolling.
+     *
+     * @param dx   How far positions shifted horizontally.
+     * @param dy   How far positions shifted vertically.
+     */
+    shift(dx: number, dy: number): void;
+
+    /**
+     * Places Actors into the Quadrants they're within.
+     *
+     * @param actors   Actors in a group, of which only changed or new ones need placing.
+     * @param groupName   Name of the group, to remove Actors placed under it that
+     *                    are no longer in its listing (by default, none are removed).
+     */
+    updateActors(actors: T[], groupName?: string): void;
+}
+
+/**
+ * Settings to initialize a new SpatialHash.
+ */
+export interface SpatialHashSettings {
+    /**
+     * How tall each cell should be.
+     */
+    cellHeight: number;
+
+    /**
+     * How wide each cell should be.
+     */
+    cellWidth: number;
+
+    /**
+     * Whether to place Actors in cells along where they moved during the frame.
+     */
+    checkVelocity?: boolean;
+
+    /**
+     * The names of groups Actors may be in within cells.
+     */
+    groupNames: string[];
+}
+
 /**
  * Settings to initialize a new QuadsKeepr.
+ *
+ * @template T   The type of Actor.
  */
-export interface QuadsKeeprSettings {
+export interface QuadsKeeprSettings<T extends Actor = Actor> {
     /**
      * How many QuadrantRows to keep at a time.
      */
@@ -192,6 +293,11 @@ export interface QuadsKeeprSettings {
      */
     checkOffsetY?: boolean;
 
+    /**
+     * Whether to place Actors in Quadrants along where they moved during the frame.
+     */
+    checkVelocity?: boolean;
+
     /**
      * Callback for when Quadrants are added, called on the newly contained area.
      */
@@ -202,6 +308,11 @@ export interface QuadsKeeprSettings {
      */
     onRemove?: QuadrantChangeCallback;
 
+    /**
+     * Storage for which Quadrants Actors are within, instead of the screen's grid.
+     */
+    spatialIndex?: SpatialIndex<T>;
+
     /**
      * The initial horizontal edge (rounded; by default, 0).
      */
@@ -0,0 +1,152 @@
+import { expect } from "chai";
+
+import { stubScene, stubSceneStackr } from "./fakes.test";
+
+describe("SceneStackr", () => {
+    describe("getTop", () => {
+        it("returns undefined when there are no scenes", () => {
+            // Arrange
+            const { sceneStacker } = stubSceneStackr();
+
+            // Act
+            const top = sceneStacker.getTop();
+
+            // Assert
+            expect(top).to.be.equal(undefined);
+        });
+
+        it("returns the most recently pushed scene", () => {
+            // Arrange
+            const { sceneStacker } = stubSceneStackr();
+            const scene = stubScene();
+
+            sceneStacker.push(stubScene());
+            sceneStacker.push(scene);
+
+            // Act
+            const top = sceneStacker.getTop();
+
+            // Assert
+            expect(top).to.be.equal(scene);
+        });
+    });
+
+    describe("push", () => {
+        it("enters the new scene after the enter event", () => {
+            // Arrange
+            const { events, sceneStacker } = stubSceneStackr();
+            const scene = stubScene();
+
+            // Act
+            sceneStacker.push(scene);
+
+            // Assert
+            expect(scene.onEnter).to.have.been.calledOnce.and.calledAfter(events.onEnter);
+        });
+
+        it("pauses the scene below before the pause event", () => {
+            // Arrange
+            const { events, sceneStacker } = stubSceneStackr();
+            const below = stubScene();
+
+            sceneStacker.push(below);
+
+            // Act
+            sceneStacker.push(stubScene());
+
+            // Assert
+            expect(below.onPause).to.have.been.calledOnce.and.calledBefore(events.onPause);
+        });
+
+        it("throws an error when the scene is already in the stack", () => {
+            // Arrange
+            const { sceneStacker } = stubSceneStackr();
+            const scene = stubScene();
+
+            sceneStacker.push(scene);
+
+            // Act
+            const act = () => sceneStacker.push(scene);
+
+            // Assert
+            expect(act).to.throw("Scene is already in the stack.");
+        });
+    });
+
+    describe("pop", () => {
+        it("returns undefined when there are no scenes", () => {
+            // Arrange
+            const { sceneStacker } = stubSceneStackr();
+
+            // Act
+            const popped = sceneStacker.pop();
+
+            // Assert
+            expect(popped).to.be.equal(undefined);
+        });
+
+        it("exits the top scene before the exit event", () => {
+            // Arrange
+            const { events, sceneStacker } = stubSceneStackr();
+            const scene = stubScene();
+
+            sceneStacker.push(scene);
+
+            // Act
+            const popped = sceneStacker.pop();
+
+            // Assert
+            expect(popped).to.be.equal(scene);
+            expect(scene.onExit).to.have.been.calledOnce.and.calledBefore(events.onExit);
+        });
+
+        it("resumes the scene below after the resume event", () => {
+            // Arrange
+            const { events, sceneStacker } = stubSceneStackr();
+            const below = stubScene();
+
+            sceneStacker.push(below);
+            sceneStacker.push(stubScene());
+
+            // Act
+            sceneStacker.pop();
+
+            // Assert
+            expect(below.onResume).to.have.been.calledOnce.and.calledAfter(events.onResume);
+        });
+    });
+
+    describe("replace", () => {
+        it("exits the top scene and enters the new scene", () => {
+            // Arrange
+            const { sceneStacker } = stubSceneStackr();
+            const replaced = stubScene();
+            const scene = stubScene();
+
+            sceneStacker.push(replaced);
+
+            // Act
+            sceneStacker.replace(scene);
+
+            // Assert
+            expect(sceneStacker.getScenes()).to.be.deep.equal([scene]);
+            expect(scene.onEnter).to.have.been.calledAfter(replaced.onExit);
+        });
+
+        it("doesn't pause or resume the scene below", () => {
+            // Arrange
+            const { sceneStacker } = stubSceneStackr();
+            const below = stubScene();
+
+            sceneStacker.push(below);
+            sceneStacker.push(stubScene());
+
+            // Act
+            sceneStacker.replace(stubScene());
+
+            // Assert
+            expect(below.onPause).to.have.callCount(1);
+            expect(below.onResume).to.have.callCount(0);
+        });
+    });
+});
@@ -0,0 +1,132 @@
+import { Scene, SceneEvents, SceneStackrSettings } from "./types";
+
+/**
+ * Stack of game scenes, such as title screens, gameplay, and pause menus.
+ */
+export class SceneStackr<TScene extends Scene = Scene> {
+    /**
+     * Hooks for any scene's changes.
+     */
+    private readonly events: SceneEvents<TScene>;
+
+    /**
+     * Scenes in the stack, from bottom to top.
+     */
+    private readonly scenes: TScene[] = [];
+
+    /**
+     * Initializes a new instance of the SceneStackr class.
+     *
+     * @param settings   Settings to be used for initialization.
+     */
+    public constructor(settings: SceneStackrSettings<TScene> = {}) {
+        this.events = settings.events ?? {};
+    }
+
+    /**
+     * @returns Scenes in the stack, from bottom to top.
+     */
+    public getScenes(): readonly TScene[] {
+        return this.scenes;
+    }
+
+    /**
+     * @returns The top scene, if there are any scenes.
+     */
+    public getTop(): TScene | undefined {
+        return this.scenes[this.scenes.length - 1];
+    }
+
+    /**
+     * Pauses the top scene, if any, and adds a new scene on top of it.
+     *
+     * @param scene   Scene to add to the top of the stack.
+     */
+    public push(scene: TScene): void {
+        this.ensureNotInStack(scene);
+
+        const below = this.getTop();
+        if (below) {
+            below.onPause?.();
+            this.events.onPause?.(below);
+        }
+
+        this.enter(scene);
+    }
+
+    /**
+     * Removes the top scene, if any, and resumes the scene below it.
+     *
+     * @returns The removed scene, if there was one.
+     */
+    public pop(): TScene | undefined {
+        const scene = this.exit();
+        if (!scene) {
+            return undefined;
+        }
+
+        const below = this.getTop();
+        if (below) {
+            this.events.onResume?.(below);
+            below.onResume?.();
+        }
+
+        return scene;
+    }
+
+    /**
+     * Replaces the top scene, if any, without pausing or resuming scenes below it.
+     *
+     * @param scene   Scene to add to the top of the stack.
+     * @returns The removed scene, if there was one.
+     */
+    public replace(scene: TScene): TScene | undefined {
+        this.ensureNotInStack(scene);
+
+        const replaced = this.exit();
+
+        this.enter(scene);
+
+        return replaced;
+    }
+
+    /**
+     * Adds a scene to the top of the stack.
+     *
+     * @param scene   Scene to add to the top of the stack.
+     */
+    private enter(scene: TScene): void {
+        this.scenes.push(scene);
+        this.events.onEnter?.(scene);
+        scene.onEnter?.();
+    }
+
+    /**
+     * Removes the top scene, if any.
+     *
+     * @returns The removed scene, if there was one.
+     */
+    private exit(): TScene | undefined {
+        const scene = this.getTop();
+        if (!scene) {
+            return undefined;
+        }
+
+        scene.onExit?.();
+        this.scenes.pop();
+        this.events.onExit?.(scene);
+
+        return scene;
+    }
+
+    /**
+     * Throws an error if a scene is already in the stack.
+     *
+     * @param scene   Scene about to be added to the stack.
+     */
+    private ensureNotInStack(scene: TScene): void {
+        if (this.scenes.includes(scene)) {
+            throw new Error("Scene is already in the stack.");
+        }
+    }
+}
@@ -0,0 +1,24 @@
+import * as sinon from "sinon";
+
+import { SceneStackr } from "./SceneStackr";
+
+export const stubScene = () => ({
+    onEnter: sinon.spy(),
+    onExit: sinon.spy(),
+    onPause: sinon.spy(),
+    onResume: sinon.spy(),
+});
+
+export type StubScene = ReturnType<typeof stubScene>;
+
+export const stubSceneStackr = () => {
+    const events = {
+        onEnter: sinon.spy(),
+        onExit: sinon.spy(),
+        onPause: sinon.spy(),
+        onResume: sinon.spy(),
+    };
+    const sceneStacker = new SceneStackr<StubScene>({ events });
+
+    return { events, sceneStacker };
+};
@@ -0,0 +1,2 @@
+export * from "./SceneStackr";
+export * from "./types";
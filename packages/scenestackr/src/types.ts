@@ -0,0 +1,67 @@
+/**
+ * A scene that may be pushed onto or popped off of a stack.
+ */
+export interface Scene {
+    /**
+     * Called after the scene is added to the top of the stack.
+     */
+    onEnter?(): void;
+
+    /**
+     * Called as the scene is removed from the top of the stack.
+     */
+    onExit?(): void;
+
+    /**
+     * Called as another scene is pushed on top of the scene.
+     */
+    onPause?(): void;
+
+    /**
+     * Called after the scene above the scene is popped.
+     */
+    onResume?(): void;
+}
+
+/**
+ * Hooks for any scene's changes, run around the scene's own hooks.
+ */
+export interface SceneEvents<TScene extends Scene> {
+    /**
+     * Called after a scene is added to the top of the stack, before its onEnter.
+     *
+     * @param scene   The new top scene.
+     */
+    onEnter?(scene: TScene): void;
+
+    /**
+     * Called after a scene is removed from the top of the stack, after its onExit.
+     *
+     * @param scene   The removed scene.
+     */
+    onExit?(scene: TScene): void;
+
+    /**
+     * Called as another scene is pushed on top of a scene, after its onPause.
+     *
+     * @param scene   The scene being covered.
+     */
+    onPause?(scene: TScene): void;
+
+    /**
+     * Called after the scene above a scene is popped, before its onResume.
+     *
+     * @param scene   The new top scene.
+     */
+    onResume?(scene: TScene): void;
+}
+
+/**
+ * Settings to initialize a new SceneStackr.
+ */
+export interface SceneStackrSettings<TScene extends Scene> {
+    /**
+     * Hooks for any scene's changes.
+     */
+    events?: SceneEvents<TScene>;
+}
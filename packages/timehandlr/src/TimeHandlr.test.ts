@@ -2,6 +2,7 @@ import { expect } from "chai";
 import * as sinon from "sinon";
 
 import { TimeHandlr } from "./TimeHandlr";
+import { SuspendedEvents, TimeHandlrSnapshot } from "./types";
 
 describe("TimeHandlr", () => {
     describe("addEvent", () => {
@@ -80,4 +81,322 @@ describe("TimeHandlr", () => {
             expect(callback).to.have.been.calledWithExactly(...args);
         });
     });
+
+    describe("countEvents", () => {
+        it("returns 0 when no events are scheduled", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+
+            // Act
+            const count = timeHandler.countEvents();
+
+            // Assert
+            expect(count).to.be.equal(0);
+        });
+
+        it("counts events scheduled across times", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+
+            timeHandler.addEvent(sinon.spy(), 1);
+            timeHandler.addEvent(sinon.spy(), 1);
+            timeHandler.addEvent(sinon.spy(), 2);
+
+            // Act
+            const count = timeHandler.countEvents();
+
+            // Assert
+            expect(count).to.be.equal(3);
+        });
+    });
+
+    describe("getTime", () => {
+        it("increases when advanced", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+
+            timeHandler.advance();
+
+            // Act
+            const time = timeHandler.getTime();
+
+            // Assert
+            expect(time).to.be.equal(1);
+        });
+    });
+
+    describe("restoreSnapshot", () => {
+        it("calls an event that was pending when the snapshot was created", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const callback = sinon.spy();
+
+            timeHandler.addEvent(callback, 2);
+            timeHandler.advance();
+
+            const snapshot = timeHandler.createSnapshot();
+
+            timeHandler.advance();
+            timeHandler.restoreSnapshot(snapshot);
+
+            // Act
+            timeHandler.advance();
+
+            // Assert
+            expect(callback).to.have.callCount(2);
+        });
+
+        it("doesn't call an event added after the snapshot was created", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const callback = sinon.spy();
+            const snapshot = timeHandler.createSnapshot();
+
+            timeHandler.addEvent(callback);
+            timeHandler.restoreSnapshot(snapshot);
+
+            // Act
+            timeHandler.advance();
+
+            // Assert
+            expect(callback).to.have.callCount(0);
+        });
+
+        it("restores the remaining repeats of an event interval", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const callback = sinon.spy();
+
+            timeHandler.addEventInterval(callback, 1, 3);
+
+            const snapshot = timeHandler.createSnapshot();
+
+            timeHandler.advance();
+            timeHandler.advance();
+            timeHandler.restoreSnapshot(snapshot);
+
+            // Act
+            for (let i = 0; i < 5; i += 1) {
+                timeHandler.advance();
+            }
+
+            // Assert
+            expect(callback).to.have.callCount(5);
+        });
+
+        it("restores events from a serialized snapshot", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const callback = sinon.spy();
+
+            timeHandler.addEvent(callback, 2);
+
+            const snapshot = JSON.parse(
+                JSON.stringify(timeHandler.createSnapshot())
+            ) as TimeHandlrSnapshot;
+
+            timeHandler.advance();
+            timeHandler.advance();
+            timeHandler.restoreSnapshot(snapshot);
+
+            // Act
+            timeHandler.advance();
+            timeHandler.advance();
+
+            // Assert
+            expect(callback).to.have.callCount(2);
+        });
+
+        it("restores the repeat calculator of an event cancelled after the snapshot", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const callback = sinon.spy();
+            const event = timeHandler.addEventInterval(callback, 1, () => true);
+            const snapshot = timeHandler.createSnapshot();
+
+            timeHandler.cancelEvent(event);
+            timeHandler.restoreSnapshot(snapshot);
+
+            // Act
+            for (let i = 0; i < 3; i += 1) {
+                timeHandler.advance();
+            }
+
+            // Assert
+            expect(callback).to.have.callCount(3);
+        });
+    });
+
+    describe("suspendEvents", () => {
+        it("doesn't call an event that was pending when events were suspended", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const callback = sinon.spy();
+
+            timeHandler.addEvent(callback);
+            timeHandler.suspendEvents();
+
+            // Act
+            timeHandler.advance();
+
+            // Assert
+            expect(callback).to.have.callCount(0);
+        });
+
+        it("calls an event added after events were suspended", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const callback = sinon.spy();
+
+            timeHandler.suspendEvents();
+            timeHandler.addEvent(callback);
+
+            // Act
+            timeHandler.advance();
+
+            // Assert
+            expect(callback).to.have.callCount(1);
+        });
+
+        it("doesn't call the rest of the current time's events when suspended during an event", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const callback = sinon.spy();
+
+            timeHandler.addEvent(() => timeHandler.suspendEvents());
+            timeHandler.addEvent(callback);
+
+            // Act
+            timeHandler.advance();
+
+            // Assert
+            expect(callback).to.have.callCount(0);
+        });
+
+        it("doesn't repeat an event that suspended events during its callback", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const callback = sinon.spy(() => {
+                if (callback.callCount === 1) {
+                    timeHandler.suspendEvents();
+                }
+            });
+
+            timeHandler.addEventInterval(callback, 1, Infinity);
+
+            // Act
+            timeHandler.advance();
+            timeHandler.advance();
+            timeHandler.advance();
+
+            // Assert
+            expect(callback).to.have.callCount(1);
+        });
+    });
+
+    describe("resumeEvents", () => {
+        it("calls the rest of a time's events right after resuming when suspended during an event", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const callback = sinon.spy();
+            const suspended: SuspendedEvents[] = [];
+
+            timeHandler.addEvent(() => {
+                suspended.push(timeHandler.suspendEvents());
+            });
+            timeHandler.addEvent(callback);
+            timeHandler.advance();
+            timeHandler.resumeEvents(suspended[0]);
+
+            // Act
+            timeHandler.advance();
+
+            // Assert
+            expect(callback).to.have.callCount(1);
+        });
+
+        it("repeats an event that suspended events during its callback after resuming", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const suspended: SuspendedEvents[] = [];
+            const callback = sinon.spy(() => {
+                if (callback.callCount === 1) {
+                    suspended.push(timeHandler.suspendEvents());
+                }
+            });
+
+            timeHandler.addEventInterval(callback, 1, Infinity);
+            timeHandler.advance();
+            timeHandler.advance();
+            timeHandler.resumeEvents(suspended[0]);
+
+            // Act
+            timeHandler.advance();
+
+            // Assert
+            expect(callback).to.have.callCount(2);
+        });
+
+        it("calls a suspended event after its remaining delay", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const callback = sinon.spy();
+
+            timeHandler.addEvent(callback, 2);
+            timeHandler.advance();
+
+            const suspended = timeHandler.suspendEvents();
+
+            timeHandler.advance();
+            timeHandler.advance();
+            timeHandler.resumeEvents(suspended);
+
+            // Act
+            timeHandler.advance();
+
+            // Assert
+            expect(callback).to.have.callCount(1);
+        });
+
+        it("keeps events scheduled while events were suspended", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const suspendedCallback = sinon.spy();
+            const newCallback = sinon.spy();
+
+            timeHandler.addEvent(suspendedCallback);
+
+            const suspended = timeHandler.suspendEvents();
+
+            timeHandler.addEvent(newCallback);
+            timeHandler.resumeEvents(suspended);
+
+            // Act
+            timeHandler.advance();
+
+            // Assert
+            expect(newCallback).to.have.been.calledBefore(suspendedCallback);
+        });
+    });
+
+    describe("discardEvents", () => {
+        it("doesn't call discarded events after resuming", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const callback = sinon.spy();
+
+            timeHandler.addEvent(callback);
+
+            const suspended = timeHandler.suspendEvents();
+
+            timeHandler.discardEvents(suspended);
+            timeHandler.resumeEvents(suspended);
+
+            // Act
+            timeHandler.advance();
+
+            // Assert
+            expect(callback).to.have.callCount(0);
+        });
+    });
 });
@@ -1,12 +1,34 @@
 import { TimeEvent } from "./TimeEvent";
+import { Tween } from "./Tween";
 import {
     CurrentEvents,
     EventCallback,
     NumericCalculator,
+    RepeatCalculator,
+    SuspendedEvent,
+    SuspendedEvents,
     TimeEventLike,
     TimeHandlrSettings,
+    TimeHandlrSnapshot,
+    TweenSettings,
 } from "./types";
 
+/**
+ * Adds an event to suspended events, after any to be called before or with it.
+ *
+ * @param suspended   Set aside events from suspendEvents.
+ * @param suspendedEvent   A newly set aside event.
+ */
+const insertSuspendedEvent = (suspended: SuspendedEvents, suspendedEvent: SuspendedEvent) => {
+    const index = suspended.events.findIndex(({ delay }) => delay > suspendedEvent.delay);
+
+    if (index === -1) {
+        suspended.events.push(suspendedEvent);
+    } else {
+        suspended.events.splice(index, 0, suspendedEvent);
+    }
+};
+
 /**
  * Scheduling for dynamically repeating or synchronized events.
  */
@@ -26,6 +48,56 @@ export class TimeHandlr {
      */
     private events: CurrentEvents;
 
+    /**
+     * Events being handled by the current advance, if it's running.
+     */
+    private advancingEvents?: TimeEventLike[];
+
+    /**
+     * Index of the event being handled by the current advance.
+     */
+    private advancingIndex = 0;
+
+    /**
+     * Whether an event's callback is running.
+     */
+    private handlingEvent = false;
+
+    /**
+     * Events suspended while an event's callback was running, to add its next repeat to.
+     */
+    private suspendedWhileHandling?: SuspendedEvents;
+
+    /**
+     * Tweens keyed by their update events, to cancel if those are dropped and to save in snapshots.
+     */
+    private readonly tweens = new WeakMap<TimeEventLike, Tween>();
+
+    /**
+     * Identifiers given to events saved in snapshots.
+     */
+    private readonly eventIds = new WeakMap<TimeEventLike, number>();
+
+    /**
+     * Events saved in snapshots, keyed by their identifiers, while they're still in memory.
+     */
+    private readonly eventsById = new Map<number, WeakRef<TimeEventLike>>();
+
+    /**
+     * Events saved in each snapshot, so they stay in memory for as long as the snapshot does.
+     */
+    private readonly snapshotEvents = new WeakMap<TimeHandlrSnapshot, TimeEventLike[]>();
+
+    /**
+     * Repeat calculators of events saved in snapshots, as they can't be serialized.
+     */
+    private readonly repeatCalculators = new WeakMap<TimeEventLike, RepeatCalculator>();
+
+    /**
+     * Most recently given event identifier.
+     */
+    private lastEventId = 0;
+
     /**
      * Initializes a new instance of the TimeHandlr class.
      *
@@ -38,6 +110,26 @@ export class TimeHandlr {
         this.timingDefault = settings.timingDefault === undefined ? 1 : settings.timingDefault;
     }
 
+    /**
+     * @returns The current (most recently reached) time.
+     */
+    public getTime(): number {
+        return this.time;
+    }
+
+    /**
+     * @returns How many events are scheduled, including cancelled ones not yet reached.
+     */
+    public countEvents(): number {
+        let count = 0;
+
+        for (const time in this.events) {
+            count += this.events[time]?.length ?? 0;
+        }
+
+        return count;
+    }
+
     /**
      * Adds an event to be called once.
      *
@@ -109,6 +201,35 @@ export class TimeHandlr {
               );
     }
 
+    /**
+     * Adds and starts a tween between two numbers, updated once per tick.
+     *
+     * @param settings   Settings for the tween.
+     * @returns The started tween.
+     */
+    public addTween(settings: TweenSettings): Tween {
+        const tween = new Tween(this, settings);
+        tween.start();
+        return tween;
+    }
+
+    /**
+     * Schedules a tween's updates for each tick until they return truthy.
+     *
+     * @param tween   A starting tween.
+     * @param update   Advances the tween, returning whether it's done.
+     * @returns An event for the updates.
+     * @remarks The tween is cancelled if the event is dropped without being called,
+     *          such as by cancelAllEvents, restoreSnapshot, or discardEvents.
+     */
+    public addTweenUpdates(tween: Tween, update: () => boolean): TimeEvent {
+        const event = this.addEventInterval(update, 1, Infinity);
+
+        this.tweens.set(event, tween);
+
+        return event;
+    }
+
     /**
      * Increments time and handles all now-current events.
      */
@@ -120,10 +241,18 @@ export class TimeHandlr {
             return;
         }
 
-        for (const currentEvent of currentEvents) {
-            this.handleEvent(currentEvent);
+        this.advancingEvents = currentEvents;
+
+        for (
+            this.advancingIndex = 0;
+            this.advancingIndex < currentEvents.length;
+            this.advancingIndex += 1
+        ) {
+            this.handleEvent(currentEvents[this.advancingIndex]);
         }
 
+        this.advancingEvents = undefined;
+
         // Once all these events are done, ignore the memory
         // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
         delete this.events[this.time];
@@ -135,14 +264,28 @@ export class TimeHandlr {
      *
      * @param event   An event to be handled.
      * @returns A new time the event is scheduled for (or undefined if it isn't).
+     * @remarks If events are suspended during the callback, the event's next repeat is suspended too.
      */
     public handleEvent(event: TimeEventLike): number | undefined {
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        if (event.repeat! <= 0) {
+            return undefined;
+        }
+
+        let stopped: unknown;
+
+        this.handlingEvent = true;
+        try {
+            stopped = event.callback.apply(this, event.args ?? []);
+        } finally {
+            this.handlingEvent = false;
+        }
+
+        const suspended = this.suspendedWhileHandling;
+        this.suspendedWhileHandling = undefined;
+
         // Events return truthy values to indicate a stop.
-        if (
-            // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-            event.repeat! <= 0 ||
-            event.callback.apply(this, event.args || [])
-        ) {
+        if (stopped) {
             return undefined;
         }
 
@@ -163,6 +306,15 @@ export class TimeHandlr {
         }
 
         event.scheduleNextRepeat();
+
+        if (suspended) {
+            insertSuspendedEvent(suspended, {
+                delay: Math.max(event.time - this.time, 1),
+                event,
+            });
+            return undefined;
+        }
+
         this.insertEvent(event);
         return event.time;
     }
@@ -178,9 +330,217 @@ export class TimeHandlr {
 
     /**
      * Cancels all events.
+     *
+     * @remarks Tweens updated by the events are cancelled too.
      */
     public cancelAllEvents(): void {
+        const dropped = this.events;
+
         this.events = {};
+
+        for (const time in dropped) {
+            for (const event of dropped[time] ?? []) {
+                this.dropEvent(event);
+            }
+        }
+    }
+
+    /**
+     * Sets aside all scheduled events so they aren't called until resumed.
+     *
+     * @returns Set aside events to later pass to resumeEvents.
+     * @remarks If called during an event, the rest of the current time's events are
+     *          suspended to be called right after resuming, as is the event's next repeat.
+     */
+    public suspendEvents(): SuspendedEvents {
+        const suspended: SuspendedEvents = {
+            events: [],
+        };
+
+        if (this.advancingEvents) {
+            for (const event of this.advancingEvents.splice(this.advancingIndex + 1)) {
+                suspended.events.push({ delay: 1, event });
+            }
+        }
+
+        if (this.handlingEvent) {
+            this.suspendedWhileHandling = suspended;
+        }
+
+        for (const time of Object.keys(this.events)
+            .map(Number)
+            .sort((a, b) => a - b)) {
+            if (time <= this.time) {
+                continue;
+            }
+
+            // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+            for (const event of this.events[time]!) {
+                suspended.events.push({
+                    delay: time - this.time,
+                    event,
+                });
+            }
+        }
+
+        this.events = {};
+
+        return suspended;
+    }
+
+    /**
+     * Reschedules events set aside by suspendEvents, alongside any scheduled since.
+     *
+     * @param suspended   Set aside events from suspendEvents.
+     * @remarks Events keep how long they had left to wait, ignoring time spent suspended.
+     */
+    public resumeEvents(suspended: SuspendedEvents): void {
+        for (const { delay, event } of suspended.events) {
+            event.time = this.time + delay;
+            this.insertEvent(event);
+        }
+    }
+
+    /**
+     * Cancels events set aside by suspendEvents that won't be resumed.
+     *
+     * @param suspended   Set aside events from suspendEvents.
+     * @remarks Tweens updated by the events are cancelled too.
+     */
+    public discardEvents(suspended: SuspendedEvents): void {
+        for (const { event } of suspended.events) {
+            event.repeat = 0;
+            this.dropEvent(event);
+        }
+    }
+
+    /**
+     * Saves the current time and all scheduled events.
+     *
+     * @returns Saved state to later pass to restoreSnapshot.
+     * @remarks Events are saved by identifier, as their callbacks can't be serialized.
+     */
+    public createSnapshot(): TimeHandlrSnapshot {
+        const events: TimeEventLike[] = [];
+        const snapshot: TimeHandlrSnapshot = {
+            events: [],
+            time: this.time,
+        };
+
+        for (const [id, reference] of this.eventsById) {
+            if (!reference.deref()) {
+                this.eventsById.delete(id);
+            }
+        }
+
+        for (const time of Object.keys(this.events)
+            .map(Number)
+            .sort((a, b) => a - b)) {
+            // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+            for (const event of this.events[time]!) {
+                events.push(event);
+                snapshot.events.push({
+                    count: event.count,
+                    id: this.getEventId(event),
+                    repeat: this.saveRepeat(event.repeat),
+                    time: event.time,
+                    tween: this.tweens.get(event)?.createSnapshot(),
+                });
+            }
+        }
+
+        this.snapshotEvents.set(snapshot, events);
+
+        return snapshot;
+    }
+
+    /**
+     * Restores the time and scheduled events from a snapshot.
+     *
+     * @param snapshot   Saved state from createSnapshot.
+     * @remarks Events are restored as the same objects they were saved as. Events no
+     *          longer in memory, such as in a different TimeHandlr, can't be restored.
+     *          Tweens updated by scheduled events that weren't restored are cancelled.
+     */
+    public restoreSnapshot(snapshot: TimeHandlrSnapshot): void {
+        const dropped = this.events;
+        const restored = new Set<TimeEventLike>();
+
+        this.time = snapshot.time;
+        this.events = {};
+
+        for (const { count, id, repeat, time, tween } of snapshot.events) {
+            const event = this.eventsById.get(id)?.deref();
+            if (!event) {
+                continue;
+            }
+
+            // Settled tweens can't resume, so their updates aren't restored
+            const updated = this.tweens.get(event);
+            if (updated && updated.getState() !== "running") {
+                continue;
+            }
+
+            if (updated && tween) {
+                updated.restoreSnapshot(tween);
+            }
+
+            event.count = count;
+            event.repeat =
+                repeat === null ? Infinity : repeat ?? this.repeatCalculators.get(event);
+            event.time = time;
+            this.insertEvent(event);
+            restored.add(event);
+        }
+
+        for (const time in dropped) {
+            for (const event of dropped[time] ?? []) {
+                if (!restored.has(event)) {
+                    this.dropEvent(event);
+                }
+            }
+        }
+    }
+
+    /**
+     * @param event   An event to save in a snapshot.
+     * @returns Identifier for the event, given to it if it doesn't have one yet.
+     */
+    private getEventId(event: TimeEventLike): number {
+        let id = this.eventIds.get(event);
+
+        if (id === undefined) {
+            id = this.lastEventId += 1;
+            this.eventIds.set(event, id);
+            this.eventsById.set(id, new WeakRef(event));
+        }
+
+        if (typeof event.repeat === "function") {
+            this.repeatCalculators.set(event, event.repeat);
+        }
+
+        return id;
+    }
+
+    /**
+     * @param repeat   How many more times an event is to repeat.
+     * @returns The repeat count to save in a snapshot.
+     */
+    private saveRepeat(repeat: TimeEventLike["repeat"]): number | null | undefined {
+        if (typeof repeat === "function") {
+            return undefined;
+        }
+
+        return repeat === Infinity ? null : repeat;
+    }
+
+    /**
+     * Cancels the tween updated by an event that won't be called anymore, if there is one.
+     *
+     * @param event   An event no longer scheduled.
+     */
+    private dropEvent(event: TimeEventLike): void {
+        this.tweens.get(event)?.cancel();
     }
 
     /**
@@ -0,0 +1,425 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+
+import { easeInQuad } from "./easings";
+import { TimeHandlr } from "./TimeHandlr";
+import { TimeHandlrSnapshot } from "./types";
+
+const advance = (timeHandler: TimeHandlr, ticks: number) => {
+    for (let i = 0; i < ticks; i += 1) {
+        timeHandler.advance();
+    }
+};
+
+describe("Tween", () => {
+    describe("start", () => {
+        it("updates linearly once per tick by default", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const onUpdate = sinon.spy();
+
+            // Act
+            timeHandler.addTween({ duration: 4, from: 0, onUpdate, to: 8 });
+            advance(timeHandler, 4);
+
+            // Assert
+            expect(onUpdate.args).to.be.deep.equal([[2], [4], [6], [8]]);
+        });
+
+        it("eases updates with an easing", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const onUpdate = sinon.spy();
+
+            // Act
+            timeHandler.addTween({ duration: 2, easing: easeInQuad, from: 0, onUpdate, to: 8 });
+            advance(timeHandler, 2);
+
+            // Assert
+            expect(onUpdate.args).to.be.deep.equal([[2], [8]]);
+        });
+
+        it("computes from and to when started", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const onUpdate = sinon.spy();
+            let from = 0;
+            const tween = timeHandler
+                .addTween({ duration: 1, from: 0, onUpdate: sinon.spy(), to: 0 })
+                .chain({ duration: 1, from: () => from, onUpdate, to: () => from + 1 });
+
+            from = 10;
+
+            // Act
+            advance(timeHandler, 2);
+
+            // Assert
+            expect(tween.getState()).to.be.equal("completed");
+            expect(onUpdate).to.have.been.calledOnceWithExactly(11);
+        });
+
+        it("stops updating after completing", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const onUpdate = sinon.spy();
+
+            timeHandler.addTween({ duration: 2, from: 0, onUpdate, to: 8 });
+
+            // Act
+            advance(timeHandler, 5);
+
+            // Assert
+            expect(onUpdate).to.have.callCount(2);
+        });
+
+        it("runs again for each repeat", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const onUpdate = sinon.spy();
+
+            timeHandler.addTween({ duration: 2, from: 0, onUpdate, repeat: 1, to: 8 });
+
+            // Act
+            advance(timeHandler, 5);
+
+            // Assert
+            expect(onUpdate.args).to.be.deep.equal([[4], [8], [4], [8]]);
+        });
+
+        it("alternates direction on repeats when yoyo is true", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const onUpdate = sinon.spy();
+
+            timeHandler.addTween({
+                duration: 2,
+                from: 0,
+                onUpdate,
+                repeat: 2,
+                to: 8,
+                yoyo: true,
+            });
+
+            // Act
+            advance(timeHandler, 6);
+
+            // Assert
+            expect(onUpdate.args).to.be.deep.equal([[4], [8], [4], [0], [4], [8]]);
+        });
+    });
+
+    describe("finished", () => {
+        it("resolves with true when the tween completes", async () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const tween = timeHandler.addTween({
+                duration: 2,
+                from: 0,
+                onUpdate: sinon.spy(),
+                to: 8,
+            });
+
+            // Act
+            advance(timeHandler, 2);
+
+            // Assert
+            expect(await tween.finished).to.be.equal(true);
+        });
+
+        it("resolves with false when the tween is cancelled", async () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const tween = timeHandler.addTween({
+                duration: 2,
+                from: 0,
+                onUpdate: sinon.spy(),
+                to: 8,
+            });
+
+            // Act
+            tween.cancel();
+
+            // Assert
+            expect(await tween.finished).to.be.equal(false);
+        });
+
+        it("resolves with false when all events are cancelled", async () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const tween = timeHandler.addTween({
+                duration: 2,
+                from: 0,
+                onUpdate: sinon.spy(),
+                to: 8,
+            });
+
+            // Act
+            timeHandler.cancelAllEvents();
+
+            // Assert
+            expect(tween.getState()).to.be.equal("cancelled");
+            expect(await tween.finished).to.be.equal(false);
+        });
+
+        it("resolves with false when a snapshot from before the tween is restored", async () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const snapshot = timeHandler.createSnapshot();
+            const tween = timeHandler.addTween({
+                duration: 2,
+                from: 0,
+                onUpdate: sinon.spy(),
+                to: 8,
+            });
+
+            // Act
+            timeHandler.restoreSnapshot(snapshot);
+
+            // Assert
+            expect(tween.getState()).to.be.equal("cancelled");
+            expect(await tween.finished).to.be.equal(false);
+        });
+
+        it("keeps running when a snapshot from during the tween is restored", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const tween = timeHandler.addTween({
+                duration: 2,
+                from: 0,
+                onUpdate: sinon.spy(),
+                to: 8,
+            });
+
+            // Act
+            timeHandler.restoreSnapshot(timeHandler.createSnapshot());
+
+            // Assert
+            expect(tween.getState()).to.be.equal("running");
+        });
+
+        it("rewinds its progress when a snapshot from during the tween is restored", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const onUpdate = sinon.spy();
+
+            timeHandler.addTween({
+                duration: 10,
+                from: 0,
+                onUpdate,
+                to: 10,
+            });
+            advance(timeHandler, 3);
+
+            const snapshot = timeHandler.createSnapshot();
+
+            advance(timeHandler, 3);
+            timeHandler.restoreSnapshot(snapshot);
+
+            // Act
+            timeHandler.advance();
+
+            // Assert
+            expect(onUpdate.lastCall.args).to.be.deep.equal([4]);
+        });
+
+        it("keeps updating when a serialized snapshot from during the tween is restored", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const onUpdate = sinon.spy();
+
+            timeHandler.addTween({
+                duration: 10,
+                from: 0,
+                onUpdate,
+                to: 10,
+            });
+            timeHandler.advance();
+
+            const snapshot = JSON.parse(
+                JSON.stringify(timeHandler.createSnapshot())
+            ) as TimeHandlrSnapshot;
+
+            timeHandler.restoreSnapshot(snapshot);
+
+            // Act
+            advance(timeHandler, 3);
+
+            // Assert
+            expect(onUpdate).to.have.callCount(4);
+        });
+
+        it("doesn't resume when a snapshot from before it was cancelled is restored", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const onUpdate = sinon.spy();
+            const tween = timeHandler.addTween({
+                duration: 10,
+                from: 0,
+                onUpdate,
+                to: 10,
+            });
+
+            timeHandler.advance();
+
+            const snapshot = timeHandler.createSnapshot();
+
+            tween.cancel();
+            timeHandler.restoreSnapshot(snapshot);
+
+            // Act
+            advance(timeHandler, 2);
+
+            // Assert
+            expect(onUpdate).to.have.callCount(1);
+            expect(tween.getState()).to.be.equal("cancelled");
+        });
+
+        it("doesn't resume when a snapshot from before it completed is restored", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const onUpdate = sinon.spy();
+            const tween = timeHandler.addTween({
+                duration: 2,
+                from: 0,
+                onUpdate,
+                to: 8,
+            });
+
+            timeHandler.advance();
+
+            const snapshot = timeHandler.createSnapshot();
+
+            timeHandler.advance();
+            timeHandler.restoreSnapshot(snapshot);
+
+            // Act
+            advance(timeHandler, 2);
+
+            // Assert
+            expect(onUpdate).to.have.callCount(2);
+            expect(tween.getState()).to.be.equal("completed");
+        });
+
+        it("resolves with false when its suspended updates are discarded", async () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const tween = timeHandler.addTween({
+                duration: 2,
+                from: 0,
+                onUpdate: sinon.spy(),
+                to: 8,
+            });
+            const suspended = timeHandler.suspendEvents();
+
+            // Act
+            timeHandler.discardEvents(suspended);
+
+            // Assert
+            expect(tween.getState()).to.be.equal("cancelled");
+            expect(await tween.finished).to.be.equal(false);
+        });
+
+        it("keeps running while its updates are suspended", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const onUpdate = sinon.spy();
+            const tween = timeHandler.addTween({ duration: 2, from: 0, onUpdate, to: 8 });
+
+            timeHandler.resumeEvents(timeHandler.suspendEvents());
+
+            // Act
+            advance(timeHandler, 1);
+
+            // Assert
+            expect(tween.getState()).to.be.equal("running");
+            expect(onUpdate).to.have.been.calledOnceWithExactly(4);
+        });
+    });
+
+    describe("chain", () => {
+        it("starts the next tween after the tween completes", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const onUpdate = sinon.spy();
+
+            timeHandler
+                .addTween({ duration: 2, from: 0, onUpdate, to: 8 })
+                .chain({ duration: 2, from: 8, onUpdate, to: 0 });
+
+            // Act
+            advance(timeHandler, 4);
+
+            // Assert
+            expect(onUpdate.args).to.be.deep.equal([[4], [8], [4], [0]]);
+        });
+
+        it("starts the next tween immediately when the tween already completed", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const tween = timeHandler.addTween({
+                duration: 1,
+                from: 0,
+                onUpdate: sinon.spy(),
+                to: 8,
+            });
+
+            advance(timeHandler, 1);
+
+            // Act
+            const next = tween.chain({ duration: 1, from: 8, onUpdate: sinon.spy(), to: 0 });
+
+            // Assert
+            expect(next.getState()).to.be.equal("running");
+        });
+    });
+
+    describe("cancel", () => {
+        it("stops updating the tween", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const onUpdate = sinon.spy();
+            const tween = timeHandler.addTween({ duration: 4, from: 0, onUpdate, to: 8 });
+
+            timeHandler.advance();
+
+            // Act
+            tween.cancel();
+            advance(timeHandler, 3);
+
+            // Assert
+            expect(onUpdate).to.have.callCount(1);
+        });
+
+        it("cancels the tween when onUpdate returns truthy", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const onUpdate = sinon.stub().returns(true);
+            const tween = timeHandler.addTween({ duration: 4, from: 0, onUpdate, to: 8 });
+
+            // Act
+            advance(timeHandler, 4);
+
+            // Assert
+            expect(onUpdate).to.have.callCount(1);
+            expect(tween.getState()).to.be.equal("cancelled");
+        });
+
+        it("cancels chained tweens", () => {
+            // Arrange
+            const timeHandler = new TimeHandlr();
+            const tween = timeHandler.addTween({
+                duration: 2,
+                from: 0,
+                onUpdate: sinon.spy(),
+                to: 8,
+            });
+            const next = tween.chain({ duration: 2, from: 8, onUpdate: sinon.spy(), to: 0 });
+
+            // Act
+            tween.cancel();
+
+            // Assert
+            expect(next.getState()).to.be.equal("cancelled");
+        });
+    });
+});
@@ -0,0 +1,206 @@
+import { linear } from "./easings";
+import { TimeEvent } from "./TimeEvent";
+import { TimeHandlr } from "./TimeHandlr";
+import { TweenSettings, TweenSnapshot, TweenState } from "./types";
+
+/**
+ * Animates a number between two values over time, one update per TimeHandlr tick.
+ */
+export class Tween {
+    /**
+     * Resolves with true when the tween completes, or false if it's cancelled first.
+     */
+    public readonly finished: Promise<boolean>;
+
+    /**
+     * Tweens to start when this completes.
+     */
+    private readonly chained: Tween[] = [];
+
+    /**
+     * Resolves the finished promise.
+     */
+    private readonly resolveFinished: (completed: boolean) => void;
+
+    /**
+     * Settings for the tween.
+     */
+    private readonly settings: TweenSettings;
+
+    /**
+     * Scheduler for the tween's updates.
+     */
+    private readonly timeHandler: TimeHandlr;
+
+    /**
+     * How many ticks the current run has taken.
+     */
+    private elapsed = 0;
+
+    /**
+     * Scheduled updates, once started.
+     */
+    private event?: TimeEvent;
+
+    /**
+     * Value the tween started at, once started.
+     */
+    private from = 0;
+
+    /**
+     * How many runs have completed.
+     */
+    private runs = 0;
+
+    /**
+     * Where the tween is in its lifecycle.
+     */
+    private state: TweenState = "pending";
+
+    /**
+     * Value the tween ends at, once started.
+     */
+    private to = 0;
+
+    /**
+     * Initializes a new instance of the Tween class.
+     *
+     * @param timeHandler   Scheduler for the tween's updates.
+     * @param settings   Settings for the tween.
+     */
+    public constructor(timeHandler: TimeHandlr, settings: TweenSettings) {
+        let resolveFinished: (completed: boolean) => void = () => undefined;
+
+        this.finished = new Promise((resolve) => {
+            resolveFinished = resolve;
+        });
+        this.resolveFinished = resolveFinished;
+        this.settings = settings;
+        this.timeHandler = timeHandler;
+    }
+
+    /**
+     * @returns Where the tween is in its lifecycle.
+     */
+    public getState(): TweenState {
+        return this.state;
+    }
+
+    /**
+     * Saves how far the tween has progressed.
+     *
+     * @returns Saved progress to later pass to restoreSnapshot.
+     */
+    public createSnapshot(): TweenSnapshot {
+        return {
+            elapsed: this.elapsed,
+            runs: this.runs,
+        };
+    }
+
+    /**
+     * Restores how far the tween had progressed from a snapshot.
+     *
+     * @param snapshot   Saved progress from createSnapshot.
+     */
+    public restoreSnapshot(snapshot: TweenSnapshot): void {
+        this.elapsed = snapshot.elapsed;
+        this.runs = snapshot.runs;
+    }
+
+    /**
+     * Starts updating the tween each tick, if it hasn't started yet.
+     */
+    public start(): void {
+        if (this.state !== "pending") {
+            return;
+        }
+
+        this.state = "running";
+        this.from = TimeEvent.runCalculator(this.settings.from);
+        this.to = TimeEvent.runCalculator(this.settings.to);
+        this.event = this.timeHandler.addTweenUpdates(this, () => this.update());
+    }
+
+    /**
+     * Creates a tween to start when this one completes.
+     *
+     * @param settings   Settings for the next tween.
+     * @returns The next tween.
+     * @remarks Cancelling this tween before it completes also cancels the next one.
+     */
+    public chain(settings: TweenSettings): Tween {
+        const next = new Tween(this.timeHandler, settings);
+
+        if (this.state === "completed") {
+            next.start();
+        } else if (this.state === "cancelled") {
+            next.cancel();
+        } else {
+            this.chained.push(next);
+        }
+
+        return next;
+    }
+
+    /**
+     * Stops the tween where it is, along with any tweens chained after it.
+     */
+    public cancel(): void {
+        if (this.state === "cancelled" || this.state === "completed") {
+            return;
+        }
+
+        if (this.event) {
+            this.timeHandler.cancelEvent(this.event);
+        }
+
+        this.state = "cancelled";
+        this.resolveFinished(false);
+
+        for (const next of this.chained) {
+            next.cancel();
+        }
+    }
+
+    /**
+     * Advances the tween by a tick and passes its new value to onUpdate.
+     *
+     * @returns Whether the tween has completed or been cancelled, to stop its event.
+     */
+    private update(): boolean {
+        const duration = Math.max(1, this.settings.duration);
+        const easing = this.settings.easing ?? linear;
+
+        this.elapsed += 1;
+
+        const reversed = this.settings.yoyo && this.runs % 2 === 1;
+        const progress = Math.min(1, this.elapsed / duration);
+        const eased = easing(reversed ? 1 - progress : progress);
+
+        if (this.settings.onUpdate(this.from + (this.to - this.from) * eased)) {
+            this.cancel();
+            return true;
+        }
+
+        if (this.elapsed < duration) {
+            return false;
+        }
+
+        this.elapsed = 0;
+        this.runs += 1;
+
+        if (this.runs <= (this.settings.repeat ?? 0)) {
+            return false;
+        }
+
+        this.state = "completed";
+        this.resolveFinished(true);
+
+        for (const next of this.chained) {
+            next.start();
+        }
+
+        return true;
+    }
+}
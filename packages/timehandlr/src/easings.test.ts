@@ -0,0 +1,35 @@
+import { expect } from "chai";
+
+import * as easings from "./easings";
+
+describe("easings", () => {
+    for (const [name, easing] of Object.entries(easings)) {
+        describe(name, () => {
+            it("starts at 0", () => {
+                // Act
+                const eased = easing(0);
+
+                // Assert
+                expect(eased).to.be.closeTo(0, 0.000001);
+            });
+
+            it("ends at 1", () => {
+                // Act
+                const eased = easing(1);
+
+                // Assert
+                expect(eased).to.be.closeTo(1, 0.000001);
+            });
+        });
+    }
+
+    describe("easeInOutQuad", () => {
+        it("is halfway at the midpoint", () => {
+            // Act
+            const eased = easings.easeInOutQuad(0.5);
+
+            // Assert
+            expect(eased).to.be.equal(0.5);
+        });
+    });
+});
@@ -0,0 +1,81 @@
+import { Easing } from "./types";
+
+/**
+ * Moves at a constant rate.
+ */
+export const linear: Easing = (progress) => progress;
+
+/**
+ * Starts slowly and speeds up, quadratically.
+ */
+export const easeInQuad: Easing = (progress) => progress * progress;
+
+/**
+ * Starts quickly and slows down, quadratically.
+ */
+export const easeOutQuad: Easing = (progress) => 1 - (1 - progress) * (1 - progress);
+
+/**
+ * Speeds up then slows down, quadratically.
+ */
+export const easeInOutQuad: Easing = (progress) =>
+    progress < 0.5 ? 2 * progress * progress : 1 - Math.pow(-2 * progress + 2, 2) / 2;
+
+/**
+ * Starts slowly and speeds up, cubically.
+ */
+export const easeInCubic: Easing = (progress) => progress * progress * progress;
+
+/**
+ * Starts quickly and slows down, cubically.
+ */
+export const easeOutCubic: Easing = (progress) => 1 - Math.pow(1 - progress, 3);
+
+/**
+ * Speeds up then slows down, cubically.
+ */
+export const easeInOutCubic: Easing = (progress) =>
+    progress < 0.5 ? 4 * progress * progress * progress : 1 - Math.pow(-2 * progress + 2, 3) / 2;
+
+/**
+ * Starts slowly and speeds up, along a sine curve.
+ */
+export const easeInSine: Easing = (progress) => 1 - Math.cos((progress * Math.PI) / 2);
+
+/**
+ * Starts quickly and slows down, along a sine curve.
+ */
+export const easeOutSine: Easing = (progress) => Math.sin((progress * Math.PI) / 2);
+
+/**
+ * Speeds up then slows down, along a sine curve.
+ */
+export const easeInOutSine: Easing = (progress) => -(Math.cos(Math.PI * progress) - 1) / 2;
+
+/**
+ * Overshoots the end slightly, then settles back onto it.
+ */
+export const easeOutBack: Easing = (progress) =>
+    1 + 2.70158 * Math.pow(progress - 1, 3) + 1.70158 * Math.pow(progress - 1, 2);
+
+/**
+ * Bounces against the end a few times before settling onto it.
+ */
+export const easeOutBounce: Easing = (progress) => {
+    const bounce = (offset: number, height: number) =>
+        7.5625 * (progress - offset / 2.75) * (progress - offset / 2.75) + height;
+
+    if (progress < 1 / 2.75) {
+        return bounce(0, 0);
+    }
+
+    if (progress < 2 / 2.75) {
+        return bounce(1.5, 0.75);
+    }
+
+    if (progress < 2.5 / 2.75) {
+        return bounce(2.25, 0.9375);
+    }
+
+    return bounce(2.625, 0.984375);
+};
@@ -1,3 +1,5 @@
+export * from "./easings";
 export * from "./TimeEvent";
 export * from "./TimeHandlr";
+export * from "./Tween";
 export * from "./types";
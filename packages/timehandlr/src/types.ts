@@ -69,6 +69,156 @@ export interface TimeEventLike {
     scheduleNextRepeat(): number;
 }
 
+/**
+ * Saved state of a scheduled event.
+ */
+export interface TimeEventSnapshot {
+    /**
+     * How many times the event had been called.
+     */
+    count?: number;
+
+    /**
+     * Identifier the TimeHandlr gave the event.
+     */
+    id: number;
+
+    /**
+     * How many more times the event was to repeat, unless it's a RepeatCalculator.
+     *
+     * @remarks This is null for events that were to repeat forever, as JSON can't represent Infinity.
+     */
+    repeat?: number | null;
+
+    /**
+     * The time at which the event was to be called.
+     */
+    time: number;
+
+    /**
+     * Progress of the tween the event was updating, if it was updating one.
+     */
+    tween?: TweenSnapshot;
+}
+
+/**
+ * Saved state of a TimeHandlr, to be restored later.
+ *
+ * @remarks Snapshots are plain data, so they may be serialized.
+ */
+export interface TimeHandlrSnapshot {
+    /**
+     * Scheduled events, in order of when they were to be called.
+     */
+    events: TimeEventSnapshot[];
+
+    /**
+     * The most recently reached time.
+     */
+    time: number;
+}
+
+/**
+ * A scheduled event set aside by suspendEvents.
+ */
+export interface SuspendedEvent {
+    /**
+     * How long after the suspension the event was to be called.
+     */
+    delay: number;
+
+    /**
+     * The scheduled event.
+     */
+    event: TimeEventLike;
+}
+
+/**
+ * Scheduled events set aside by suspendEvents, to be resumed later.
+ */
+export interface SuspendedEvents {
+    /**
+     * Set aside events, in order of when they were to be called.
+     */
+    events: SuspendedEvent[];
+}
+
+/**
+ * Maps how far a tween is through its duration to how far its value is from start to end.
+ *
+ * @param progress   How far the tween is through its duration, in [0, 1].
+ * @returns How far the value is from start to end, typically in [0, 1].
+ */
+export type Easing = (progress: number) => number;
+
+/**
+ * Receives a tween's new value.
+ *
+ * @param value   The tween's new value.
+ * @returns Anything truthy to cancel the tween.
+ */
+export type TweenUpdate = (value: number) => unknown;
+
+/**
+ * Settings for a tween between two numbers.
+ */
+export interface TweenSettings {
+    /**
+     * How many ticks each run of the tween takes.
+     */
+    duration: number;
+
+    /**
+     * How to map time progress to value progress (by default, linear).
+     */
+    easing?: Easing;
+
+    /**
+     * Value to start at, computed when the tween starts if a Function.
+     */
+    from: number | NumericCalculator;
+
+    /**
+     * Receives the tween's new value each tick, and cancels the tween if it returns truthy.
+     */
+    onUpdate: TweenUpdate;
+
+    /**
+     * How many more times to run after the first, which may be Infinity (by default, 0).
+     */
+    repeat?: number;
+
+    /**
+     * Value to end at, computed when the tween starts if a Function.
+     */
+    to: number | NumericCalculator;
+
+    /**
+     * Whether repeated runs alternate back toward the start value (by default, false).
+     */
+    yoyo?: boolean;
+}
+
+/**
+ * Where a tween is in its lifecycle.
+ */
+export type TweenState = "cancelled" | "completed" | "pending" | "running";
+
+/**
+ * Saved progress of a running tween, to be restored later.
+ */
+export interface TweenSnapshot {
+    /**
+     * How many ticks the current run had taken.
+     */
+    elapsed: number;
+
+    /**
+     * How many runs had completed.
+     */
+    runs: number;
+}
+
 /**
  * Settings to initialize a new TimeHandlr.
  */